@@ -7,19 +7,45 @@ import { useState } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { ProcessingDashboard } from './components/ProcessingDashboard';
 import { MappingEditor } from './components/MappingEditor';
-import type { EmployeeRecord, ProcessingWarning } from './types';
+import { SettingsPanel } from './components/SettingsPanel';
+import { providers as providersApi } from './api';
+import type { DETRecord, EmployeeRecord, HDRRecord, ProcessingWarning, ProviderId } from './types';
 
 function App() {
   const [employees, setEmployees] = useState<EmployeeRecord[]>([]);
   const [warnings, setWarnings] = useState<ProcessingWarning[]>([]);
+  const [notes, setNotes] = useState<ProcessingWarning[]>([]);
   const [headerFields, setHeaderFields] = useState<string[] | undefined>(undefined);
-  const [activeTab, setActiveTab] = useState<'upload' | 'process' | 'mappings'>('upload');
-  const [selectedProvider, setSelectedProvider] = useState<'ADP' | 'QuickBooks'>('ADP');
+  const [detRecords, setDetRecords] = useState<DETRecord[] | undefined>(undefined);
+  const [hdrRecord, setHdrRecord] = useState<HDRRecord | undefined>(undefined);
+  const [activeTab, setActiveTab] = useState<'upload' | 'process' | 'mappings' | 'settings'>('upload');
+  const [selectedProvider, setSelectedProvider] = useState<ProviderId>(() => providersApi.listProviders()[0]?.id ?? '');
+  const [providerEnabled, setProviderEnabled] = useState<boolean>(() => selectedProvider ? providersApi.isEnabled(selectedProvider) : false);
 
-  const handleUploadComplete = (rows: EmployeeRecord[], uploadWarnings: ProcessingWarning[], uploadHeaderFields?: string[]) => {
+  const handleProviderChange = (providerId: ProviderId) => {
+    setSelectedProvider(providerId);
+    setProviderEnabled(providersApi.isEnabled(providerId));
+  };
+
+  const handleProviderEnabledChange = (enabled: boolean) => {
+    providersApi.setEnabled(selectedProvider, enabled);
+    setProviderEnabled(enabled);
+  };
+
+  const handleUploadComplete = (
+    rows: EmployeeRecord[],
+    uploadWarnings: ProcessingWarning[],
+    uploadHeaderFields?: string[],
+    uploadDetRecords?: DETRecord[],
+    uploadHdrRecord?: HDRRecord,
+    uploadNotes: ProcessingWarning[] = []
+  ) => {
     setEmployees(rows);
     setWarnings(uploadWarnings);
+    setNotes(uploadNotes);
     setHeaderFields(uploadHeaderFields);
+    setDetRecords(uploadDetRecords);
+    setHdrRecord(uploadHdrRecord);
     setActiveTab('process');
   };
 
@@ -27,7 +53,7 @@ function App() {
     <div className="app">
       <header className="app-header">
         <h1>SFTP Export Engine</h1>
-        <p className="subtitle">Transform employee data into provider-specific formats (ADP, QuickBooks)</p>
+        <p className="subtitle">Transform employee data into provider-specific formats ({providersApi.listProviders().map(p => p.displayName).join(', ')})</p>
       </header>
 
       <nav className="tabs">
@@ -50,6 +76,12 @@ function App() {
         >
           Mapping Configuration
         </button>
+        <button
+          className={activeTab === 'settings' ? 'active' : ''}
+          onClick={() => setActiveTab('settings')}
+        >
+          Settings
+        </button>
       </nav>
 
       <main className="app-main">
@@ -61,7 +93,10 @@ function App() {
           <ProcessingDashboard 
             employees={employees} 
             warnings={warnings}
+            notes={notes}
             headerFields={headerFields}
+            detRecords={detRecords}
+            hdrRecord={hdrRecord}
             onEmployeesUpdated={handleUploadComplete}
           />
         )}
@@ -72,15 +107,28 @@ function App() {
               <label>Select Provider:</label>
               <select
                 value={selectedProvider}
-                onChange={(e) => setSelectedProvider(e.target.value as 'ADP' | 'QuickBooks')}
+                onChange={(e) => handleProviderChange(e.target.value)}
               >
-                <option value="ADP">ADP</option>
-                <option value="QuickBooks">QuickBooks</option>
+                {providersApi.listProviders().map((descriptor) => (
+                  <option key={descriptor.id} value={descriptor.id}>{descriptor.displayName}</option>
+                ))}
               </select>
+              <label className="provider-enabled-toggle">
+                <input
+                  type="checkbox"
+                  checked={providerEnabled}
+                  onChange={(e) => handleProviderEnabledChange(e.target.checked)}
+                />
+                Include in processing
+              </label>
             </div>
-            <MappingEditor provider={selectedProvider} />
+            <MappingEditor key={selectedProvider} provider={selectedProvider} employees={employees} />
           </div>
         )}
+
+        {activeTab === 'settings' && (
+          <SettingsPanel />
+        )}
       </main>
 
       <footer className="app-footer">
@@ -9,10 +9,16 @@ import * as uploadApi from './routes/upload';
 import * as processApi from './routes/process';
 import * as mappingApi from './routes/mapping';
 import * as templatesApi from './routes/templates';
+import * as providersApi from './routes/providers';
+import * as settingsApi from './routes/settings';
+import * as nachaApi from './routes/nacha';
 
 // Re-export all API functions
 export const upload = uploadApi;
 export const process = processApi;
 export const mapping = mappingApi;
 export const templates = templatesApi;
+export const providers = providersApi;
+export const settings = settingsApi;
+export const nacha = nachaApi;
 
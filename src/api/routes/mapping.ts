@@ -8,42 +8,170 @@ import {
   saveMapping,
   resetMapping,
   exportMapping,
-  importMapping
+  importMapping,
+  getMappingHistory,
+  getMappingVersion,
+  getActiveMappingVersion,
+  getLastMappingAuthor,
+  rollbackMapping
 } from '../../controllers/mappingController';
-import type { ProviderMapping } from '../../types';
+import { parseExpression } from '../../services/expressionEngine';
+import { validateFixedWidthLayout } from '../../utils/fixedWidthWriter';
+import { DEFAULT_MONEY_SETTINGS, formatMoney, parseDecimal, ZERO } from '../../services/money';
+import { diffMappings } from '../../services/mappingDiff';
+import { validateMapping, validateMappingFile } from '../../services/mappingValidator';
+import { previewMapping } from '../../services/mappingPreview';
+import { getProvider } from '../../services/providerRegistry';
+import type {
+  EmployeeRecord,
+  FixedWidthColumn,
+  MappingChangeInfo,
+  MappingDiffEntry,
+  MappingPreview,
+  MappingValidationIssue,
+  MappingVersion,
+  MoneySettings,
+  ProviderId,
+  ProviderMapping
+} from '../../types';
 
 /**
  * Gets mapping configuration for a provider
  */
-export function getProviderMapping(provider: 'ADP' | 'QuickBooks'): ProviderMapping {
+export function getProviderMapping(provider: ProviderId): ProviderMapping {
   return getMapping(provider);
 }
 
 /**
  * Saves mapping configuration for a provider
  */
-export function saveProviderMapping(provider: 'ADP' | 'QuickBooks', mapping: ProviderMapping): void {
-  saveMapping(provider, mapping);
+export function saveProviderMapping(provider: ProviderId, mapping: ProviderMapping, change?: MappingChangeInfo): MappingVersion {
+  return saveMapping(provider, mapping, change);
 }
 
 /**
  * Resets mapping to default for a provider
  */
-export function resetProviderMapping(provider: 'ADP' | 'QuickBooks'): ProviderMapping {
-  return resetMapping(provider);
+export function resetProviderMapping(provider: ProviderId, change?: MappingChangeInfo): ProviderMapping {
+  return resetMapping(provider, change);
 }
 
 /**
  * Exports mapping configuration
  */
-export function exportProviderMapping(provider: 'ADP' | 'QuickBooks'): string {
+export function exportProviderMapping(provider: ProviderId): string {
   return exportMapping(provider);
 }
 
 /**
  * Imports mapping configuration
  */
-export function importProviderMapping(provider: 'ADP' | 'QuickBooks', jsonString: string): void {
-  importMapping(provider, jsonString);
+export function importProviderMapping(provider: ProviderId, jsonString: string, change?: MappingChangeInfo): void {
+  importMapping(provider, jsonString, change);
 }
 
+/**
+ * Checks a mapping against the employee and provider schemas before it is saved
+ * @returns Itemized errors (which block saving) and warnings
+ */
+export function validateProviderMapping(provider: ProviderId, mapping: ProviderMapping): MappingValidationIssue[] {
+  return validateMapping(mapping, getProvider(provider));
+}
+
+/**
+ * Checks a mapping file's structure, schema version and contents before it is imported
+ * @returns Itemized errors (which block the import) and warnings
+ */
+export function validateMappingImport(provider: ProviderId, jsonString: string): MappingValidationIssue[] {
+  return validateMappingFile(jsonString, getProvider(provider)).issues;
+}
+
+/**
+ * Lists the saved versions of a provider's mapping, oldest first
+ */
+export function getProviderMappingHistory(provider: ProviderId): MappingVersion[] {
+  return getMappingHistory(provider);
+}
+
+/**
+ * Gets the version number of the active mapping (null while the built-in default is used)
+ */
+export function getActiveVersion(provider: ProviderId): number | null {
+  return getActiveMappingVersion(provider);
+}
+
+/**
+ * Gets the author name used for the last mapping change
+ */
+export function getLastAuthor(): string {
+  return getLastMappingAuthor();
+}
+
+/**
+ * Compares two saved versions of a provider's mapping
+ * @param provider Provider id
+ * @param fromVersion Older version
+ * @param toVersion Newer version
+ */
+export function diffVersions(provider: ProviderId, fromVersion: number, toVersion: number): MappingDiffEntry[] {
+  return diffMappings(getMappingVersion(provider, fromVersion).mapping, getMappingVersion(provider, toVersion).mapping);
+}
+
+/**
+ * Makes an earlier version the active mapping (recorded as a new version)
+ */
+export function rollbackProviderMapping(provider: ProviderId, version: number, change?: MappingChangeInfo): ProviderMapping {
+  return rollbackMapping(provider, version, change);
+}
+
+/**
+ * Runs a mapping (which need not be saved) against one employee
+ * @returns Source value, transformation and output value for every provider column, with any problems
+ */
+export function previewProviderMapping(provider: ProviderId, mapping: ProviderMapping, employee: EmployeeRecord): MappingPreview {
+  return previewMapping(employee, mapping, getProvider(provider).outputSchema);
+}
+
+
+/**
+ * Checks a transformation expression for syntax errors
+ * @returns Error message, or null when the expression is valid
+ */
+export function checkExpression(expression: string): string | null {
+  if (expression.trim() === '') {
+    return null;
+  }
+  try {
+    parseExpression(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid expression';
+  }
+}
+
+/**
+ * Checks a fixed-width layout for invalid positions or overlapping columns
+ * @returns Error message, or null when the layout is valid
+ */
+export function checkFixedWidthLayout(columns: FixedWidthColumn[]): string | null {
+  try {
+    validateFixedWidthLayout(columns);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid layout';
+  }
+}
+
+/**
+ * Money settings applied when a mapping does not define its own
+ */
+export function getDefaultMoneySettings(): MoneySettings {
+  return { ...DEFAULT_MONEY_SETTINGS };
+}
+
+/**
+ * Formats a sample negative amount with the given money settings (shown in the editor)
+ */
+export function formatMoneyExample(settings: MoneySettings): string {
+  return formatMoney(parseDecimal('-1234.5678') ?? ZERO, settings);
+}
@@ -0,0 +1,24 @@
+/**
+ * NACHA API Route
+ * Client-side API interface for ACH file generation
+ */
+
+import { createPrenoteFile } from '../../controllers/nachaController';
+import { validateNachaSettings } from '../../services/nachaGenerator';
+import type { NachaFile } from '../../services/nachaGenerator';
+import type { EmployeeRecord, NachaSettings } from '../../types';
+
+/**
+ * Generates a NACHA prenote file (zero-dollar PPD entries) for direct deposit accounts
+ */
+export function generatePrenote(employees: EmployeeRecord[]): NachaFile {
+  return createPrenoteFile(employees);
+}
+
+/**
+ * Checks NACHA settings for missing or malformed values
+ * @returns List of problems (empty when the settings are complete)
+ */
+export function checkSettings(settings: NachaSettings): string[] {
+  return validateNachaSettings(settings);
+}
@@ -3,20 +3,102 @@
  * Client-side API interface for employee data processing operations
  */
 
-import { processEmployees } from '../../controllers/processController';
+import { getProviderRecords, buildProviderBundle, recordProviderExport } from '../../controllers/processController';
 import type { ProcessingResult, ProcessingOptions } from '../../controllers/processController';
-import type { EmployeeRecord } from '../../types';
+import { startProcessingJob } from '../../controllers/processingJobController';
+import type { ProcessingJob } from '../../controllers/processingJobController';
+import { getSettings } from '../../controllers/settingsController';
+import { generateErrorReport, generateErrorReportWorkbook, getStoredCorrections } from '../../services/errorTracker';
+import { createBundleArchive } from '../../services/outputBundle';
+import { renderContractorVendorFile, CONTRACTOR_VENDOR_HEADERS } from '../../services/contractors';
+import type { BundleManifest } from '../../services/outputBundle';
+import type { CsvDialect, EmployeeRecord, ProcessingError, ProviderId, ProviderRecord } from '../../types';
 
 /**
  * Processes employee records
  * @param employees Array of employee records
  * @param options Processing options (including headerFields for column index tracking)
- * @returns Processing result
+ * @returns Processing result (null when cancelled)
  */
 export async function processPayroll(
   employees: EmployeeRecord[],
   options: ProcessingOptions = {}
-): Promise<ProcessingResult> {
-  return processEmployees(employees, options);
+): Promise<ProcessingResult | null> {
+  return startProcessingJob(employees, options).result;
 }
 
+/**
+ * Starts processing employee records as a background job that can be paused, resumed and cancelled
+ * @param employees Array of employee records
+ * @param options Processing options (including headerFields for column index tracking)
+ * @returns Job handle
+ */
+export function startProcessing(employees: EmployeeRecord[], options: ProcessingOptions = {}): ProcessingJob {
+  return startProcessingJob(employees, options);
+}
+
+
+/**
+ * Records produced for one provider (employees routed elsewhere are left out)
+ */
+export function getRecordsForProvider(result: ProcessingResult, providerId: ProviderId): ProviderRecord[] {
+  return getProviderRecords(result, providerId);
+}
+
+/**
+ * Builds the error report for a processing run in the employer's export dialect
+ * @param errors Errors from the processing result
+ * @returns Report content and the dialect to download it with
+ */
+export function getErrorReport(errors: ProcessingError[]): { content: string; dialect: CsvDialect } {
+  const dialect = getSettings().exportDialect;
+  return { content: generateErrorReport(errors, getStoredCorrections(), dialect), dialect };
+}
+
+/**
+ * Builds the error report for a processing run as an Excel workbook
+ * @param errors Errors from the processing result
+ * @returns Workbook bytes
+ */
+export function getErrorReportWorkbook(errors: ProcessingError[]): Uint8Array<ArrayBuffer> {
+  return generateErrorReportWorkbook(errors, getStoredCorrections());
+}
+
+/**
+ * Builds the archive of all provider files for a processing run
+ * Files are split per company and named according to the employer's bundling settings
+ * @param result Processing result
+ * @returns Archive file name, bytes and manifest
+ */
+export function getProviderBundle(
+  result: ProcessingResult
+): { fileName: string; content: Uint8Array<ArrayBuffer>; manifest: BundleManifest } {
+  const bundle = buildProviderBundle(result);
+  return { fileName: bundle.fileName, content: createBundleArchive(bundle), manifest: bundle.manifest };
+}
+
+/**
+ * Builds the contractor (1099) vendor setup file for a processing run in the employer's export dialect
+ * @param result Processing result
+ * @returns File name, content and the dialect to download it with
+ */
+export function getContractorVendorFile(result: ProcessingResult): { fileName: string; content: string; dialect: CsvDialect } {
+  const dialect = getSettings().exportDialect;
+  return { ...renderContractorVendorFile(result.contractors.map((contractor) => contractor.record), dialect), dialect };
+}
+
+/**
+ * Vendor setup file column names, in file order
+ */
+export function getContractorVendorHeaders(): string[] {
+  return CONTRACTOR_VENDOR_HEADERS;
+}
+
+/**
+ * Marks the employees of a run as exported to the given providers (checked by duplicate detection in later uploads)
+ * @param result Processing result
+ * @param providerIds Providers whose files were downloaded
+ */
+export function recordExport(result: ProcessingResult, providerIds: ProviderId[]): void {
+  recordProviderExport(result, providerIds);
+}
@@ -0,0 +1,62 @@
+/**
+ * Providers API Route
+ * Client-side API interface for the payroll provider registry
+ */
+
+import {
+  getProviders,
+  getProvider,
+  isProviderEnabled,
+  setProviderEnabled
+} from '../../services/providerRegistry';
+import { renderProviderFile, renderProviderWorkbook } from '../../services/providerFileWriter';
+import type { ProviderFile, ProviderWorkbook, WorkbookProviderRecords } from '../../services/providerFileWriter';
+import type { BatchInfo, ProviderDescriptor, ProviderId, ProviderMapping, ProviderRecord } from '../../types';
+
+/**
+ * Lists all registered providers
+ */
+export function listProviders(): ProviderDescriptor[] {
+  return getProviders();
+}
+
+/**
+ * Gets a registered provider descriptor
+ */
+export function getProviderDescriptor(providerId: ProviderId): ProviderDescriptor {
+  return getProvider(providerId);
+}
+
+/**
+ * Checks whether a provider is enabled for processing
+ */
+export function isEnabled(providerId: ProviderId): boolean {
+  return isProviderEnabled(providerId);
+}
+
+/**
+ * Enables or disables a provider for processing
+ */
+export function setEnabled(providerId: ProviderId, enabled: boolean): void {
+  setProviderEnabled(providerId, enabled);
+}
+
+/**
+ * Renders a provider file in the output format selected by the mapping
+ * Header/trailer records are stamped with the batch the records were processed in
+ */
+export function renderFile(
+  providerId: ProviderId,
+  records: ProviderRecord[],
+  mapping?: ProviderMapping,
+  batch?: BatchInfo
+): ProviderFile {
+  return renderProviderFile(providerId, records, mapping, batch);
+}
+
+/**
+ * Renders an Excel workbook with one sheet per provider plus a summary sheet
+ */
+export function renderWorkbook(providers: WorkbookProviderRecords[], batch?: BatchInfo): ProviderWorkbook {
+  return renderProviderWorkbook(providers, batch);
+}
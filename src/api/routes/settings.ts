@@ -0,0 +1,71 @@
+/**
+ * Settings API Route
+ * Client-side API interface for employer settings
+ */
+
+import { getSettings, saveSettings } from '../../controllers/settingsController';
+import { getExportHistory, clearExportHistory } from '../../controllers/exportHistoryController';
+import { renderFileNameTemplate } from '../../services/outputBundle';
+import { checkRoutingCondition as checkCondition } from '../../services/routing';
+import type { EmployerSettings, ExportedEmployee } from '../../types';
+
+/**
+ * Gets employer settings
+ */
+export function getEmployerSettings(): EmployerSettings {
+  return getSettings();
+}
+
+/**
+ * Saves employer settings
+ */
+export function saveEmployerSettings(settings: EmployerSettings): void {
+  saveSettings(settings);
+}
+
+/**
+ * Renders a file name template with example values
+ * @param template File name template
+ * @returns Example file name, or an error message when the template is invalid
+ */
+export function previewFileNameTemplate(template: string): { fileName?: string; error?: string } {
+  try {
+    return {
+      fileName: renderFileNameTemplate(template, {
+        provider: 'adp_hires',
+        provider_id: 'adp',
+        employer_id: 'EMP001',
+        upload_id: 'UPL20250115',
+        processing_date: '2025-01-15',
+        file_name: 'new_hires_january',
+        company_id: 'COMP001',
+        sequence: '001',
+        batch_id: 'B20250115093000A1B2'
+      }) + '.csv'
+    };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid template' };
+  }
+}
+
+/**
+ * Checks a routing rule condition for syntax errors and unknown variables
+ * @returns Error message, or null when the condition is valid
+ */
+export function checkRoutingCondition(when: string): string | null {
+  return checkCondition(when);
+}
+
+/**
+ * Gets the employees exported in earlier runs (used for duplicate detection)
+ */
+export function getExportedEmployees(): ExportedEmployee[] {
+  return getExportHistory().employees;
+}
+
+/**
+ * Forgets every exported employee, so they are no longer reported as duplicates
+ */
+export function clearExportedEmployees(): void {
+  clearExportHistory();
+}
@@ -3,19 +3,57 @@
  * Client-side API interface for file upload operations
  */
 
-import { handleFileUpload } from '../../controllers/uploadController';
-import type { UploadResult } from '../../controllers/uploadController';
+import { handleFileUpload, getWorkbookSheets } from '../../controllers/uploadController';
+import type { UploadOptions, UploadResult } from '../../controllers/uploadController';
+import { createControlRecords, toControlRow } from '../../services/controlRecords';
+import { isWorkbookFile } from '../../services/workbookProcessor';
 
 /**
- * Uploads and parses a CSV file
- * @param file CSV file to upload
- * @param onProgress Optional progress callback
+ * Uploads and parses a CSV file or Excel workbook (.xlsx)
+ * @param file CSV or workbook file to upload
+ * @param onProgress Optional progress callback (bytes read)
+ * @param options Upload options (workbook sheet to read)
  * @returns Upload result
  */
 export async function uploadFile(
   file: File,
-  onProgress?: (progress: { current: number; total: number }) => void
+  onProgress?: (progress: { current: number; total: number }) => void,
+  options?: UploadOptions
 ): Promise<UploadResult> {
-  return handleFileUpload(file, onProgress);
+  return handleFileUpload(file, onProgress, options);
 }
 
+/**
+ * Lists the sheets of an Excel workbook, for picking the one to upload
+ * @param file Workbook file
+ * @returns Visible sheet names, in tab order
+ */
+export async function listSheets(file: File): Promise<string[]> {
+  return getWorkbookSheets(file);
+}
+
+/**
+ * Checks whether a file is an Excel workbook (sheet must be chosen) rather than a CSV file
+ */
+export function isWorkbook(file: File): boolean {
+  return isWorkbookFile(file);
+}
+
+
+/**
+ * Builds the HDR and FTR rows that frame a file of DET records
+ * @param headers DET column names of the file (record_type first)
+ * @param detCount Number of DET records in the file
+ * @param employerId Umbrella employer identifier
+ * @param fileName Name the file is saved under
+ * @returns Header and trailer rows for the CSV writer
+ */
+export function createControlRows(
+  headers: string[],
+  detCount: number,
+  employerId: string,
+  fileName: string
+): { header: Record<string, string>; trailer: Record<string, string> } {
+  const { header, trailer } = createControlRecords(detCount, employerId, fileName);
+  return { header: toControlRow(header, headers), trailer: toControlRow(trailer, headers) };
+}
@@ -0,0 +1,177 @@
+/**
+ * Crosswalk Editor Component
+ * Lets admins maintain code crosswalk tables (source value -> provider code) for a mapping
+ */
+
+import type { CrosswalkTable, CrosswalkEntry, UnmappedValuePolicy } from '../types';
+
+interface CrosswalkEditorProps {
+  tables: CrosswalkTable[];
+  isEditing: boolean;
+  onChange: (tables: CrosswalkTable[]) => void;
+}
+
+const POLICY_LABELS: Record<UnmappedValuePolicy, string> = {
+  error: 'Error (block export)',
+  warn: 'Warn',
+  passthrough: 'Pass through raw value'
+};
+
+export function CrosswalkEditor({ tables, isEditing, onChange }: CrosswalkEditorProps) {
+  const updateTable = (tableIndex: number, changes: Partial<CrosswalkTable>) => {
+    const updated = [...tables];
+    updated[tableIndex] = { ...updated[tableIndex], ...changes };
+    onChange(updated);
+  };
+
+  const updateEntry = (tableIndex: number, entryIndex: number, field: keyof CrosswalkEntry, value: string) => {
+    const entries = [...tables[tableIndex].entries];
+    entries[entryIndex] = { ...entries[entryIndex], [field]: value };
+    updateTable(tableIndex, { entries });
+  };
+
+  const addEntry = (tableIndex: number) => {
+    updateTable(tableIndex, { entries: [...tables[tableIndex].entries, { source: '', code: '' }] });
+  };
+
+  const removeEntry = (tableIndex: number, entryIndex: number) => {
+    updateTable(tableIndex, { entries: tables[tableIndex].entries.filter((_, i) => i !== entryIndex) });
+  };
+
+  const addTable = () => {
+    onChange([
+      ...tables,
+      { name: `crosswalk_${tables.length + 1}`, entries: [], unmappedPolicy: 'error' }
+    ]);
+  };
+
+  const removeTable = (tableIndex: number) => {
+    if (confirm(`Remove crosswalk '${tables[tableIndex].name}'?`)) {
+      onChange(tables.filter((_, i) => i !== tableIndex));
+    }
+  };
+
+  return (
+    <div className="crosswalk-editor">
+      <div className="crosswalk-header">
+        <h4>Code Crosswalks ({tables.length})</h4>
+        {isEditing && (
+          <button onClick={addTable} className="btn btn-secondary btn-sm">
+            Add Crosswalk
+          </button>
+        )}
+      </div>
+      <p className="help-text">
+        Reference a crosswalk from a transformation with <code>crosswalk("name", value)</code>.
+        Values without an entry follow the table's unmapped value policy.
+      </p>
+
+      {tables.map((table, tableIndex) => (
+        <div key={tableIndex} className="crosswalk-table">
+          <div className="crosswalk-settings">
+            <label>
+              Name
+              {isEditing ? (
+                <input
+                  type="text"
+                  value={table.name}
+                  onChange={(e) => updateTable(tableIndex, { name: e.target.value })}
+                  className="field-input"
+                />
+              ) : (
+                <strong>{table.name}</strong>
+              )}
+            </label>
+            <label>
+              Unmapped values
+              {isEditing ? (
+                <select
+                  value={table.unmappedPolicy}
+                  onChange={(e) => updateTable(tableIndex, { unmappedPolicy: e.target.value as UnmappedValuePolicy })}
+                  className="field-input"
+                >
+                  {(Object.keys(POLICY_LABELS) as UnmappedValuePolicy[]).map((policy) => (
+                    <option key={policy} value={policy}>{POLICY_LABELS[policy]}</option>
+                  ))}
+                </select>
+              ) : (
+                <span>{POLICY_LABELS[table.unmappedPolicy]}</span>
+              )}
+            </label>
+            <label>
+              Default code
+              {isEditing ? (
+                <input
+                  type="text"
+                  value={table.defaultCode || ''}
+                  onChange={(e) => updateTable(tableIndex, { defaultCode: e.target.value })}
+                  className="field-input"
+                />
+              ) : (
+                <span>{table.defaultCode || '-'}</span>
+              )}
+            </label>
+            {isEditing && (
+              <button onClick={() => removeTable(tableIndex)} className="btn btn-warning btn-sm">
+                Remove
+              </button>
+            )}
+          </div>
+          {table.description && <p className="crosswalk-description">{table.description}</p>}
+
+          <table>
+            <thead>
+              <tr>
+                <th>Source Value</th>
+                <th>Provider Code</th>
+                {isEditing && <th></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {table.entries.map((entry, entryIndex) => (
+                <tr key={entryIndex}>
+                  <td>
+                    {isEditing ? (
+                      <input
+                        type="text"
+                        value={entry.source}
+                        onChange={(e) => updateEntry(tableIndex, entryIndex, 'source', e.target.value)}
+                        className="field-input"
+                      />
+                    ) : (
+                      entry.source
+                    )}
+                  </td>
+                  <td>
+                    {isEditing ? (
+                      <input
+                        type="text"
+                        value={entry.code}
+                        onChange={(e) => updateEntry(tableIndex, entryIndex, 'code', e.target.value)}
+                        className="field-input"
+                      />
+                    ) : (
+                      entry.code
+                    )}
+                  </td>
+                  {isEditing && (
+                    <td>
+                      <button onClick={() => removeEntry(tableIndex, entryIndex)} className="btn btn-secondary btn-sm">
+                        Remove
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {isEditing && (
+            <button onClick={() => addEntry(tableIndex)} className="btn btn-secondary btn-sm">
+              Add Entry
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
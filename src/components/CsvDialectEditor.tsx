@@ -0,0 +1,97 @@
+/**
+ * CSV Dialect Editor Component
+ * Edits delimiter, quoting, line endings, header row, encoding and BOM of a delimited file
+ */
+
+import type { CsvDialect, CsvQuotePolicy, TextEncoding } from '../types';
+
+interface CsvDialectEditorProps {
+  dialect: CsvDialect;
+  isEditing: boolean;
+  onChange: (dialect: CsvDialect) => void;
+}
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma (,)',
+  '|': 'Pipe (|)',
+  '\t': 'Tab',
+  ';': 'Semicolon (;)'
+};
+
+const QUOTE_LABELS: Record<CsvQuotePolicy, string> = {
+  minimal: 'Only when needed',
+  always: 'Always',
+  'non-numeric': 'All non-numeric values'
+};
+
+const ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'windows-1252': 'Windows-1252'
+};
+
+export function CsvDialectEditor({ dialect, isEditing, onChange }: CsvDialectEditorProps) {
+  const update = (changes: Partial<CsvDialect>) => onChange({ ...dialect, ...changes });
+
+  if (!isEditing) {
+    return (
+      <p className="csv-dialect-summary">
+        {DELIMITER_LABELS[dialect.delimiter] || `"${dialect.delimiter}"`}, quotes {QUOTE_LABELS[dialect.quote].toLowerCase()},{' '}
+        {dialect.lineTerminator === '\r\n' ? 'CRLF' : 'LF'} line endings, {dialect.header ? 'with' : 'no'} header row,{' '}
+        {ENCODING_LABELS[dialect.encoding]}{dialect.encoding === 'utf-8' && dialect.bom ? ' with BOM' : ''}
+      </p>
+    );
+  }
+
+  return (
+    <div className="crosswalk-settings">
+      <label>
+        Delimiter
+        <select value={dialect.delimiter} onChange={(e) => update({ delimiter: e.target.value })} className="field-input">
+          {Object.entries(DELIMITER_LABELS).map(([delimiter, label]) => (
+            <option key={label} value={delimiter}>{label}</option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Quoting
+        <select value={dialect.quote} onChange={(e) => update({ quote: e.target.value as CsvQuotePolicy })} className="field-input">
+          {(Object.keys(QUOTE_LABELS) as CsvQuotePolicy[]).map(policy => (
+            <option key={policy} value={policy}>{QUOTE_LABELS[policy]}</option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Line endings
+        <select
+          value={dialect.lineTerminator}
+          onChange={(e) => update({ lineTerminator: e.target.value as CsvDialect['lineTerminator'] })}
+          className="field-input"
+        >
+          <option value={'\n'}>LF (Unix)</option>
+          <option value={'\r\n'}>CRLF (Windows)</option>
+        </select>
+      </label>
+      <label>
+        Encoding
+        <select value={dialect.encoding} onChange={(e) => update({ encoding: e.target.value as TextEncoding })} className="field-input">
+          {(Object.keys(ENCODING_LABELS) as TextEncoding[]).map(encoding => (
+            <option key={encoding} value={encoding}>{ENCODING_LABELS[encoding]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="deduction-type-toggle">
+        <input type="checkbox" checked={dialect.header} onChange={(e) => update({ header: e.target.checked })} />
+        Header row
+      </label>
+      <label className="deduction-type-toggle">
+        <input
+          type="checkbox"
+          checked={dialect.bom}
+          disabled={dialect.encoding !== 'utf-8'}
+          onChange={(e) => update({ bom: e.target.checked })}
+        />
+        Byte order mark
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+/**
+ * Deduction Rules Editor Component
+ * Edits how normalized deductions fill a provider's deduction slots
+ */
+
+import { mapping as mappingApi } from '../api';
+import type { DeductionRules, DeductionSlot, DeductionType } from '../types';
+
+interface DeductionRulesEditorProps {
+  rules?: DeductionRules;
+  isEditing: boolean;
+  onChange: (rules: DeductionRules | undefined) => void;
+}
+
+const TYPE_LABELS: Record<DeductionType, string> = {
+  health: 'Health',
+  retirement: 'Retirement',
+  retirement_loan: 'Retirement loan',
+  garnishment: 'Garnishment',
+  union_dues: 'Union dues',
+  disability: 'Disability'
+};
+
+const ALL_TYPES = Object.keys(TYPE_LABELS) as DeductionType[];
+
+export function DeductionRulesEditor({ rules, isEditing, onChange }: DeductionRulesEditorProps) {
+  const enableRules = () => {
+    onChange({ slots: [], priority: [...ALL_TYPES], overflow: 'warn' });
+  };
+
+  if (!rules) {
+    return (
+      <div className="deduction-rules-editor">
+        <div className="crosswalk-header">
+          <h4>Deduction Slots</h4>
+          {isEditing && (
+            <button onClick={enableRules} className="btn btn-secondary btn-sm">
+              Add Deduction Rules
+            </button>
+          )}
+        </div>
+        <p className="help-text">This mapping does not place deductions into slots.</p>
+      </div>
+    );
+  }
+
+  const priority = [...rules.priority, ...ALL_TYPES.filter(type => !rules.priority.includes(type))];
+
+  const movePriority = (index: number, direction: -1 | 1) => {
+    const updated = [...priority];
+    const target = index + direction;
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    onChange({ ...rules, priority: updated });
+  };
+
+  const updateSlot = (slotIndex: number, slot: DeductionSlot) => {
+    const slots = [...rules.slots];
+    slots[slotIndex] = slot;
+    onChange({ ...rules, slots });
+  };
+
+  const toggleSlotType = (slotIndex: number, type: DeductionType) => {
+    const slot = rules.slots[slotIndex];
+    const types = slot.types || [];
+    const updated = types.includes(type) ? types.filter(t => t !== type) : [...types, type];
+    updateSlot(slotIndex, { ...slot, types: updated.length > 0 ? updated : undefined });
+  };
+
+  const renameColumn = (slotIndex: number, oldName: string, newName: string) => {
+    const slot = rules.slots[slotIndex];
+    const columns: Record<string, string> = {};
+    for (const [name, expression] of Object.entries(slot.columns)) {
+      columns[name === oldName ? newName : name] = expression;
+    }
+    updateSlot(slotIndex, { ...slot, columns });
+  };
+
+  const setColumnExpression = (slotIndex: number, name: string, expression: string) => {
+    const slot = rules.slots[slotIndex];
+    updateSlot(slotIndex, { ...slot, columns: { ...slot.columns, [name]: expression } });
+  };
+
+  const removeColumn = (slotIndex: number, name: string) => {
+    const slot = rules.slots[slotIndex];
+    const columns = { ...slot.columns };
+    delete columns[name];
+    updateSlot(slotIndex, { ...slot, columns });
+  };
+
+  const addColumn = (slotIndex: number) => {
+    const slot = rules.slots[slotIndex];
+    setColumnExpression(slotIndex, `Column_${Object.keys(slot.columns).length + 1}`, 'code');
+  };
+
+  const addSlot = () => {
+    onChange({ ...rules, slots: [...rules.slots, { columns: {} }] });
+  };
+
+  const removeSlot = (slotIndex: number) => {
+    onChange({ ...rules, slots: rules.slots.filter((_, i) => i !== slotIndex) });
+  };
+
+  return (
+    <div className="deduction-rules-editor">
+      <div className="crosswalk-header">
+        <h4>Deduction Slots ({rules.slots.length})</h4>
+        {isEditing && (
+          <div className="deduction-actions">
+            <button onClick={addSlot} className="btn btn-secondary btn-sm">
+              Add Slot
+            </button>
+            <button onClick={() => onChange(undefined)} className="btn btn-warning btn-sm">
+              Remove Deduction Rules
+            </button>
+          </div>
+        )}
+      </div>
+      <p className="help-text">
+        Deductions (health, retirement, loans, garnishments, union dues, disability) are placed in priority order into the first free slot that accepts their type.
+        Slot columns are expressions using <code>type</code>, <code>code</code>, <code>amount</code>, <code>percent</code>, <code>tax_treatment</code>, <code>start_date</code> and any employee field.
+        Deductions that do not fit are reported and never dropped silently.
+      </p>
+
+      <div className="crosswalk-settings">
+        <label>
+          Leftover deductions
+          {isEditing ? (
+            <select
+              value={rules.overflow}
+              onChange={(e) => onChange({ ...rules, overflow: e.target.value as DeductionRules['overflow'] })}
+              className="field-input"
+            >
+              <option value="warn">Warn</option>
+              <option value="error">Error (block export)</option>
+            </select>
+          ) : (
+            <span>{rules.overflow === 'error' ? 'Error (block export)' : 'Warn'}</span>
+          )}
+        </label>
+      </div>
+
+      <h5>Priority</h5>
+      <ol className="deduction-priority">
+        {priority.map((type, index) => (
+          <li key={type}>
+            {TYPE_LABELS[type]}
+            {isEditing && (
+              <>
+                <button onClick={() => movePriority(index, -1)} disabled={index === 0} className="btn btn-secondary btn-sm">
+                  Up
+                </button>
+                <button onClick={() => movePriority(index, 1)} disabled={index === priority.length - 1} className="btn btn-secondary btn-sm">
+                  Down
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {rules.slots.map((slot, slotIndex) => (
+        <div key={slotIndex} className="crosswalk-table">
+          <div className="crosswalk-settings">
+            <strong>Slot {slotIndex + 1}</strong>
+            <span>Accepts:</span>
+            {isEditing ? (
+              ALL_TYPES.map((type) => (
+                <label key={type} className="deduction-type-toggle">
+                  <input
+                    type="checkbox"
+                    checked={!!slot.types?.includes(type)}
+                    onChange={() => toggleSlotType(slotIndex, type)}
+                  />
+                  {TYPE_LABELS[type]}
+                </label>
+              ))
+            ) : (
+              <span>{slot.types && slot.types.length > 0 ? slot.types.map(type => TYPE_LABELS[type]).join(', ') : 'Any type'}</span>
+            )}
+            {isEditing && (
+              <button onClick={() => removeSlot(slotIndex)} className="btn btn-warning btn-sm">
+                Remove
+              </button>
+            )}
+          </div>
+
+          <table>
+            <thead>
+              <tr>
+                <th>Output Column</th>
+                <th>Expression</th>
+                {isEditing && <th></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(slot.columns).map(([name, expression]) => {
+                const expressionError = mappingApi.checkExpression(expression);
+                return (
+                  <tr key={name}>
+                    <td>
+                      {isEditing ? (
+                        <input
+                          type="text"
+                          defaultValue={name}
+                          onBlur={(e) => e.target.value && e.target.value !== name && renameColumn(slotIndex, name, e.target.value)}
+                          className="field-input"
+                        />
+                      ) : (
+                        name
+                      )}
+                    </td>
+                    <td>
+                      {isEditing ? (
+                        <>
+                          <input
+                            type="text"
+                            value={expression}
+                            onChange={(e) => setColumnExpression(slotIndex, name, e.target.value)}
+                            className={`field-input ${expressionError ? 'input-error' : ''}`}
+                          />
+                          {expressionError && <div className="expression-error">{expressionError}</div>}
+                        </>
+                      ) : (
+                        <code className="expression-text">{expression}</code>
+                      )}
+                    </td>
+                    {isEditing && (
+                      <td>
+                        <button onClick={() => removeColumn(slotIndex, name)} className="btn btn-secondary btn-sm">
+                          Remove
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {isEditing && (
+            <button onClick={() => addColumn(slotIndex)} className="btn btn-secondary btn-sm">
+              Add Column
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
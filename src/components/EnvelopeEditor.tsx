@@ -0,0 +1,136 @@
+/**
+ * Envelope Editor Component
+ * Edits the header and trailer records wrapped around a provider file
+ */
+
+import { mapping as mappingApi } from '../api';
+import type { EnvelopeField, ProviderEnvelope } from '../types';
+
+interface EnvelopeEditorProps {
+  envelope?: ProviderEnvelope;
+  isEditing: boolean;
+  onChange: (envelope: ProviderEnvelope) => void;
+}
+
+type EnvelopeSection = 'header' | 'trailer';
+
+const SECTION_LABELS: Record<EnvelopeSection, string> = {
+  header: 'Header Record',
+  trailer: 'Trailer Record'
+};
+
+export function EnvelopeEditor({ envelope = {}, isEditing, onChange }: EnvelopeEditorProps) {
+  const updateSection = (section: EnvelopeSection, fields: EnvelopeField[]) => {
+    onChange({ ...envelope, [section]: fields.length > 0 ? fields : undefined });
+  };
+
+  const updateField = (section: EnvelopeSection, index: number, changes: Partial<EnvelopeField>) => {
+    const fields = [...(envelope[section] || [])];
+    fields[index] = { ...fields[index], ...changes };
+    updateSection(section, fields);
+  };
+
+  const addField = (section: EnvelopeSection) => {
+    const fields = envelope[section] || [];
+    updateSection(section, [...fields, { name: `Field_${fields.length + 1}`, expression: '""' }]);
+  };
+
+  const removeField = (section: EnvelopeSection, index: number) => {
+    updateSection(section, (envelope[section] || []).filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="envelope-editor">
+      <h4>Header &amp; Trailer</h4>
+      <p className="help-text">
+        Header and trailer fields are expressions. Variables: <code>batch_id</code>, <code>employer_id</code>, <code>created_at</code>, <code>record_count</code>.
+        Control totals: <code>sum("Column")</code> and <code>hashTotal("Column")</code> (digit sum of an identifier column, last 10 digits).
+        Length applies to fixed-width output only.
+      </p>
+
+      {(Object.keys(SECTION_LABELS) as EnvelopeSection[]).map((section) => {
+        const fields = envelope[section] || [];
+        return (
+          <div key={section} className="envelope-section">
+            <div className="crosswalk-header">
+              <h5>{SECTION_LABELS[section]} ({fields.length > 0 ? `${fields.length} fields` : 'none'})</h5>
+              {isEditing && (
+                <button onClick={() => addField(section)} className="btn btn-secondary btn-sm">
+                  Add Field
+                </button>
+              )}
+            </div>
+            {fields.length > 0 && (
+              <table>
+                <thead>
+                  <tr>
+                    <th>Field</th>
+                    <th>Expression</th>
+                    <th>Length</th>
+                    {isEditing && <th></th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {fields.map((field, index) => {
+                    const expressionError = mappingApi.checkExpression(field.expression);
+                    return (
+                      <tr key={index}>
+                        <td>
+                          {isEditing ? (
+                            <input
+                              type="text"
+                              value={field.name}
+                              onChange={(e) => updateField(section, index, { name: e.target.value })}
+                              className="field-input"
+                            />
+                          ) : (
+                            field.name
+                          )}
+                        </td>
+                        <td>
+                          {isEditing ? (
+                            <>
+                              <input
+                                type="text"
+                                value={field.expression}
+                                onChange={(e) => updateField(section, index, { expression: e.target.value })}
+                                className={`field-input ${expressionError ? 'input-error' : ''}`}
+                              />
+                              {expressionError && <div className="expression-error">{expressionError}</div>}
+                            </>
+                          ) : (
+                            <code className="expression-text">{field.expression}</code>
+                          )}
+                        </td>
+                        <td>
+                          {isEditing ? (
+                            <input
+                              type="number"
+                              min={1}
+                              value={field.length ?? ''}
+                              onChange={(e) => updateField(section, index, { length: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+                              className="field-input"
+                            />
+                          ) : (
+                            field.length ?? '-'
+                          )}
+                        </td>
+                        {isEditing && (
+                          <td>
+                            <button onClick={() => removeField(section, index)} className="btn btn-secondary btn-sm">
+                              Remove
+                            </button>
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ const ERRORS_PER_PAGE = 10;
 
 export function ErrorsModal({ isOpen, onClose, errors }: ErrorsModalProps) {
   const [currentPage, setCurrentPage] = useState(1);
+  const [highlightedRow, setHighlightedRow] = useState<number | null>(null);
 
   if (!isOpen) return null;
 
@@ -41,6 +42,15 @@ export function ErrorsModal({ isOpen, onClose, errors }: ErrorsModalProps) {
     setCurrentPage(page);
   };
 
+  // Jumps to the page with the first error of a linked row and highlights that row's errors
+  const handleLinkClick = (row: number) => {
+    const index = errors.findIndex((error) => error.row === row);
+    if (index >= 0) {
+      setCurrentPage(Math.floor(index / ERRORS_PER_PAGE) + 1);
+    }
+    setHighlightedRow(row);
+  };
+
   const getErrorTypeClass = (errorType: string) => {
     return `error-type ${errorType.toLowerCase().replace('_', '-')}`;
   };
@@ -78,7 +88,7 @@ export function ErrorsModal({ isOpen, onClose, errors }: ErrorsModalProps) {
                   </tr>
                 ) : (
                   currentErrors.map((error) => (
-                    <tr key={error.id}>
+                    <tr key={error.id} className={error.row === highlightedRow ? 'highlighted' : ''}>
                       <td>{error.row}</td>
                       <td>{error.columnIndex !== undefined ? error.columnIndex : '-'}</td>
                       <td>{error.field}</td>
@@ -88,7 +98,24 @@ export function ErrorsModal({ isOpen, onClose, errors }: ErrorsModalProps) {
                           {error.errorType}
                         </span>
                       </td>
-                      <td>{error.message}</td>
+                      <td>
+                        {error.message}
+                        {error.links && error.links.length > 0 && (
+                          <ul className="error-links">
+                            {error.links.map((link, index) => (
+                              <li key={index}>
+                                {link.row !== undefined ? (
+                                  <button onClick={() => handleLinkClick(link.row as number)} className="link-button">
+                                    {link.label}
+                                  </button>
+                                ) : (
+                                  link.label
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
                       <td>{error.suggestedFix || '-'}</td>
                     </tr>
                   ))
@@ -0,0 +1,95 @@
+/**
+ * Field Conditions Editor Component
+ * Edits the ordered when/then branches of one field mapping
+ */
+
+import { mapping as mappingApi } from '../api';
+import type { FieldMappingBranch } from '../types';
+
+interface FieldConditionsEditorProps {
+  conditions?: FieldMappingBranch[];
+  isEditing: boolean;
+  onChange: (conditions: FieldMappingBranch[] | undefined) => void;
+}
+
+export function FieldConditionsEditor({ conditions = [], isEditing, onChange }: FieldConditionsEditorProps) {
+  const update = (branches: FieldMappingBranch[]) => {
+    onChange(branches.length > 0 ? branches : undefined);
+  };
+
+  const updateBranch = (index: number, changes: Partial<FieldMappingBranch>) => {
+    const branches = [...conditions];
+    branches[index] = { ...branches[index], ...changes };
+    update(branches);
+  };
+
+  const moveBranch = (index: number, direction: -1 | 1) => {
+    const branches = [...conditions];
+    const target = index + direction;
+    [branches[index], branches[target]] = [branches[target], branches[index]];
+    update(branches);
+  };
+
+  if (!isEditing) {
+    return conditions.length === 0 ? (
+      <>-</>
+    ) : (
+      <ol className="field-conditions">
+        {conditions.map((branch, index) => (
+          <li key={index}>
+            if <code className="expression-text">{branch.when}</code> then <code className="expression-text">{branch.then}</code>
+          </li>
+        ))}
+      </ol>
+    );
+  }
+
+  return (
+    <div className="field-conditions">
+      {conditions.map((branch, index) => {
+        const whenError = branch.when ? mappingApi.checkExpression(branch.when) : 'Condition is required';
+        const thenError = branch.then ? mappingApi.checkExpression(branch.then) : 'Value is required';
+        return (
+          <div key={index} className="field-condition">
+            <label>
+              If
+              <input
+                type="text"
+                value={branch.when}
+                onChange={(e) => updateBranch(index, { when: e.target.value })}
+                className={`field-input expression-input ${whenError ? 'input-error' : ''}`}
+                placeholder='e.g. employment_type == "Part-time"'
+              />
+            </label>
+            <label>
+              then
+              <input
+                type="text"
+                value={branch.then}
+                onChange={(e) => updateBranch(index, { then: e.target.value })}
+                className={`field-input expression-input ${thenError ? 'input-error' : ''}`}
+                placeholder='e.g. "W"'
+              />
+            </label>
+            <div className="deduction-actions">
+              <button onClick={() => moveBranch(index, -1)} disabled={index === 0} className="btn btn-secondary btn-sm">
+                Up
+              </button>
+              <button onClick={() => moveBranch(index, 1)} disabled={index === conditions.length - 1} className="btn btn-secondary btn-sm">
+                Down
+              </button>
+              <button onClick={() => update(conditions.filter((_, i) => i !== index))} className="btn btn-warning btn-sm">
+                Remove
+              </button>
+            </div>
+            {(whenError || thenError) && <div className="expression-error">{whenError || thenError}</div>}
+          </div>
+        );
+      })}
+      <button onClick={() => update([...conditions, { when: '', then: '' }])} className="btn btn-secondary btn-sm">
+        Add Condition
+      </button>
+      {conditions.length > 0 && <div className="help-text">Else: source field, transformation and default value</div>}
+    </div>
+  );
+}
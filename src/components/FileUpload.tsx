@@ -1,38 +1,74 @@
 /**
  * File Upload Component
- * Handles CSV file upload with drag-and-drop support
+ * Handles CSV and Excel workbook upload with drag-and-drop support
  */
 
 import { useState, useRef } from 'react';
 import { upload as uploadApi } from '../api';
-import type { EmployeeRecord, ProcessingWarning } from '../types';
+import type { DETRecord, EmployeeRecord, HDRRecord, ProcessingWarning } from '../types';
 import { TemplateDownload } from './TemplateDownload';
 import { SampleDataDownload } from './SampleDataDownload';
 
 interface FileUploadProps {
-  onUploadComplete: (rows: EmployeeRecord[], warnings: ProcessingWarning[], headerFields?: string[]) => void;
+  onUploadComplete: (rows: EmployeeRecord[], warnings: ProcessingWarning[], headerFields?: string[], detRecords?: DETRecord[], hdrRecord?: HDRRecord, notes?: ProcessingWarning[]) => void;
 }
 
 export function FileUpload({ onUploadComplete }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadPercent, setUploadPercent] = useState(0);
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ file: File; sheets: string[] } | null>(null);
+  const [selectedSheet, setSelectedSheet] = useState('');
   const [preview, setPreview] = useState<EmployeeRecord[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFile = async (file: File) => {
-    if (!file.name.endsWith('.csv')) {
-      alert('Please upload a CSV file');
+    if (!/\.(csv|xlsx)$/i.test(file.name)) {
+      alert('Please upload a CSV file or an Excel workbook (.xlsx)');
       return;
     }
+    setPendingWorkbook(null);
+
+    // Workbooks with several sheets wait for the user to pick one
+    if (uploadApi.isWorkbook(file)) {
+      try {
+        const sheets = await uploadApi.listSheets(file);
+        if (sheets.length === 0) {
+          alert('The workbook has no visible sheets');
+          return;
+        }
+        if (sheets.length > 1) {
+          setPendingWorkbook({ file, sheets });
+          setSelectedSheet(sheets[0]);
+          return;
+        }
+        await uploadFile(file, sheets[0]);
+      } catch (error) {
+        alert(`Upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      return;
+    }
+    await uploadFile(file);
+  };
 
+  const uploadFile = async (file: File, sheetName?: string) => {
+    setPendingWorkbook(null);
     setIsUploading(true);
+    setUploadPercent(0);
     try {
-      const result = await uploadApi.uploadFile(file, (_progress) => {
-        // Progress updates can be shown here if needed
-      });
+      const result = await uploadApi.uploadFile(file, (progress) => {
+        setUploadPercent(progress.total > 0 ? Math.round((progress.current / progress.total) * 100) : 0);
+      }, { sheetName });
+
+      // HDR/FTR problems mean the file is incomplete or inconsistent - do not process any of it
+      if (result.controlErrors.length > 0) {
+        setPreview([]);
+        alert(`Upload rejected - the file's header/trailer records do not check out:\n${result.controlErrors.map(e => e.message).join('\n')}`);
+        return;
+      }
 
       setPreview(result.rows.slice(0, 5)); // Preview first 5 rows
-      onUploadComplete(result.rows, result.warnings, result.headerFields);
+      onUploadComplete(result.rows, result.warnings, result.headerFields, result.detRecords, result.hdrRecord, result.notes);
     } catch (error) {
       alert(`Upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
@@ -79,7 +115,7 @@ export function FileUpload({ onUploadComplete }: FileUploadProps) {
       </section>
 
       <section className="upload-section">
-        <h3>Upload Your CSV File</h3>
+        <h3>Upload Your CSV or Excel File</h3>
         <div
         className={`upload-zone ${isDragging ? 'dragging' : ''} ${isUploading ? 'uploading' : ''}`}
         onDragOver={handleDragOver}
@@ -90,21 +126,37 @@ export function FileUpload({ onUploadComplete }: FileUploadProps) {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".csv"
+          accept=".csv,.xlsx"
           onChange={handleFileSelect}
           style={{ display: 'none' }}
         />
         {isUploading ? (
-          <p>Uploading and parsing CSV...</p>
+          <p>Uploading and parsing file... {uploadPercent}%</p>
         ) : (
           <>
             <p className="upload-text">
               <strong>Click to upload</strong> or drag and drop
             </p>
-            <p className="upload-hint">CSV file (employees.csv)</p>
+            <p className="upload-hint">CSV file (employees.csv) or Excel workbook (employees.xlsx)</p>
           </>
         )}
         </div>
+        {pendingWorkbook && (
+          <div className="sheet-picker">
+            <label htmlFor="sheet-select">Sheet to upload from {pendingWorkbook.file.name}:</label>
+            <select id="sheet-select" value={selectedSheet} onChange={(e) => setSelectedSheet(e.target.value)}>
+              {pendingWorkbook.sheets.map(sheet => (
+                <option key={sheet} value={sheet}>{sheet}</option>
+              ))}
+            </select>
+            <button onClick={() => uploadFile(pendingWorkbook.file, selectedSheet)} className="btn btn-primary btn-sm">
+              Upload Sheet
+            </button>
+            <button onClick={() => setPendingWorkbook(null)} className="btn btn-secondary btn-sm">
+              Cancel
+            </button>
+          </div>
+        )}
       </section>
 
       {preview.length > 0 && (
@@ -5,30 +5,77 @@
 
 import { useState } from 'react';
 import { useMappings } from '../hooks/useMappings';
-import { adpMapping, quickBooksMapping } from '../config/defaultMappings';
-import type { ProviderMapping, FieldMapping } from '../types';
+import { providers as providersApi, mapping as mappingApi } from '../api';
+import { CrosswalkEditor } from './CrosswalkEditor';
+import { OutputFormatEditor } from './OutputFormatEditor';
+import { EnvelopeEditor } from './EnvelopeEditor';
+import { DeductionRulesEditor } from './DeductionRulesEditor';
+import { MoneySettingsEditor } from './MoneySettingsEditor';
+import { MappingHistoryPanel } from './MappingHistoryPanel';
+import { MappingPreviewPanel } from './MappingPreviewPanel';
+import { FieldConditionsEditor } from './FieldConditionsEditor';
+import type { EmployeeRecord, ProviderId, ProviderMapping, FieldMapping, FieldMappingBranch, CrosswalkTable, ProviderOutputConfig, ProviderEnvelope, DeductionRules, MoneySettings, MappingChangeInfo, MappingValidationIssue } from '../types';
+
+/**
+ * Returns a syntax error message for an expression, or null if it parses
+ */
+function getExpressionError(expression?: string): string | null {
+  return expression ? mappingApi.checkExpression(expression) : null;
+}
 
 interface MappingEditorProps {
-  provider: 'ADP' | 'QuickBooks';
+  provider: ProviderId;
+  employees: EmployeeRecord[]; // Employees of the current upload, for the live preview
 }
 
-export function MappingEditor({ provider }: MappingEditorProps) {
-  const { mapping, saveMapping, resetMapping, exportMapping, importMapping } = useMappings(provider);
+export function MappingEditor({ provider, employees }: MappingEditorProps) {
+  const { mapping, history, saveMapping, resetMapping, exportMapping, importMapping, rollbackMapping } = useMappings(provider);
   const [editedMapping, setEditedMapping] = useState<ProviderMapping>(mapping);
   const [isEditing, setIsEditing] = useState(false);
+  const [author, setAuthor] = useState<string>(() => mappingApi.getLastAuthor());
+  const [comment, setComment] = useState('');
+  const [validationIssues, setValidationIssues] = useState<MappingValidationIssue[]>([]);
+
+  /**
+   * Author and comment for the next saved version (every version needs an author)
+   */
+  const getChangeInfo = (): MappingChangeInfo | null => {
+    if (author.trim() === '') {
+      alert('Enter your name under "Change details" - it is recorded with the mapping version');
+      return null;
+    }
+    return { author, comment };
+  };
 
   const handleSave = () => {
-    saveMapping(editedMapping);
+    const issues = mappingApi.validateProviderMapping(provider, editedMapping);
+    setValidationIssues(issues);
+    if (issues.some(issue => issue.severity === 'error')) {
+      alert('Cannot save: the mapping has problems - see the list above the field mappings');
+      return;
+    }
+    const change = getChangeInfo();
+    if (!change) {
+      return;
+    }
+    saveMapping(editedMapping, change);
     setIsEditing(false);
+    setComment('');
     alert('Mapping saved successfully');
   };
 
   const handleReset = () => {
-    if (confirm('Are you sure you want to reset to default mapping?')) {
-      resetMapping();
-      const defaultMapping = provider === 'ADP' ? adpMapping : quickBooksMapping;
+    const change = getChangeInfo();
+    if (!change) {
+      return;
+    }
+    if (confirm('Are you sure you want to reset to default mapping? The current mapping stays in the version history.')) {
+      resetMapping(change);
+      setComment('');
+      const defaultMapping = providersApi.getProviderDescriptor(provider).defaultMapping;
       setEditedMapping(defaultMapping);
       setIsEditing(false);
+      setValidationIssues([]);
     }
   };
 
@@ -43,17 +90,46 @@ export function MappingEditor({ provider }: MappingEditorProps) {
     URL.revokeObjectURL(url);
   };
 
+  const handleRollback = (version: number) => {
+    const change = getChangeInfo();
+    if (!change) {
+      return;
+    }
+    if (confirm(`Make version ${version} the active mapping? This is recorded as a new version.`)) {
+      try {
+        setEditedMapping(rollbackMapping(version, change));
+        setIsEditing(false);
+        setValidationIssues([]);
+        setComment('');
+      } catch (error) {
+        alert(`Failed to roll back mapping: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  };
+
   const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    const change = getChangeInfo();
+    if (!change) {
+      e.target.value = '';
+      return;
+    }
 
     const reader = new FileReader();
     reader.onload = (event) => {
       try {
         const jsonString = event.target?.result as string;
-        importMapping(jsonString);
-        const importedMapping = JSON.parse(jsonString) as ProviderMapping;
-        setEditedMapping(importedMapping);
+        const issues = mappingApi.validateMappingImport(provider, jsonString);
+        setValidationIssues(issues);
+        if (issues.some(issue => issue.severity === 'error')) {
+          alert('Mapping was not imported: the file has problems - see the list above the field mappings');
+          return;
+        }
+        importMapping(jsonString, change);
+        setEditedMapping(mappingApi.getProviderMapping(provider));
+        setIsEditing(false);
+        setComment('');
         alert('Mapping imported successfully');
       } catch (error) {
         alert(`Failed to import mapping: ${error instanceof Error ? error.message : 'Invalid file'}`);
@@ -75,17 +151,89 @@ export function MappingEditor({ provider }: MappingEditorProps) {
     setIsEditing(true);
   };
 
+  const handleConditionsChange = (index: number, conditions: FieldMappingBranch[] | undefined) => {
+    const updatedMappings = [...editedMapping.fieldMappings];
+    updatedMappings[index] = {
+      ...updatedMappings[index],
+      conditions
+    };
+    setEditedMapping({
+      ...editedMapping,
+      fieldMappings: updatedMappings
+    });
+    setIsEditing(true);
+  };
+
+  const handleAddFieldMapping = () => {
+    setEditedMapping({
+      ...editedMapping,
+      fieldMappings: [...editedMapping.fieldMappings, { sourceField: '', targetField: '' }]
+    });
+  };
+
+  const handleRemoveFieldMapping = (index: number) => {
+    setEditedMapping({
+      ...editedMapping,
+      fieldMappings: editedMapping.fieldMappings.filter((_, i) => i !== index)
+    });
+  };
+
+  const handleCrosswalksChange = (crosswalks: CrosswalkTable[]) => {
+    setEditedMapping({
+      ...editedMapping,
+      crosswalks
+    });
+    setIsEditing(true);
+  };
+
+  const handleDeductionsChange = (deductions: DeductionRules | undefined) => {
+    setEditedMapping({
+      ...editedMapping,
+      deductions
+    });
+    setIsEditing(true);
+  };
+
+  const handleMoneyChange = (money: MoneySettings) => {
+    setEditedMapping({
+      ...editedMapping,
+      money
+    });
+    setIsEditing(true);
+  };
+
+  const handleEnvelopeChange = (envelope: ProviderEnvelope) => {
+    setEditedMapping({
+      ...editedMapping,
+      envelope
+    });
+    setIsEditing(true);
+  };
+
+  const handleOutputChange = (output: ProviderOutputConfig) => {
+    setEditedMapping({
+      ...editedMapping,
+      output
+    });
+    setIsEditing(true);
+  };
+
   return (
     <div className="mapping-editor">
       <div className="mapping-header">
-        <h3>{provider} Field Mappings</h3>
+        <h3>{providersApi.getProviderDescriptor(provider).displayName} Field Mappings</h3>
         <div className="mapping-actions">
+          {!isEditing && (
+            <button onClick={() => setIsEditing(true)} className="btn btn-primary">
+              Edit Mappings
+            </button>
+          )}
           {isEditing && (
             <>
               <button onClick={handleSave} className="btn btn-primary">
                 Save Changes
               </button>
-              <button onClick={() => { setEditedMapping(mapping); setIsEditing(false); }} className="btn btn-secondary">
+              <button onClick={() => { setEditedMapping(mapping); setIsEditing(false); setValidationIssues([]); }} className="btn btn-secondary">
                 Cancel
               </button>
             </>
@@ -108,6 +256,40 @@ export function MappingEditor({ provider }: MappingEditorProps) {
         </div>
       </div>
 
+      <div className="crosswalk-settings mapping-change-info">
+        <label>
+          Change details: your name
+          <input type="text" value={author} onChange={(e) => setAuthor(e.target.value)} className="field-input" />
+        </label>
+        <label>
+          Comment
+          <input
+            type="text"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="What changed and why"
+            className="field-input"
+          />
+        </label>
+      </div>
+
+      {validationIssues.length > 0 && (
+        <div className="mapping-validation">
+          <h4>
+            {validationIssues.filter(issue => issue.severity === 'error').length} error(s),{' '}
+            {validationIssues.filter(issue => issue.severity === 'warning').length} warning(s)
+          </h4>
+          <ul>
+            {validationIssues.map((issue, index) => (
+              <li key={index} className={`validation-${issue.severity}`}>
+                <strong>{issue.severity === 'error' ? 'Error' : 'Warning'}:</strong> {issue.message}
+                {issue.path && <> <code>{issue.path}</code></>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="mapping-table">
         <table>
           <thead>
@@ -116,6 +298,8 @@ export function MappingEditor({ provider }: MappingEditorProps) {
               <th>Target Field</th>
               <th>Transformation</th>
               <th>Default Value</th>
+              <th>Conditions</th>
+              {isEditing && <th></th>}
             </tr>
           </thead>
           <tbody>
@@ -146,19 +330,99 @@ export function MappingEditor({ provider }: MappingEditorProps) {
                   )}
                 </td>
                 <td>
-                  {fieldMapping.transformation || '-'}
+                  {isEditing ? (
+                    <>
+                      <input
+                        type="text"
+                        value={fieldMapping.transformation || ''}
+                        onChange={(e) => handleFieldMappingChange(index, 'transformation', e.target.value)}
+                        className={`field-input expression-input ${getExpressionError(fieldMapping.transformation) ? 'input-error' : ''}`}
+                        placeholder="e.g. upper(value)"
+                      />
+                      {getExpressionError(fieldMapping.transformation) && (
+                        <div className="expression-error">{getExpressionError(fieldMapping.transformation)}</div>
+                      )}
+                    </>
+                  ) : (
+                    <code className="expression-text">{fieldMapping.transformation || '-'}</code>
+                  )}
                 </td>
                 <td>
-                  {fieldMapping.defaultValue || '-'}
+                  {isEditing ? (
+                    <input
+                      type="text"
+                      value={fieldMapping.defaultValue || ''}
+                      onChange={(e) => handleFieldMappingChange(index, 'defaultValue', e.target.value)}
+                      className="field-input"
+                    />
+                  ) : (
+                    fieldMapping.defaultValue || '-'
+                  )}
+                </td>
+                <td>
+                  <FieldConditionsEditor
+                    conditions={fieldMapping.conditions}
+                    isEditing={isEditing}
+                    onChange={(conditions) => handleConditionsChange(index, conditions)}
+                  />
                 </td>
+                {isEditing && (
+                  <td>
+                    <button onClick={() => handleRemoveFieldMapping(index)} className="btn btn-warning btn-sm">
+                      Remove
+                    </button>
+                  </td>
+                )}
               </tr>
             ))}
           </tbody>
         </table>
+        {isEditing && (
+          <button onClick={handleAddFieldMapping} className="btn btn-secondary btn-sm">
+            Add Field Mapping
+          </button>
+        )}
       </div>
 
+      <MappingPreviewPanel provider={provider} mapping={editedMapping} employees={employees} />
+
+      <CrosswalkEditor
+        tables={editedMapping.crosswalks || []}
+        isEditing={isEditing}
+        onChange={handleCrosswalksChange}
+      />
+
+      <DeductionRulesEditor
+        rules={editedMapping.deductions}
+        isEditing={isEditing}
+        onChange={handleDeductionsChange}
+      />
+
+      <MoneySettingsEditor
+        money={editedMapping.money}
+        isEditing={isEditing}
+        onChange={handleMoneyChange}
+      />
+
+      <OutputFormatEditor
+        output={editedMapping.output}
+        columns={providersApi.getProviderDescriptor(provider).outputSchema.map(column => column.name)}
+        isEditing={isEditing}
+        onChange={handleOutputChange}
+      />
+
+      <EnvelopeEditor
+        envelope={editedMapping.envelope}
+        isEditing={isEditing}
+        onChange={handleEnvelopeChange}
+      />
+
+      <MappingHistoryPanel provider={provider} history={history} onRollback={handleRollback} />
+
       <div className="mapping-info">
-        <p><strong>Note:</strong> Transformations are defined in the mapping configuration. Custom transformations can be added by editing the mapping JSON directly.</p>
+        <p><strong>Transformations</strong> are expressions evaluated per employee. Use <code>value</code> for the source field and any employee field by name (e.g. <code>first_name & " " & last_name</code>).</p>
+        <p><strong>Conditions</strong> are checked in order: the first whose <em>if</em> expression holds sets the column to its <em>then</em> expression (e.g. if <code>employment_type == "Part-time"</code> then <code>"W"</code>). When none holds, the source field, transformation and default value apply. A matching condition on a deduction slot column overrides the slot.</p>
+        <p>Operators: <code>+ - * /</code>, <code>&</code> (concatenate), <code>== != &lt; &gt;</code>, <code>&& || !</code>, <code>cond ? a : b</code>. Functions include <code>if</code>, <code>lookup</code>, <code>concat</code>, <code>join</code>, <code>upper</code>, <code>lower</code>, <code>trim</code>, <code>coalesce</code>, <code>fixed</code>, <code>round</code>, <code>money</code>, <code>percentOf</code>, <code>formatDate</code>, <code>formatNumber</code>, <code>perPaycheck</code> and <code>crosswalk</code>. Use the money functions rather than <code>* /</code> for amounts so they are computed exactly.</p>
       </div>
     </div>
   );
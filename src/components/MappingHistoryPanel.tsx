@@ -0,0 +1,130 @@
+/**
+ * Mapping History Panel Component
+ * Lists saved mapping versions, compares two versions side by side and rolls back to an earlier one
+ */
+
+import { useState } from 'react';
+import { mapping as mappingApi } from '../api';
+import type { MappingChangeSource, MappingVersion, ProviderId } from '../types';
+
+interface MappingHistoryPanelProps {
+  provider: ProviderId;
+  history: MappingVersion[];
+  onRollback: (version: number) => void;
+}
+
+const SOURCE_LABELS: Record<MappingChangeSource, string> = {
+  save: 'Saved',
+  reset: 'Reset to default',
+  import: 'Imported',
+  rollback: 'Rollback'
+};
+
+export function MappingHistoryPanel({ provider, history, onRollback }: MappingHistoryPanelProps) {
+  const latest = history.length > 0 ? history[history.length - 1].version : 0;
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+
+  if (history.length === 0) {
+    return (
+      <div className="mapping-history">
+        <h4>Version History</h4>
+        <p className="help-text">No saved versions yet - this provider uses its built-in default mapping. Every save is kept as a version.</p>
+      </div>
+    );
+  }
+
+  // Compare the two latest versions until the user picks others
+  const compareFrom = fromVersion ?? (history.length > 1 ? history[history.length - 2].version : latest);
+  const compareTo = toVersion ?? latest;
+  const diff = compareFrom !== compareTo ? mappingApi.diffVersions(provider, compareFrom, compareTo) : [];
+
+  return (
+    <div className="mapping-history">
+      <h4>Version History</h4>
+      <div className="crosswalk-table">
+        <table>
+          <thead>
+            <tr>
+              <th>Version</th>
+              <th>Saved</th>
+              <th>Author</th>
+              <th>Change</th>
+              <th>Comment</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...history].reverse().map(entry => (
+              <tr key={entry.version} className={entry.version === latest ? 'active-version' : ''}>
+                <td>v{entry.version}{entry.version === latest ? ' (active)' : ''}</td>
+                <td>{new Date(entry.savedAt).toLocaleString()}</td>
+                <td>{entry.author || 'Unknown'}</td>
+                <td>
+                  {SOURCE_LABELS[entry.source]}
+                  {entry.rolledBackFrom !== undefined ? ` to v${entry.rolledBackFrom}` : ''}
+                </td>
+                <td>{entry.comment}</td>
+                <td>
+                  <button
+                    onClick={() => onRollback(entry.version)}
+                    disabled={entry.version === latest}
+                    className="btn btn-secondary btn-sm"
+                  >
+                    Roll back
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="crosswalk-settings">
+        <label>
+          Compare
+          <select value={compareFrom} onChange={(e) => setFromVersion(Number(e.target.value))} className="field-input">
+            {history.map(entry => (
+              <option key={entry.version} value={entry.version}>v{entry.version}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          with
+          <select value={compareTo} onChange={(e) => setToVersion(Number(e.target.value))} className="field-input">
+            {history.map(entry => (
+              <option key={entry.version} value={entry.version}>v{entry.version}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {compareFrom === compareTo ? (
+        <p className="help-text">Pick two different versions to compare.</p>
+      ) : diff.length === 0 ? (
+        <p className="help-text">v{compareFrom} and v{compareTo} are identical.</p>
+      ) : (
+        <div className="crosswalk-table mapping-diff">
+          <table>
+            <thead>
+              <tr>
+                <th>Setting</th>
+                <th>v{compareFrom}</th>
+                <th>v{compareTo}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.map(entry => (
+                <tr key={entry.path} className={`diff-${entry.change}`}>
+                  <td><code>{entry.path}</code></td>
+                  <td>{entry.before ?? ''}</td>
+                  <td>{entry.after ?? ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+/**
+ * Mapping Preview Panel Component
+ * Runs the mapping being edited against one employee and shows source value -> transformation -> output
+ * for every provider column, before anything is saved
+ */
+
+import { useMemo, useState } from 'react';
+import { mapping as mappingApi } from '../api';
+import { getMessyEmployeeData, getStandardEmployeeData } from '../utils/sampleDataGenerator';
+import type { EmployeeRecord, ProviderId, ProviderMapping } from '../types';
+
+interface MappingPreviewPanelProps {
+  provider: ProviderId;
+  mapping: ProviderMapping;
+  employees: EmployeeRecord[]; // Employees of the current upload (may be empty)
+}
+
+type PreviewSource = 'upload' | 'standard' | 'messy';
+
+const SOURCE_LABELS: Record<PreviewSource, string> = {
+  upload: 'Current upload',
+  standard: 'Standard sample data',
+  messy: 'Messy sample data'
+};
+
+export function MappingPreviewPanel({ provider, mapping, employees }: MappingPreviewPanelProps) {
+  const [source, setSource] = useState<PreviewSource>(employees.length > 0 ? 'upload' : 'standard');
+  const [employeeIndex, setEmployeeIndex] = useState(0);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+
+  const candidates = useMemo<EmployeeRecord[]>(() => {
+    if (source === 'upload') {
+      return employees;
+    }
+    return (source === 'standard' ? getStandardEmployeeData() : getMessyEmployeeData()) as EmployeeRecord[];
+  }, [source, employees]);
+
+  const employee = candidates[Math.min(employeeIndex, candidates.length - 1)];
+  const preview = employee ? mappingApi.previewProviderMapping(provider, mapping, employee) : null;
+  const rows = preview ? preview.rows.filter(row => !problemsOnly || row.problems.length > 0) : [];
+  const errorCount = preview ? preview.rows.filter(row => row.problems.some(problem => problem.severity === 'error')).length : 0;
+
+  return (
+    <div className="mapping-preview">
+      <h4>Live Preview</h4>
+      <div className="crosswalk-settings">
+        <label>
+          Employees from
+          <select
+            value={source}
+            onChange={(e) => { setSource(e.target.value as PreviewSource); setEmployeeIndex(0); }}
+            className="field-input"
+          >
+            {(Object.keys(SOURCE_LABELS) as PreviewSource[]).map(key => (
+              <option key={key} value={key} disabled={key === 'upload' && employees.length === 0}>
+                {SOURCE_LABELS[key]}{key === 'upload' ? ` (${employees.length})` : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Employee
+          <select value={employeeIndex} onChange={(e) => setEmployeeIndex(Number(e.target.value))} className="field-input">
+            {candidates.map((candidate, index) => (
+              <option key={index} value={index}>
+                Row {index + 1}: {candidate.employee_id || 'no id'} {candidate.first_name} {candidate.last_name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="deduction-type-toggle">
+          <input type="checkbox" checked={problemsOnly} onChange={(e) => setProblemsOnly(e.target.checked)} />
+          Only columns with problems
+        </label>
+      </div>
+
+      {!preview ? (
+        <p className="help-text">No employees to preview - upload a file or pick a sample data set.</p>
+      ) : (
+        <>
+          <p className="help-text">
+            {errorCount === 0
+              ? 'Every column passes for this employee.'
+              : `${errorCount} column(s) would be reported as errors for this employee.`}{' '}
+            The preview uses the mapping as edited, before it is saved.
+          </p>
+          {preview.problems.length > 0 && (
+            <div className="mapping-validation">
+              <ul>
+                {preview.problems.map((problem, index) => (
+                  <li key={index} className={`validation-${problem.severity}`}>{problem.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div className="crosswalk-table">
+            <table>
+              <thead>
+                <tr>
+                  <th>Provider Column</th>
+                  <th>Source</th>
+                  <th>Source Value</th>
+                  <th>Transformation</th>
+                  <th>Output Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const severity = row.problems.some(problem => problem.severity === 'error')
+                    ? 'error'
+                    : row.problems.length > 0 ? 'warning' : '';
+                  return (
+                    <tr key={row.column} className={severity ? `preview-${severity}` : ''}>
+                      <td>{row.column}</td>
+                      <td>{row.sourceField || '-'}</td>
+                      <td>{row.sourceValue}</td>
+                      <td>
+                        {row.condition && <div className="help-text">Condition {row.condition}</div>}
+                        <code className="expression-text">{row.transformation || '-'}</code>
+                      </td>
+                      <td>
+                        {row.output}
+                        {row.problems.map((problem, index) => (
+                          <div key={index} className={`validation-${problem.severity}`}>{problem.message}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
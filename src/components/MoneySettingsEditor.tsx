@@ -0,0 +1,125 @@
+/**
+ * Money Settings Editor Component
+ * Edits how a provider's money amounts are rounded and formatted
+ */
+
+import { mapping as mappingApi } from '../api';
+import type { MoneySettings, RoundingMode } from '../types';
+
+interface MoneySettingsEditorProps {
+  money?: MoneySettings;
+  isEditing: boolean;
+  onChange: (money: MoneySettings) => void;
+}
+
+const ROUNDING_LABELS: Record<RoundingMode, string> = {
+  'half-up': 'Half up (1.005 → 1.01)',
+  'half-even': 'Banker\'s (1.005 → 1.00)'
+};
+
+export function MoneySettingsEditor({ money, isEditing, onChange }: MoneySettingsEditorProps) {
+  const settings = money || mappingApi.getDefaultMoneySettings();
+  const update = (changes: Partial<MoneySettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="money-settings-editor">
+      <div className="crosswalk-header">
+        <h4>Money</h4>
+        <span className="money-example">Example: {mappingApi.formatMoneyExample(settings)}</span>
+      </div>
+      <p className="help-text">
+        Amounts are computed exactly and rounded once, when they are written. Use <code>money(...)</code> in expressions to format
+        an amount with these settings and <code>perPaycheck(annual, pay_frequency)</code> to split an annual amount into the regular
+        per-paycheck amount. True-up only changes the amount when an expression passes a period, as in
+        <code>perPaycheck(annual, pay_frequency, period)</code>, and that period is the year's last; the default mappings send
+        standing per-paycheck rates, not per-period payments, so they always use the regular amount.
+      </p>
+
+      <div className="crosswalk-settings">
+        <label>
+          Rounding
+          {isEditing ? (
+            <select
+              value={settings.rounding}
+              onChange={(e) => update({ rounding: e.target.value as RoundingMode })}
+              className="field-input"
+            >
+              {(Object.keys(ROUNDING_LABELS) as RoundingMode[]).map(mode => (
+                <option key={mode} value={mode}>{ROUNDING_LABELS[mode]}</option>
+              ))}
+            </select>
+          ) : (
+            <span>{ROUNDING_LABELS[settings.rounding]}</span>
+          )}
+        </label>
+        <label>
+          Decimals
+          {isEditing ? (
+            <input
+              type="number"
+              min={0}
+              max={6}
+              value={settings.decimals}
+              onChange={(e) => update({ decimals: Math.min(6, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+              className="field-input"
+            />
+          ) : (
+            <span>{settings.decimals}</span>
+          )}
+        </label>
+        <label>
+          Currency symbol
+          {isEditing ? (
+            <input
+              type="text"
+              maxLength={3}
+              value={settings.currencySymbol || ''}
+              onChange={(e) => update({ currencySymbol: e.target.value || undefined })}
+              className="field-input"
+            />
+          ) : (
+            <span>{settings.currencySymbol || 'None'}</span>
+          )}
+        </label>
+        <label>
+          Thousands separator
+          {isEditing ? (
+            <input
+              type="text"
+              maxLength={1}
+              value={settings.thousandsSeparator || ''}
+              onChange={(e) => update({ thousandsSeparator: e.target.value || undefined })}
+              className="field-input"
+            />
+          ) : (
+            <span>{settings.thousandsSeparator || 'None'}</span>
+          )}
+        </label>
+        <label>
+          Negative amounts
+          {isEditing ? (
+            <select
+              value={settings.negativeStyle || 'minus'}
+              onChange={(e) => update({ negativeStyle: e.target.value as MoneySettings['negativeStyle'] })}
+              className="field-input"
+            >
+              <option value="minus">-1.00</option>
+              <option value="parentheses">(1.00)</option>
+            </select>
+          ) : (
+            <span>{settings.negativeStyle === 'parentheses' ? '(1.00)' : '-1.00'}</span>
+          )}
+        </label>
+        <label className="deduction-type-toggle">
+          <input
+            type="checkbox"
+            checked={settings.trueUpFinalPeriod}
+            disabled={!isEditing}
+            onChange={(e) => update({ trueUpFinalPeriod: e.target.checked })}
+          />
+          True-up final pay period
+        </label>
+      </div>
+    </div>
+  );
+}
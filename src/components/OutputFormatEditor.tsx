@@ -0,0 +1,138 @@
+/**
+ * Output Format Editor Component
+ * Chooses a provider's output file format and edits the CSV dialect or fixed-width column specifications
+ */
+
+import { createDefaultLayout, getRecordLength } from '../utils/fixedWidthWriter';
+import { DEFAULT_CSV_DIALECT } from '../utils/csvWriter';
+import { CsvDialectEditor } from './CsvDialectEditor';
+import type { CsvDialect, FixedWidthColumn, OutputFormat, ProviderOutputConfig, TruncationPolicy } from '../types';
+
+interface OutputFormatEditorProps {
+  output?: ProviderOutputConfig;
+  columns: string[]; // Provider output columns (used to build a starting layout)
+  isEditing: boolean;
+  onChange: (output: ProviderOutputConfig) => void;
+}
+
+const TRUNCATION_LABELS: Record<TruncationPolicy, string> = {
+  'truncate-right': 'Keep left',
+  'truncate-left': 'Keep right',
+  blank: 'Leave blank'
+};
+
+export function OutputFormatEditor({ output, columns, isEditing, onChange }: OutputFormatEditorProps) {
+  const format: OutputFormat = output?.format || 'csv';
+  const layout = output?.fixedWidthColumns || [];
+
+  const handleFormatChange = (newFormat: OutputFormat) => {
+    onChange({
+      ...output,
+      format: newFormat,
+      fixedWidthColumns: newFormat === 'fixed-width' && layout.length === 0
+        ? createDefaultLayout(columns)
+        : layout
+    });
+  };
+
+  const updateColumn = (index: number, changes: Partial<FixedWidthColumn>) => {
+    const updated = [...layout];
+    updated[index] = { ...updated[index], ...changes };
+    onChange({ ...output, format, fixedWidthColumns: updated });
+  };
+
+  const parseOptionalNumber = (value: string): number | undefined => {
+    return value.trim() === '' ? undefined : parseInt(value, 10);
+  };
+
+  return (
+    <div className="output-format-editor">
+      <div className="crosswalk-header">
+        <h4>Output Format</h4>
+        {isEditing ? (
+          <select value={format} onChange={(e) => handleFormatChange(e.target.value as OutputFormat)} className="field-input output-format-select">
+            <option value="csv">Delimited (CSV)</option>
+            <option value="fixed-width">Fixed-width positional</option>
+          </select>
+        ) : (
+          <span>{format === 'fixed-width' ? 'Fixed-width positional' : 'Delimited (CSV)'}</span>
+        )}
+      </div>
+
+      {format === 'csv' && (
+        <CsvDialectEditor
+          dialect={output?.dialect || DEFAULT_CSV_DIALECT}
+          isEditing={isEditing}
+          onChange={(dialect: CsvDialect) => onChange({ ...output, format, dialect })}
+        />
+      )}
+
+      {format === 'fixed-width' && (
+        <>
+          <p className="help-text">
+            Positions are 1-based. Record length: {getRecordLength(layout)} characters. Values that do not fit are reported as warnings during processing.
+          </p>
+          <div className="mapping-table">
+            <table>
+              <thead>
+                <tr>
+                  <th>Column</th>
+                  <th>Start</th>
+                  <th>Length</th>
+                  <th>Justify</th>
+                  <th>Pad</th>
+                  <th>Implied Decimals</th>
+                  <th>Too Long</th>
+                </tr>
+              </thead>
+              <tbody>
+                {layout.map((column, index) => (
+                  <tr key={index}>
+                    <td>{column.field}</td>
+                    <td>
+                      {isEditing ? (
+                        <input type="number" min={1} value={column.start} onChange={(e) => updateColumn(index, { start: parseInt(e.target.value, 10) || 1 })} className="field-input" />
+                      ) : column.start}
+                    </td>
+                    <td>
+                      {isEditing ? (
+                        <input type="number" min={1} value={column.length} onChange={(e) => updateColumn(index, { length: parseInt(e.target.value, 10) || 1 })} className="field-input" />
+                      ) : column.length}
+                    </td>
+                    <td>
+                      {isEditing ? (
+                        <select value={column.justify || 'left'} onChange={(e) => updateColumn(index, { justify: e.target.value as 'left' | 'right' })} className="field-input">
+                          <option value="left">Left</option>
+                          <option value="right">Right</option>
+                        </select>
+                      ) : (column.justify || 'left')}
+                    </td>
+                    <td>
+                      {isEditing ? (
+                        <input type="text" maxLength={1} value={column.padChar ?? ' '} onChange={(e) => updateColumn(index, { padChar: e.target.value || ' ' })} className="field-input" />
+                      ) : `'${column.padChar ?? ' '}'`}
+                    </td>
+                    <td>
+                      {isEditing ? (
+                        <input type="number" min={0} max={6} value={column.impliedDecimals ?? ''} onChange={(e) => updateColumn(index, { impliedDecimals: parseOptionalNumber(e.target.value) })} className="field-input" />
+                      ) : (column.impliedDecimals ?? '-')}
+                    </td>
+                    <td>
+                      {isEditing ? (
+                        <select value={column.truncation || 'truncate-right'} onChange={(e) => updateColumn(index, { truncation: e.target.value as TruncationPolicy })} className="field-input">
+                          {(Object.keys(TRUNCATION_LABELS) as TruncationPolicy[]).map((policy) => (
+                            <option key={policy} value={policy}>{TRUNCATION_LABELS[policy]}</option>
+                          ))}
+                        </select>
+                      ) : TRUNCATION_LABELS[column.truncation || 'truncate-right']}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
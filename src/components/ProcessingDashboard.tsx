@@ -5,28 +5,42 @@
 
 import { useState, useRef } from 'react';
 import { useProcessing } from '../hooks/useProcessing';
-import { exportToCSV } from '../utils/csvWriter';
-import { upload as uploadApi } from '../api';
-import type { EmployeeRecord, ProcessingWarning } from '../types';
+import { exportToCSV, downloadCSV, downloadText } from '../utils/csvWriter';
+import { exportToXLSX, downloadXLSX } from '../utils/xlsxWriter';
+import { downloadZip } from '../utils/zipWriter';
+import { upload as uploadApi, process as processApi, providers as providersApi, nacha as nachaApi, settings as settingsApi } from '../api';
+import type { DETRecord, EmployeeRecord, HDRRecord, ProcessingWarning, ProviderId } from '../types';
 import { ProgressLogs } from './ProgressLogs';
 import { ErrorCorrection } from './ErrorCorrection';
 import { ErrorsModal } from './ErrorsModal';
 import { FaDownload } from 'react-icons/fa';
-import { IoCheckmarkCircle, IoCloseCircle, IoWarning, IoRefresh } from 'react-icons/io5';
+import { IoCheckmarkCircle, IoCloseCircle, IoWarning, IoInformationCircle, IoRefresh, IoPause, IoPlay, IoStop } from 'react-icons/io5';
 
 interface ProcessingDashboardProps {
   employees: EmployeeRecord[];
   warnings: ProcessingWarning[];
+  notes?: ProcessingWarning[]; // Informational upload findings - listed, but downloads are not held back for them
   headerFields?: string[];
-  onEmployeesUpdated?: (employees: EmployeeRecord[], warnings: ProcessingWarning[], headerFields?: string[]) => void;
+  detRecords?: DETRecord[];
+  hdrRecord?: HDRRecord;
+  onEmployeesUpdated?: (employees: EmployeeRecord[], warnings: ProcessingWarning[], headerFields?: string[], detRecords?: DETRecord[], hdrRecord?: HDRRecord, notes?: ProcessingWarning[]) => void;
 }
 
-export function ProcessingDashboard({ employees, warnings, headerFields, onEmployeesUpdated }: ProcessingDashboardProps) {
-  const { progress, result, process, reset } = useProcessing();
+/**
+ * Formats a number of seconds as "45s" or "3m 20s"
+ */
+function formatDuration(seconds: number): string {
+  const rounded = Math.ceil(seconds);
+  return rounded < 60 ? `${rounded}s` : `${Math.floor(rounded / 60)}m ${rounded % 60}s`;
+}
+
+export function ProcessingDashboard({ employees, warnings, notes = [], headerFields, detRecords, hdrRecord, onEmployeesUpdated }: ProcessingDashboardProps) {
+  const { progress, result, process, pause, resume, cancel, reset } = useProcessing();
   const [isProcessing, setIsProcessing] = useState(false);
   const [isUploadingCorrected, setIsUploadingCorrected] = useState(false);
-  const [selectedProvider, setSelectedProvider] = useState<'ADP' | 'QuickBooks'>('ADP');
+  const [selectedProvider, setSelectedProvider] = useState<ProviderId>('');
   const [isErrorsModalOpen, setIsErrorsModalOpen] = useState(false);
+  const [downloadFormat, setDownloadFormat] = useState<'csv' | 'xlsx'>('csv');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleProcess = async () => {
@@ -38,7 +52,7 @@ export function ProcessingDashboard({ employees, warnings, headerFields, onEmplo
     setIsProcessing(true);
     reset();
     try {
-      await process(employees, headerFields);
+      await process(employees, headerFields, detRecords, hdrRecord);
     } catch (error) {
       alert(`Processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
@@ -46,44 +60,114 @@ export function ProcessingDashboard({ employees, warnings, headerFields, onEmplo
     }
   };
 
-  const handleDownloadADP = () => {
+  // Fall back to the first provider of the run until the user picks one
+  const activeProvider = selectedProvider || result?.providers[0] || '';
+
+  const handleDownloadProvider = () => {
     if (!result || result.processedEmployees.length === 0) {
       alert('No processed data available. Please process the file first.');
       return;
     }
 
-    const adpRecords = result.processedEmployees.map(pe => pe.adpRecord);
-    const headers = Object.keys(adpRecords[0] || {});
-    exportToCSV(adpRecords, 'adp_hires.csv', headers);
+    if (!activeProvider) {
+      alert('No payroll providers were enabled for this run.');
+      return;
+    }
+
+    if (downloadFormat === 'xlsx') {
+      try {
+        const workbook = providersApi.renderWorkbook(
+          result.providers.map(providerId => ({
+            providerId,
+            records: processApi.getRecordsForProvider(result, providerId)
+          })),
+          result.batch
+        );
+        downloadXLSX(workbook.content, workbook.fileName);
+        processApi.recordExport(result, result.providers);
+      } catch (error) {
+        alert(`Download failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      return;
+    }
+
+    const records = processApi.getRecordsForProvider(result, activeProvider);
+    try {
+      const file = providersApi.renderFile(activeProvider, records, result.mappings[activeProvider], result.batch);
+      // Fixed-width files have no dialect and are downloaded as plain text
+      if (file.dialect) {
+        downloadCSV(file.content, file.fileName, file.dialect);
+      } else {
+        downloadText(file.content, file.fileName);
+      }
+      processApi.recordExport(result, [activeProvider]);
+    } catch (error) {
+      alert(`Download failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   };
 
-  const handleDownloadQuickBooks = () => {
+  const handleDownloadBundle = () => {
     if (!result || result.processedEmployees.length === 0) {
       alert('No processed data available. Please process the file first.');
       return;
     }
 
-    const qbRecords = result.processedEmployees.map(pe => pe.quickBooksRecord);
-    const headers = Object.keys(qbRecords[0] || {});
-    exportToCSV(qbRecords, 'quickbooks_hires.csv', headers);
+    try {
+      const bundle = processApi.getProviderBundle(result);
+      downloadZip(bundle.content, bundle.fileName);
+      processApi.recordExport(result, result.providers);
+    } catch (error) {
+      alert(`Download failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   };
 
-  const handleDownloadProvider = () => {
-    if (selectedProvider === 'ADP') {
-      handleDownloadADP();
-    } else {
-      handleDownloadQuickBooks();
+  const handleDownloadPrenote = () => {
+    if (!result || result.processedEmployees.length === 0) {
+      alert('No processed data available. Please process the file first.');
+      return;
+    }
+
+    try {
+      const file = nachaApi.generatePrenote(result.processedEmployees.map(pe => pe.employee));
+      downloadText(file.content, file.fileName);
+      if (file.skipped.length > 0) {
+        const details = file.skipped
+          .map(s => `${s.employeeId} (${s.account}): ${s.reason}`)
+          .join('\n');
+        alert(`Prenote file created with ${file.entryCount} entries. ${file.skipped.length} account(s) were skipped:\n${details}`);
+      }
+    } catch (error) {
+      alert(`Prenote generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDownloadContractors = () => {
+    if (!result || result.contractors.length === 0) {
+      alert('No contractors in this run.');
+      return;
+    }
+
+    if (downloadFormat === 'xlsx') {
+      exportToXLSX(
+        result.contractors.map(contractor => contractor.record),
+        'contractor_vendor_setup.xlsx',
+        processApi.getContractorVendorHeaders(),
+        'Contractors'
+      );
+      return;
     }
+    const file = processApi.getContractorVendorFile(result);
+    downloadCSV(file.content, file.fileName, file.dialect);
   };
 
   const handleDownloadEmployeeUpload = () => {
-    if (!result || result.processedEmployees.length === 0) {
+    if (!result || result.processedEmployees.length + result.contractors.length === 0) {
       alert('No processed data available. Please process the file first.');
       return;
     }
 
-    // Get validated employee records (employee upload format)
-    const employeeRecords = result.processedEmployees.map(pe => pe.employee);
+    // Get validated employee records (employee upload format), contractors included so they survive the round trip
+    const employeeRecords = [...result.processedEmployees, ...result.contractors].map(pe => pe.employee);
     
     // Get headers from first record (all EmployeeRecord fields)
     const headers = employeeRecords.length > 0 ? Object.keys(employeeRecords[0]) : [];
@@ -94,11 +178,15 @@ export function ProcessingDashboard({ employees, warnings, headerFields, onEmplo
       ? 'employee_upload_file_HAS_ERRORS_fix_these.csv'
       : 'employee_upload_file.csv';
     
+    if (downloadFormat === 'xlsx') {
+      exportToXLSX(employeeRecords, filename.replace(/\.csv$/, '.xlsx'), headers, 'Employees');
+      return;
+    }
     exportToCSV(employeeRecords, filename, headers);
   };
 
   const handleDownloadStandardExport = () => {
-    if (!result || result.processedEmployees.length === 0) {
+    if (!result || result.processedEmployees.length + result.contractors.length === 0) {
       alert('No processed data available. Please process the file first.');
       return;
     }
@@ -111,27 +199,47 @@ export function ProcessingDashboard({ employees, warnings, headerFields, onEmplo
     }
 
     // Convert EmployeeRecord to DETRecord (SFTP standard format)
-    const detRecords = result.processedEmployees.map((pe, index) => ({
-      ...pe.employee,
+    const detRecords = [...result.processedEmployees, ...result.contractors].map((pe, index) => ({
       record_type: 'DET' as const,
       record_sequence: String(index + 1),
       company_id: companyId.trim(),
+      ...pe.employee,
     }));
 
-    // Get headers including DET record fields
+    // Get headers including DET record fields (record_type first, so HDR/FTR values line up by position)
     const headers = detRecords.length > 0 ? Object.keys(detRecords[0]) : [];
     
     const hasErrors = result.errors.length > 0;
     const filename = hasErrors 
       ? 'standard_export_file_HAS_ERRORS_fix_these.csv'
       : 'standard_export_file.csv';
+
+    // Frame the DET records with HDR/FTR control records so the file can be uploaded again
+    const control = uploadApi.createControlRows(headers, detRecords.length, result.batch.employerId || companyId.trim(), filename);
+    const rows = [control.header, ...detRecords, control.trailer];
     
-    exportToCSV(detRecords, filename, headers);
+    if (downloadFormat === 'xlsx') {
+      exportToXLSX(rows, filename.replace(/\.csv$/, '.xlsx'), headers, 'Standard Export');
+      return;
+    }
+    exportToCSV(rows, filename, headers, settingsApi.getEmployerSettings().exportDialect);
+  };
+
+  const handleDownloadErrorReport = () => {
+    if (!result) {
+      return;
+    }
+    if (downloadFormat === 'xlsx') {
+      downloadXLSX(processApi.getErrorReportWorkbook(result.errors), 'error_report.xlsx');
+      return;
+    }
+    const report = processApi.getErrorReport(result.errors);
+    downloadCSV(report.content, 'error_report.csv', report.dialect);
   };
 
   // Check if downloads should be enabled (no errors and no warnings)
   const canDownload = result && 
-    result.processedEmployees.length > 0 && 
+    result.processedEmployees.length + result.contractors.length > 0 && 
     result.errors.length === 0 && 
     (result.warnings?.length || 0) === 0 &&
     warnings.length === 0;
@@ -225,6 +333,23 @@ export function ProcessingDashboard({ employees, warnings, headerFields, onEmplo
                 <span className="stat-label">Skipped:</span>
                 <span className="stat-value warning">{result.skippedEmployees.length}</span>
               </div>
+              <div className="stat">
+                <span className="stat-label">Contractors (1099):</span>
+                <span className="stat-value">{result.contractors.length}</span>
+              </div>
+              <div className="stat">
+                <span className="stat-label">Batch:</span>
+                <span className="stat-value">{result.batch.batchId}</span>
+              </div>
+              <div className="stat">
+                <span className="stat-label">Mappings:</span>
+                <span className="stat-value">
+                  {result.providers.map(providerId => {
+                    const version = result.mappingVersions[providerId];
+                    return `${providersApi.getProviderDescriptor(providerId).displayName} ${version === null ? 'default' : `v${version}`}`;
+                  }).join(', ')}
+                </span>
+              </div>
             </>
           )}
         </div>
@@ -243,8 +368,17 @@ export function ProcessingDashboard({ employees, warnings, headerFields, onEmplo
             </>
           )}
         </button>
-        {result && result.processedEmployees.length > 0 && (
+        {result && result.processedEmployees.length + result.contractors.length > 0 && (
           <>
+            <select
+              className="provider-select"
+              value={downloadFormat}
+              onChange={(e) => setDownloadFormat(e.target.value as 'csv' | 'xlsx')}
+              title="File type used by the download buttons"
+            >
+              <option value="csv">CSV files</option>
+              <option value="xlsx">Excel workbooks (.xlsx)</option>
+            </select>
             <button 
               onClick={handleDownloadEmployeeUpload} 
               className={`btn ${hasErrors ? 'btn-warning' : 'btn-success'}`}
@@ -270,23 +404,28 @@ export function ProcessingDashboard({ employees, warnings, headerFields, onEmplo
                 : 'Download standard export file'}
             </button>
             <div className="provider-download-section">
-              <select
-                className="provider-select"
-                value={selectedProvider}
-                onChange={(e) => setSelectedProvider(e.target.value as 'ADP' | 'QuickBooks')}
-                style={{
-                  padding: '0.5rem 1rem',
-                  border: '1px solid var(--border-color)',
-                  borderRadius: '6px',
-                  fontSize: '0.875rem',
-                  fontFamily: 'inherit',
-                  backgroundColor: 'white',
-                  cursor: 'pointer'
-                }}
-              >
-                <option value="ADP">ADP</option>
-                <option value="QuickBooks">QuickBooks</option>
-              </select>
+              {downloadFormat === 'csv' && (
+                <select
+                  className="provider-select"
+                  value={activeProvider}
+                  onChange={(e) => setSelectedProvider(e.target.value)}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    border: '1px solid var(--border-color)',
+                    borderRadius: '6px',
+                    fontSize: '0.875rem',
+                    fontFamily: 'inherit',
+                    backgroundColor: 'white',
+                    cursor: 'pointer'
+                  }}
+                >
+                  {result.providers.map((providerId) => (
+                    <option key={providerId} value={providerId}>
+                      {providersApi.getProviderDescriptor(providerId).displayName} ({processApi.getRecordsForProvider(result, providerId).length} records)
+                    </option>
+                  ))}
+                </select>
+              )}
               <button 
                 onClick={handleDownloadProvider} 
                 className={`btn btn-success ${!canDownload ? 'btn-disabled' : ''}`}
@@ -298,16 +437,51 @@ export function ProcessingDashboard({ employees, warnings, headerFields, onEmplo
                 {!canDownload ? (
                   <>
                     <IoCloseCircle />
-                    Download ({selectedProvider} - fix errors first)
+                    Download ({downloadFormat === 'xlsx' ? 'all providers' : activeProvider} - fix errors first)
                   </>
                 ) : (
                   <>
                     <IoCheckmarkCircle />
-                    Download ({selectedProvider} - ready)
+                    Download ({downloadFormat === 'xlsx' ? 'all providers' : activeProvider} - ready)
                   </>
                 )}
               </button>
+              <button
+                onClick={handleDownloadBundle}
+                className={`btn btn-success ${!canDownload ? 'btn-disabled' : ''}`}
+                disabled={!canDownload}
+                title={!canDownload
+                  ? 'You need to fix all errors before downloading this file'
+                  : 'ZIP archive with every provider file (split per company and named as set in Settings) and a manifest'}
+              >
+                <FaDownload />
+                Download all provider files (.zip)
+              </button>
             </div>
+            {result.contractors.length > 0 && (
+              <button
+                onClick={handleDownloadContractors}
+                className={`btn btn-success ${!canDownload ? 'btn-disabled' : ''}`}
+                disabled={!canDownload}
+                title={!canDownload
+                  ? 'You need to fix all errors before downloading this file'
+                  : 'Vendor setup file for accounts payable (contractors are not included in W-2 provider files)'}
+              >
+                <FaDownload />
+                Download contractor vendor setup file ({result.contractors.length})
+              </button>
+            )}
+            <button
+              onClick={handleDownloadPrenote}
+              className={`btn btn-success ${!canDownload ? 'btn-disabled' : ''}`}
+              disabled={!canDownload}
+              title={!canDownload
+                ? 'You need to fix all errors before downloading this file'
+                : 'Zero-dollar ACH prenote entries to verify direct deposit accounts (company/ODFI details come from Settings)'}
+            >
+              <FaDownload />
+              Download ACH prenote file
+            </button>
           </>
         )}
       </div>
@@ -322,23 +496,27 @@ export function ProcessingDashboard({ employees, warnings, headerFields, onEmplo
           <input
             type="file"
             ref={fileInputRef}
-            accept=".csv"
+            accept=".csv,.xlsx"
             style={{ display: 'none' }}
             onChange={async (e) => {
               const file = e.target.files?.[0];
               if (!file) return;
               
-              if (!file.name.endsWith('.csv')) {
-                alert('Please upload a CSV file');
+              if (!/\.(csv|xlsx)$/i.test(file.name)) {
+                alert('Please upload a CSV file or an Excel workbook (.xlsx)');
                 return;
               }
 
               setIsUploadingCorrected(true);
               try {
                 const uploadResult = await uploadApi.uploadFile(file);
+                if (uploadResult.controlErrors.length > 0) {
+                  alert(`Upload rejected - the file's header/trailer records do not check out:\n${uploadResult.controlErrors.map(e => e.message).join('\n')}`);
+                  return;
+                }
                 reset(); // Reset processing state
                 if (onEmployeesUpdated) {
-                  onEmployeesUpdated(uploadResult.rows, uploadResult.warnings, uploadResult.headerFields);
+                  onEmployeesUpdated(uploadResult.rows, uploadResult.warnings, uploadResult.headerFields, uploadResult.detRecords, uploadResult.hdrRecord, uploadResult.notes);
                 }
                 alert('Corrected file uploaded successfully. Please click "Check Your File for Errors" to process.');
               } catch (error) {
@@ -367,7 +545,34 @@ export function ProcessingDashboard({ employees, warnings, headerFields, onEmplo
             <div className="progress-bar" style={{ width: `${progressPercentage}%` }} />
           </div>
           <div className="progress-text">
-            Processing row {progress.currentRow} of {progress.totalRows} ({progressPercentage}%)
+            {progress.isPaused ? 'Paused at' : 'Processing'} row {progress.currentRow} of {progress.totalRows} ({progressPercentage}%)
+            {progress.rowsPerSecond > 0 && ` - ${Math.round(progress.rowsPerSecond).toLocaleString()} rows/s`}
+            {!progress.isPaused && progress.etaSeconds !== null && `, about ${formatDuration(progress.etaSeconds)} left`}
+          </div>
+          <div className="progress-controls">
+            {progress.isPaused ? (
+              <button onClick={resume} className="btn btn-secondary btn-sm">
+                <IoPlay style={{ marginRight: '4px', verticalAlign: 'middle' }} />
+                Resume
+              </button>
+            ) : (
+              <button onClick={pause} className="btn btn-secondary btn-sm">
+                <IoPause style={{ marginRight: '4px', verticalAlign: 'middle' }} />
+                Pause
+              </button>
+            )}
+            <button onClick={cancel} className="btn btn-warning btn-sm">
+              <IoStop style={{ marginRight: '4px', verticalAlign: 'middle' }} />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!isProcessing && progress.isCancelled && (
+        <div className="progress-section">
+          <div className="progress-text">
+            Processing cancelled at row {progress.currentRow} of {progress.totalRows} - no results were kept.
           </div>
         </div>
       )}
@@ -393,6 +598,20 @@ export function ProcessingDashboard({ employees, warnings, headerFields, onEmplo
         </div>
       )}
 
+      {notes.length > 0 && (
+        <div className="notes-section">
+          <h4><IoInformationCircle style={{ marginRight: '0.5rem', verticalAlign: 'middle' }} />Upload Notes ({notes.length})</h4>
+          <p className="note-message">For your information - these do not hold back downloads.</p>
+          <ul>
+            {notes.map((note) => (
+              <li key={note.id}>
+                Row {note.row}: {note.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {progress.logs.length > 0 && (
         <ProgressLogs logs={progress.logs} />
       )}
@@ -416,13 +635,22 @@ export function ProcessingDashboard({ employees, warnings, headerFields, onEmplo
           <div className="error-preview">
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
               <strong>Quick Preview of Errors:</strong>
-              <button
-                onClick={() => setIsErrorsModalOpen(true)}
-                className="btn btn-secondary btn-sm"
-                style={{ marginLeft: '1rem' }}
-              >
-                View All Errors
-              </button>
+              <div>
+                <button
+                  onClick={() => setIsErrorsModalOpen(true)}
+                  className="btn btn-secondary btn-sm"
+                  style={{ marginLeft: '1rem' }}
+                >
+                  View All Errors
+                </button>
+                <button
+                  onClick={handleDownloadErrorReport}
+                  className="btn btn-secondary btn-sm"
+                  style={{ marginLeft: '0.5rem' }}
+                >
+                  Download Error Report
+                </button>
+              </div>
             </div>
             <ul>
               {result.errors.slice(0, 5).map((error, idx) => (
@@ -0,0 +1,162 @@
+/**
+ * Routing Rules Editor Component
+ * Edits the employer rules that decide which provider(s) each employee is sent to
+ */
+
+import { providers as providersApi, settings as settingsApi } from '../api';
+import type { ProviderId, RoutingConfig, RoutingRule } from '../types';
+
+interface RoutingRulesEditorProps {
+  routing: RoutingConfig;
+  onChange: (routing: RoutingConfig) => void;
+}
+
+export function RoutingRulesEditor({ routing, onChange }: RoutingRulesEditorProps) {
+  const providers = providersApi.listProviders();
+
+  const updateRule = (index: number, changes: Partial<RoutingRule>) => {
+    const rules = [...routing.rules];
+    rules[index] = { ...rules[index], ...changes };
+    onChange({ ...routing, rules });
+  };
+
+  const toggleProvider = (index: number, providerId: ProviderId) => {
+    const selected = routing.rules[index].providers;
+    updateRule(index, {
+      providers: selected.includes(providerId)
+        ? selected.filter(id => id !== providerId)
+        : [...selected, providerId]
+    });
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const rules = [...routing.rules];
+    const target = index + direction;
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    onChange({ ...routing, rules });
+  };
+
+  const addRule = () => {
+    onChange({
+      ...routing,
+      rules: [...routing.rules, { name: `Rule ${routing.rules.length + 1}`, when: 'company_id == ""', providers: [] }]
+    });
+  };
+
+  const removeRule = (index: number) => {
+    onChange({ ...routing, rules: routing.rules.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="routing-rules-editor">
+      <label className="deduction-type-toggle">
+        <input
+          type="checkbox"
+          checked={routing.enabled}
+          onChange={(e) => onChange({ ...routing, enabled: e.target.checked })}
+        />
+        Route employees with rules (otherwise every employee goes to every enabled provider)
+      </label>
+
+      {routing.enabled && (
+        <>
+          <p className="help-text">
+            Conditions are expressions using <code>company_id</code> and any employee field,
+            e.g. <code>company_id == "100" || work_state == "CA"</code>. A blank condition matches every employee.
+          </p>
+          <div className="crosswalk-settings">
+            <label>
+              Matching
+              <select
+                value={routing.mode}
+                onChange={(e) => onChange({ ...routing, mode: e.target.value as RoutingConfig['mode'] })}
+                className="field-input"
+              >
+                <option value="first-match">First matching rule</option>
+                <option value="all-matches">All matching rules</option>
+              </select>
+            </label>
+            <label>
+              Unrouted employees
+              <select
+                value={routing.unrouted}
+                onChange={(e) => onChange({ ...routing, unrouted: e.target.value as RoutingConfig['unrouted'] })}
+                className="field-input"
+              >
+                <option value="warn">Warn</option>
+                <option value="error">Error (block export)</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="crosswalk-table">
+            <table>
+              <thead>
+                <tr>
+                  <th>Rule</th>
+                  <th>When</th>
+                  <th>Send to</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {routing.rules.map((rule, index) => {
+                  const expressionError = settingsApi.checkRoutingCondition(rule.when);
+                  return (
+                    <tr key={index}>
+                      <td>
+                        <input
+                          type="text"
+                          value={rule.name}
+                          onChange={(e) => updateRule(index, { name: e.target.value })}
+                          className="field-input"
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="text"
+                          value={rule.when}
+                          onChange={(e) => updateRule(index, { when: e.target.value })}
+                          className={`field-input ${expressionError ? 'input-error' : ''}`}
+                        />
+                        {expressionError && <div className="expression-error">{expressionError}</div>}
+                      </td>
+                      <td>
+                        {providers.map(descriptor => (
+                          <label key={descriptor.id} className="deduction-type-toggle">
+                            <input
+                              type="checkbox"
+                              checked={rule.providers.includes(descriptor.id)}
+                              onChange={() => toggleProvider(index, descriptor.id)}
+                            />
+                            {descriptor.displayName}
+                          </label>
+                        ))}
+                      </td>
+                      <td>
+                        <div className="deduction-actions">
+                          <button onClick={() => moveRule(index, -1)} disabled={index === 0} className="btn btn-secondary btn-sm">
+                            Up
+                          </button>
+                          <button onClick={() => moveRule(index, 1)} disabled={index === routing.rules.length - 1} className="btn btn-secondary btn-sm">
+                            Down
+                          </button>
+                          <button onClick={() => removeRule(index)} className="btn btn-warning btn-sm">
+                            Remove
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <button onClick={addRule} className="btn btn-secondary btn-sm">
+              Add Rule
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+/**
+ * Settings Panel Component
+ * Edits employer-level settings used when producing provider and ACH files
+ */
+
+import { useState } from 'react';
+import { settings as settingsApi, nacha as nachaApi } from '../api';
+import { CsvDialectEditor } from './CsvDialectEditor';
+import { RoutingRulesEditor } from './RoutingRulesEditor';
+import type { EmployerSettings, NachaSettings } from '../types';
+
+const NACHA_FIELDS: { key: keyof NachaSettings; label: string; maxLength: number; help: string }[] = [
+  { key: 'immediateDestination', label: 'Immediate Destination', maxLength: 9, help: 'Routing number of the bank receiving the file' },
+  { key: 'immediateDestinationName', label: 'Immediate Destination Name', maxLength: 23, help: 'Name of the receiving bank' },
+  { key: 'immediateOrigin', label: 'Immediate Origin', maxLength: 10, help: 'Usually "1" followed by the company EIN' },
+  { key: 'immediateOriginName', label: 'Immediate Origin Name', maxLength: 23, help: 'Company name as known to the bank' },
+  { key: 'companyName', label: 'Company Name', maxLength: 16, help: 'Shown on employees\' bank statements' },
+  { key: 'companyIdentification', label: 'Company Identification', maxLength: 10, help: 'Usually "1" followed by the company EIN' },
+  { key: 'companyEntryDescription', label: 'Entry Description', maxLength: 10, help: 'Batch description (e.g., PRENOTE)' },
+  { key: 'originatingDfiId', label: 'Originating DFI ID', maxLength: 8, help: 'First 8 digits of the ODFI routing number' },
+  { key: 'fileIdModifier', label: 'File ID Modifier', maxLength: 1, help: 'A-Z or 0-9; change it when sending more than one file per day' }
+];
+
+export function SettingsPanel() {
+  const [settings, setSettings] = useState<EmployerSettings>(() => settingsApi.getEmployerSettings());
+  const [exportedCount, setExportedCount] = useState(() => settingsApi.getExportedEmployees().length);
+  const nachaProblems = nachaApi.checkSettings(settings.nacha);
+  const fileNamePreview = settingsApi.previewFileNameTemplate(settings.bundle.fileNameTemplate);
+
+  const updateNacha = (key: keyof NachaSettings, value: string) => {
+    setSettings({ ...settings, nacha: { ...settings.nacha, [key]: value } });
+  };
+
+  const handleClearExportHistory = () => {
+    if (!confirm(`Forget all ${exportedCount} exported employees? They will no longer be reported as duplicates when uploaded again.`)) {
+      return;
+    }
+    settingsApi.clearExportedEmployees();
+    setExportedCount(0);
+  };
+
+  const handleSave = () => {
+    try {
+      settingsApi.saveEmployerSettings(settings);
+      alert('Settings saved successfully');
+    } catch (error) {
+      alert(`Failed to save settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="settings-panel">
+      <h3>Employer Settings</h3>
+      <div className="settings-field">
+        <label htmlFor="employer-id">Employer ID</label>
+        <input
+          id="employer-id"
+          type="text"
+          value={settings.employerId}
+          onChange={(e) => setSettings({ ...settings, employerId: e.target.value })}
+          className="field-input"
+        />
+        <p className="help-text">Written to provider file headers/trailers as <code>employer_id</code>.</p>
+      </div>
+
+      <h3>Upload Checks</h3>
+      <div className="settings-field">
+        <label htmlFor="sequence-checks">Record Sequence Problems</label>
+        <select
+          id="sequence-checks"
+          value={settings.sequenceChecks}
+          onChange={(e) => setSettings({ ...settings, sequenceChecks: e.target.value as EmployerSettings['sequenceChecks'] })}
+          className="field-input"
+        >
+          <option value="block">Reject the upload</option>
+          <option value="warn">Note and continue (downloads allowed)</option>
+        </select>
+        <p className="help-text">
+          Gaps, duplicates, restarts and out-of-order <code>record_sequence</code> numbers across the DET rows, which usually mean a partially transferred or concatenated file.
+        </p>
+      </div>
+
+      <h3>Export History</h3>
+      <p className="help-text">
+        Employees are remembered when their provider files are downloaded. Later uploads that send the same{' '}
+        <code>employee_id</code>, SSN, or last name and date of birth are reported as <code>DUPLICATE_EMPLOYEE</code> errors. Only the
+        employee_id and salted hashes of the SSN, last name and date of birth are kept, for 365 days.
+      </p>
+      <div className="settings-field">
+        <p className="help-text">{exportedCount} employee(s) in the export history.</p>
+        <button onClick={handleClearExportHistory} disabled={exportedCount === 0} className="btn btn-warning btn-sm">
+          Clear Export History
+        </button>
+      </div>
+
+      <h3>Provider Routing</h3>
+      <p className="help-text">Decides which payroll provider(s) each employee is sent to, usually by company.</p>
+      <RoutingRulesEditor
+        routing={settings.routing}
+        onChange={(routing) => setSettings({ ...settings, routing })}
+      />
+
+      <h3>Provider File Bundle</h3>
+      <p className="help-text">Controls how provider files are split and named in the "Download all provider files" archive.</p>
+      <label className="deduction-type-toggle">
+        <input
+          type="checkbox"
+          checked={settings.bundle.splitByCompany}
+          onChange={(e) => setSettings({ ...settings, bundle: { ...settings.bundle, splitByCompany: e.target.checked } })}
+        />
+        One file per company per provider
+      </label>
+      <div className="settings-field">
+        <label htmlFor="bundle-file-name-template">File Name Template</label>
+        <input
+          id="bundle-file-name-template"
+          type="text"
+          value={settings.bundle.fileNameTemplate}
+          onChange={(e) => setSettings({ ...settings, bundle: { ...settings.bundle, fileNameTemplate: e.target.value } })}
+          className={`field-input ${fileNamePreview.error ? 'input-error' : ''}`}
+        />
+        {fileNamePreview.error ? (
+          <div className="expression-error">{fileNamePreview.error}</div>
+        ) : (
+          <p className="help-text">Example: <code>{fileNamePreview.fileName}</code></p>
+        )}
+        <p className="help-text">
+          Tokens: <code>{'{provider}'}</code>, <code>{'{provider_id}'}</code>, <code>{'{employer_id}'}</code>,{' '}
+          <code>{'{upload_id}'}</code>, <code>{'{processing_date}'}</code>, <code>{'{file_name}'}</code> (from the upload's HDR record),{' '}
+          <code>{'{company_id}'}</code>, <code>{'{sequence}'}</code> and <code>{'{batch_id}'}</code>. The extension comes from the provider's output format.
+        </p>
+      </div>
+
+      <h3>Export File Format</h3>
+      <p className="help-text">Dialect of the standard export and error report files. Provider files have their own format in Mapping Configuration.</p>
+      <CsvDialectEditor
+        dialect={settings.exportDialect}
+        isEditing={true}
+        onChange={(exportDialect) => setSettings({ ...settings, exportDialect })}
+      />
+
+      <h3>ACH (NACHA) Settings</h3>
+      <p className="help-text">Company and originating bank details used for ACH prenote files.</p>
+      {NACHA_FIELDS.map((field) => (
+        <div key={field.key} className="settings-field">
+          <label htmlFor={`nacha-${field.key}`}>{field.label}</label>
+          <input
+            id={`nacha-${field.key}`}
+            type="text"
+            maxLength={field.maxLength}
+            value={settings.nacha[field.key]}
+            onChange={(e) => updateNacha(field.key, field.key === 'fileIdModifier' ? e.target.value.toUpperCase() : e.target.value)}
+            className="field-input"
+          />
+          <p className="help-text">{field.help}</p>
+        </div>
+      ))}
+      {nachaProblems.length > 0 && (
+        <ul className="settings-problems">
+          {nachaProblems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+
+      <button onClick={handleSave} className="btn btn-primary">
+        Save Settings
+      </button>
+    </div>
+  );
+}
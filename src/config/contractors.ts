@@ -0,0 +1,70 @@
+/**
+ * Contractor (1099) Vendor Setup Configuration
+ * Contractors are kept out of W-2 provider files and sent to accounts payable as vendors instead
+ */
+
+import type { OutputColumn, ProviderMapping } from '../types';
+import { ACCOUNT, ACCOUNT_TYPE, DATE, ROUTING, STATE, ZIP } from './outputColumnRules';
+
+/**
+ * Download file name of the vendor setup file
+ */
+export const CONTRACTOR_VENDOR_FILE_NAME = 'contractor_vendor_setup.csv';
+
+/**
+ * Vendor setup file columns (in file order)
+ */
+export const CONTRACTOR_VENDOR_COLUMNS: OutputColumn[] = [
+  { name: 'Vendor ID', required: true, maxLength: 20 },
+  { name: 'Vendor Name', required: true, maxLength: 60 },
+  { name: 'Contact Name', maxLength: 60 },
+  { name: 'TIN Type', required: true, allowedValues: ['SSN', 'EIN'] },
+  { name: 'TIN', required: true, pattern: '\\d{3}-\\d{2}-\\d{4}|XXX-XX-\\d{4}|\\d{2}-\\d{7}', patternDescription: 'SSN XXX-XX-XXXX or EIN XX-XXXXXXX' },
+  { name: '1099 Form', required: true, allowedValues: ['1099-NEC'] },
+  { name: 'Address', required: true, maxLength: 60 },
+  { name: 'City', required: true, maxLength: 30 },
+  { name: 'State', required: true, ...STATE },
+  { name: 'ZIP', required: true, ...ZIP },
+  { name: 'Email', maxLength: 80 },
+  { name: 'Phone', maxLength: 20 },
+  { name: 'Payment Method', required: true, allowedValues: ['ACH', 'Check'] },
+  { name: 'Bank Routing', ...ROUTING },
+  { name: 'Bank Account', ...ACCOUNT },
+  { name: 'Bank Account Type', ...ACCOUNT_TYPE },
+  { name: 'Start Date', required: true, ...DATE }
+];
+
+/**
+ * Bank details are only sent for contractors paid by ACH
+ */
+const ACH_ONLY = 'contractor_payment_method == "ACH" ? value : ""';
+
+/**
+ * Employee fields -> vendor setup columns
+ */
+export const contractorVendorMapping: ProviderMapping = {
+  provider: 'Contractor',
+  fieldMappings: [
+    { sourceField: 'employee_id', targetField: 'Vendor ID' },
+    {
+      sourceField: 'contractor_business_name',
+      targetField: 'Vendor Name',
+      transformation: 'value ? value : trim(first_name & " " & last_name)'
+    },
+    { sourceField: '', targetField: 'Contact Name', transformation: 'trim(first_name & " " & last_name)' },
+    { sourceField: 'contractor_tin_type', targetField: 'TIN Type' },
+    { sourceField: 'contractor_tin', targetField: 'TIN' },
+    { sourceField: '', targetField: '1099 Form', defaultValue: '1099-NEC' },
+    { sourceField: 'home_street', targetField: 'Address' },
+    { sourceField: 'home_city', targetField: 'City' },
+    { sourceField: 'home_state', targetField: 'State' },
+    { sourceField: 'home_zip', targetField: 'ZIP' },
+    { sourceField: 'employee_email', targetField: 'Email' },
+    { sourceField: 'employee_phone', targetField: 'Phone' },
+    { sourceField: 'contractor_payment_method', targetField: 'Payment Method' },
+    { sourceField: 'dd1_routing_number', targetField: 'Bank Routing', transformation: ACH_ONLY },
+    { sourceField: 'dd1_account_number', targetField: 'Bank Account', transformation: ACH_ONLY },
+    { sourceField: 'dd1_account_type', targetField: 'Bank Account Type', transformation: ACH_ONLY },
+    { sourceField: 'hire_date', targetField: 'Start Date' }
+  ]
+};
@@ -1,35 +1,66 @@
 /**
  * Default Mapping Configuration
  * Default field mappings and transformations for ADP and QuickBooks
+ * Transformations are expressions (see services/expressionEngine) so mappings stay JSON-serializable
  */
 
-import type { ProviderMapping } from '../types';
+import type { MoneySettings, ProviderMapping } from '../types';
 
 /**
- * Calculates per-paycheck rate from annual salary
+ * Annual pay for salaried and hourly workers (hourly pay is annualized from standard weekly hours)
  */
-function calculatePerPaycheckRate(
-  annualSalary: string,
-  payFrequency: string
-): number {
-  const salary = parseFloat(annualSalary);
-  if (isNaN(salary)) {
-    return 0;
-  }
+const ANNUAL_PAY = 'annualPay(pay_rate_type, annual_salary, hourly_rate, hours_per_week)';
 
-  switch (payFrequency) {
-    case 'Weekly':
-      return salary / 52;
-    case 'Bi-weekly':
-      return salary / 26;
-    case 'Semi-monthly':
-      return salary / 24;
-    case 'Monthly':
-      return salary / 12;
-    default:
-      return salary / 26; // Default to bi-weekly
-  }
-}
+/**
+ * Pay rate sent to providers: the hourly rate for hourly workers, salary per pay period otherwise
+ */
+const PAY_RATE = 'pay_rate_type == "Hourly" ? money(hourly_rate) : money(perPaycheck(annual_salary, pay_frequency))';
+
+/**
+ * Standard hours per pay period (blank when weekly hours are not given)
+ */
+const STANDARD_HOURS = 'hours_per_week ? fixed(standardHours(hours_per_week, pay_frequency), 2) : ""';
+
+/**
+ * Per-paycheck amount of a percentage deduction placed in a deduction slot (shared by both providers)
+ * The annual contribution is computed exactly and rounded once, when it is split into pay periods
+ */
+const PERCENT_AMOUNT = `money(perPaycheck(percentOf(${ANNUAL_PAY}, percent), pay_frequency))`;
+
+/**
+ * ADP deduction code for the deduction placed in a slot
+ */
+const ADP_DEDUCTION_CODE = [
+  'type == "health" ? crosswalk("health_plan_codes", code)',
+  'type == "retirement" ? crosswalk("retirement_plan_codes", code)',
+  'type == "garnishment" ? crosswalk("garnishment_codes", code)',
+  'type == "union_dues" ? "UNION"',
+  'code'
+].join(' : ');
+
+/**
+ * ADP deduction amount (percentage deductions are converted to a per-paycheck amount)
+ */
+const ADP_DEDUCTION_AMOUNT = `percent ? (${ANNUAL_PAY} > 0 ? ${PERCENT_AMOUNT} : money(0)) : money(amount)`;
+
+/**
+ * Money settings shared by both providers: half-up rounding to cents, no symbol or separators
+ */
+const PLAIN_MONEY: MoneySettings = {
+  rounding: 'half-up',
+  trueUpFinalPeriod: false,
+  decimals: 2
+};
+
+/**
+ * Header record identifying the batch (shared by both providers)
+ */
+const BATCH_HEADER = [
+  { name: 'Record_Type', expression: '"HDR"' },
+  { name: 'Batch_ID', expression: 'batch_id' },
+  { name: 'Employer_ID', expression: 'employer_id' },
+  { name: 'Created_At', expression: 'created_at' }
+];
 
 /**
  * ADP Provider Mapping
@@ -55,7 +86,18 @@ export const adpMapping: ProviderMapping = {
     { sourceField: 'department', targetField: 'Dept' },
     { sourceField: 'flsa_status', targetField: 'FLSA_Status' },
     { sourceField: 'pay_frequency', targetField: 'PayFreq' },
-    { sourceField: 'fed_status', targetField: 'Fed_W4_Status' },
+    { sourceField: 'annual_salary', targetField: 'PayRate', transformation: PAY_RATE },
+    {
+      sourceField: 'pay_rate_type',
+      targetField: 'Rate_Type',
+      transformation: 'value == "Hourly" ? "H" : "S"'
+    },
+    { sourceField: 'hours_per_week', targetField: 'Std_Hours', transformation: STANDARD_HOURS },
+    {
+      sourceField: 'fed_status',
+      targetField: 'Fed_W4_Status',
+      transformation: 'crosswalk("fed_w4_status", value)'
+    },
     { sourceField: 'fed_allowances', targetField: 'Fed_W4_Allow' },
     { sourceField: 'fed_extra_wh_per_paycheck', targetField: 'Fed_W4_Extra' },
     { sourceField: 'state_code', targetField: 'State_Tax_Code' },
@@ -70,49 +112,70 @@ export const adpMapping: ProviderMapping = {
     { sourceField: 'dd2_account_number', targetField: 'DD2_Acct' },
     { sourceField: 'dd2_account_type', targetField: 'DD2_Type' }
   ],
-  transformations: {
-    'Fed_W4_Status': (value: string) => {
-      const mapping: Record<string, string> = {
-        'Single': 'S',
-        'Married': 'M',
-        'Married Filing Separately': 'MFS',
-        'Head of Household': 'HOH'
-      };
-      return mapping[value] || value;
-    },
-    'PayRate': (_value: string, record: any) => {
-      return calculatePerPaycheckRate(record.annual_salary, record.pay_frequency).toFixed(2);
-    },
-    'Deduct_Code_1': (_value: string, record: any) => {
-      return record.health_plan_name || '';
-    },
-    'Deduct_Amt_1': (_value: string, record: any) => {
-      return record.health_deduction_per_paycheck || '0.00';
-    },
-    'Deduct_Code_2': (_value: string, record: any) => {
-      return record.retirement_plan_type || '';
-    },
-    'Deduct_Amt_2': (_value: string, record: any) => {
-      if (record.retirement_plan_type && record.annual_salary && record.retirement_contribution_percent) {
-        const perPaycheck = calculatePerPaycheckRate(record.annual_salary, record.pay_frequency);
-        const contributionPercent = parseFloat(record.retirement_contribution_percent) / 100;
-        return (perPaycheck * contributionPercent).toFixed(2);
-      }
-      return '0.00';
-    },
-    'Deduct_Code_3': (_value: string, record: any) => {
-      return record.retirement_loan_repayment && parseFloat(record.retirement_loan_repayment) > 0 ? '401k Loan' : '';
+  crosswalks: [
+    {
+      name: 'fed_w4_status',
+      description: 'Federal W-4 filing status',
+      entries: [
+        { source: 'Single', code: 'S' },
+        { source: 'Married', code: 'M' },
+        { source: 'Married Filing Separately', code: 'MFS' },
+        { source: 'Head of Household', code: 'HOH' }
+      ],
+      unmappedPolicy: 'error'
     },
-    'Deduct_Amt_3': (_value: string, record: any) => {
-      return record.retirement_loan_repayment || '0.00';
+    {
+      name: 'health_plan_codes',
+      description: 'Health plan name to ADP deduction code',
+      entries: [
+        { source: 'PPO Plan', code: 'MED-PPO' },
+        { source: 'HMO Plan', code: 'MED-HMO' },
+        { source: 'HSA Plan', code: 'MED-HSA' }
+      ],
+      unmappedPolicy: 'error'
     },
-    'Deduct_Code_4': (_value: string, record: any) => {
-      return record.garnishment_type || '';
+    {
+      name: 'retirement_plan_codes',
+      description: 'Retirement plan type to ADP deduction code',
+      entries: [
+        { source: '401k', code: '401K' },
+        { source: 'Roth 401k', code: 'R401K' },
+        { source: '403b', code: '403B' }
+      ],
+      unmappedPolicy: 'error'
     },
-    'Deduct_Amt_4': (_value: string, record: any) => {
-      return record.garnishment_amount_per_paycheck || '0.00';
+    {
+      name: 'garnishment_codes',
+      description: 'Garnishment type to ADP deduction code',
+      entries: [
+        { source: 'Child_Support', code: 'CS' },
+        { source: 'Tax_Levy', code: 'TL' },
+        { source: 'Student_Loan', code: 'SL' },
+        { source: 'Creditor', code: 'CG' }
+      ],
+      unmappedPolicy: 'error'
     }
-  }
+  ],
+  envelope: {
+    header: BATCH_HEADER,
+    trailer: [
+      { name: 'Record_Type', expression: '"TRL"' },
+      { name: 'Record_Count', expression: 'record_count' },
+      { name: 'PayRate_Total', expression: 'money(sum("PayRate"))' },
+      { name: 'DD1_Routing_Hash', expression: 'hashTotal("DD1_Routing")' }
+    ]
+  },
+  deductions: {
+    slots: [1, 2, 3, 4, 5, 6].map(slot => ({
+      columns: {
+        [`Deduct_Code_${slot}`]: ADP_DEDUCTION_CODE,
+        [`Deduct_Amt_${slot}`]: ADP_DEDUCTION_AMOUNT
+      }
+    })),
+    priority: ['garnishment', 'health', 'retirement', 'retirement_loan', 'union_dues', 'disability'],
+    overflow: 'warn'
+  },
+  money: PLAIN_MONEY
 };
 
 /**
@@ -122,14 +185,44 @@ export const quickBooksMapping: ProviderMapping = {
   provider: 'QuickBooks',
   fieldMappings: [
     { sourceField: 'employee_id', targetField: 'Employee #' },
+    {
+      sourceField: '',
+      targetField: 'Full Name',
+      transformation: 'trim(first_name & " " & last_name)'
+    },
     { sourceField: 'ssn', targetField: 'SSN' },
     { sourceField: 'dob', targetField: 'Date of Birth' },
+    {
+      sourceField: 'home_street',
+      targetField: 'Home Address',
+      transformation: 'trim(value & ", " & home_city & ", " & home_state & " " & home_zip)'
+    },
+    {
+      sourceField: 'work_street',
+      targetField: 'Work Location',
+      transformation: 'value ? trim(value & ", " & work_city & ", " & work_state & " " & work_zip) : ""'
+    },
     { sourceField: 'hire_date', targetField: 'Hire Date' },
     { sourceField: 'job_title', targetField: 'Job Title' },
     { sourceField: 'department', targetField: 'Department' },
     { sourceField: 'flsa_status', targetField: 'FLSA Status' },
-    { sourceField: 'pay_frequency', targetField: 'Per' },
-    { sourceField: 'fed_status', targetField: 'Federal Filing Status' },
+    {
+      sourceField: 'pay_rate_type',
+      targetField: 'Pay Type',
+      transformation: 'value == "Hourly" ? "Hourly" : "Salary"'
+    },
+    { sourceField: 'annual_salary', targetField: 'Pay Rate ($)', transformation: PAY_RATE },
+    {
+      sourceField: 'pay_frequency',
+      targetField: 'Per',
+      transformation: 'pay_rate_type == "Hourly" ? "Hour" : value'
+    },
+    { sourceField: 'hours_per_week', targetField: 'Standard Hours', transformation: STANDARD_HOURS },
+    {
+      sourceField: 'fed_status',
+      targetField: 'Federal Filing Status',
+      transformation: 'crosswalk("federal_filing_status", value)'
+    },
     { sourceField: 'fed_allowances', targetField: 'Federal Allowances' },
     { sourceField: 'fed_extra_wh_per_paycheck', targetField: 'Federal Extra Withholding' },
     { sourceField: 'state_code', targetField: 'State Tax (Work)' },
@@ -137,70 +230,71 @@ export const quickBooksMapping: ProviderMapping = {
     { sourceField: 'local_tax_code_1', targetField: 'Local Tax' },
     { sourceField: 'i9_status', targetField: 'I-9 Status' },
     { sourceField: 'e_verify_status', targetField: 'E-Verify Status' },
+    {
+      sourceField: 'dd1_routing_number',
+      targetField: 'Direct Deposit 1',
+      transformation: 'value && dd1_account_number && dd1_account_type ? join("-", value, dd1_account_number, dd1_account_type, dd1_split_type == "Percent" ? dd1_split_value & "%" : "$" & money(dd1_split_value)) : ""'
+    },
+    {
+      sourceField: 'dd2_routing_number',
+      targetField: 'Direct Deposit 2',
+      transformation: 'value && dd2_account_number && dd2_account_type ? join("-", value, dd2_account_number, dd2_account_type) : ""'
+    },
     { sourceField: 'gender', targetField: 'EEO Gender' },
     { sourceField: 'ethnicity', targetField: 'EEO Ethnicity' }
   ],
-  transformations: {
-    'Full Name': (_value: string, record: any) => {
-      return `${record.first_name} ${record.last_name}`.trim();
-    },
-    'Home Address': (_value: string, record: any) => {
-      return `${record.home_street}, ${record.home_city}, ${record.home_state} ${record.home_zip}`.trim();
-    },
-    'Work Location': (_value: string, record: any) => {
-      return `${record.work_street}, ${record.work_city}, ${record.work_state} ${record.work_zip}`.trim();
-    },
-    'Pay Rate ($)': (_value: string, record: any) => {
-      return calculatePerPaycheckRate(record.annual_salary, record.pay_frequency).toFixed(2);
-    },
-    'Federal Filing Status': (value: string) => {
-      const mapping: Record<string, string> = {
-        'Single': 'single',
-        'Married': 'married_filing_jointly',
-        'Married Filing Separately': 'married_filing_separately',
-        'Head of Household': 'head_of_household'
-      };
-      return mapping[value] || value.toLowerCase().replace(/\s+/g, '_');
-    },
-    'Direct Deposit 1': (_value: string, record: any) => {
-      if (record.dd1_routing_number && record.dd1_account_number && record.dd1_account_type) {
-        const splitInfo = record.dd1_split_type === 'Percent' 
-          ? `${record.dd1_split_value}%`
-          : `$${record.dd1_split_value}`;
-        return `${record.dd1_routing_number}-${record.dd1_account_number}-${record.dd1_account_type}-${splitInfo}`;
-      }
-      return '';
-    },
-    'Direct Deposit 2': (_value: string, record: any) => {
-      if (record.dd2_routing_number && record.dd2_account_number && record.dd2_account_type) {
-        return `${record.dd2_routing_number}-${record.dd2_account_number}-${record.dd2_account_type}`;
-      }
-      return '';
-    },
-    'Health Deduction': (_value: string, record: any) => {
-      return record.health_plan_name && record.health_deduction_per_paycheck
-        ? `${record.health_plan_name} - ${record.health_deduction_per_paycheck}`
-        : '';
-    },
-    'Retirement Deduction': (_value: string, record: any) => {
-      if (record.retirement_plan_type && record.annual_salary && record.retirement_contribution_percent) {
-        const perPaycheck = calculatePerPaycheckRate(record.annual_salary, record.pay_frequency);
-        const contributionPercent = parseFloat(record.retirement_contribution_percent) / 100;
-        const amount = (perPaycheck * contributionPercent).toFixed(2);
-        return `${record.retirement_plan_type} - ${record.retirement_contribution_percent}% ($${amount})`;
-      }
-      return '';
-    },
-    'Retirement Loan': (_value: string, record: any) => {
-      return record.retirement_loan_repayment && parseFloat(record.retirement_loan_repayment) > 0
-        ? `$${record.retirement_loan_repayment}`
-        : '';
-    },
-    'Garnishment': (_value: string, record: any) => {
-      return record.garnishment_type && record.garnishment_amount_per_paycheck
-        ? `${record.garnishment_type} - $${record.garnishment_amount_per_paycheck}`
-        : '';
+  crosswalks: [
+    {
+      name: 'federal_filing_status',
+      description: 'Federal filing status',
+      entries: [
+        { source: 'Single', code: 'single' },
+        { source: 'Married', code: 'married_filing_jointly' },
+        { source: 'Married Filing Separately', code: 'married_filing_separately' },
+        { source: 'Head of Household', code: 'head_of_household' }
+      ],
+      unmappedPolicy: 'error'
     }
-  }
+  ],
+  envelope: {
+    header: BATCH_HEADER,
+    trailer: [
+      { name: 'Record_Type', expression: '"TRL"' },
+      { name: 'Record_Count', expression: 'record_count' },
+      { name: 'Pay_Rate_Total', expression: 'money(sum("Pay Rate ($)"))' }
+    ]
+  },
+  deductions: {
+    slots: [
+      {
+        types: ['health'],
+        columns: { 'Health Deduction': 'code && amount ? code & " - " & money(amount) : ""' }
+      },
+      {
+        types: ['retirement'],
+        columns: {
+          'Retirement Deduction': `code && percent && ${ANNUAL_PAY} > 0 ? code & " - " & percent & "% ($" & ${PERCENT_AMOUNT} & ")" : ""`
+        }
+      },
+      {
+        types: ['retirement_loan'],
+        columns: { 'Retirement Loan': 'amount ? "$" & money(amount) : ""' }
+      },
+      {
+        types: ['garnishment'],
+        columns: { 'Garnishment': 'code && amount ? code & " - $" & money(amount) : ""' }
+      },
+      {
+        types: ['union_dues'],
+        columns: { 'Union Dues': 'amount ? "$" & money(amount) : ""' }
+      },
+      {
+        types: ['disability'],
+        columns: { 'Disability Plan': 'code' }
+      }
+    ],
+    priority: ['garnishment', 'health', 'retirement', 'retirement_loan', 'union_dues', 'disability'],
+    overflow: 'warn'
+  },
+  money: PLAIN_MONEY
 };
-
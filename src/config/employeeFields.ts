@@ -0,0 +1,93 @@
+/**
+ * Standard Employee Fields
+ * Runtime list of the EmployeeRecord schema (source fields available to provider mappings)
+ */
+
+import type { EmployeeRecord } from '../types';
+
+/**
+ * Every EmployeeRecord field - typed as a record so adding a field to the type without listing it here fails to compile
+ */
+const EMPLOYEE_FIELD_FLAGS: Record<keyof EmployeeRecord, true> = {
+  employee_id: true,
+  first_name: true,
+  last_name: true,
+  dob: true,
+  ssn: true,
+  home_street: true,
+  home_city: true,
+  home_state: true,
+  home_zip: true,
+  work_street: true,
+  work_city: true,
+  work_state: true,
+  work_zip: true,
+  hire_date: true,
+  original_hire_date: true,
+  rehire_date: true,
+  termination_date: true,
+  job_title: true,
+  department: true,
+  manager_email: true,
+  employee_email: true,
+  employee_phone: true,
+  flsa_status: true,
+  annual_salary: true,
+  pay_frequency: true,
+  employment_type: true,
+  employee_status: true,
+  pay_rate_type: true,
+  hourly_rate: true,
+  hours_per_week: true,
+  contractor_tin: true,
+  contractor_tin_type: true,
+  contractor_business_name: true,
+  contractor_payment_method: true,
+  fed_status: true,
+  fed_allowances: true,
+  fed_extra_wh_per_paycheck: true,
+  state_code: true,
+  state_extra_wh_per_paycheck: true,
+  local_tax_code_1: true,
+  i9_status: true,
+  e_verify_status: true,
+  dd1_routing_number: true,
+  dd1_account_number: true,
+  dd1_account_type: true,
+  dd1_split_type: true,
+  dd1_split_value: true,
+  dd2_routing_number: true,
+  dd2_account_number: true,
+  dd2_account_type: true,
+  dd2_split_type: true,
+  dd2_split_value: true,
+  union_employee: true,
+  union_start_date: true,
+  union_dues_amount_per_paycheck: true,
+  health_plan_name: true,
+  health_deduction_per_paycheck: true,
+  disability_plan_code: true,
+  retirement_plan_type: true,
+  retirement_contribution_percent: true,
+  retirement_loan_repayment: true,
+  garnishment_type: true,
+  garnishment_amount_per_paycheck: true,
+  emergency_contact_name: true,
+  emergency_contact_phone: true,
+  gender: true,
+  ethnicity: true,
+  disability_status: true,
+  veteran_status: true
+};
+
+/**
+ * EmployeeRecord field names in schema order
+ */
+export const EMPLOYEE_RECORD_FIELDS = Object.keys(EMPLOYEE_FIELD_FLAGS) as (keyof EmployeeRecord)[];
+
+/**
+ * Checks whether a name is a standard EmployeeRecord field
+ */
+export function isEmployeeField(name: string): name is keyof EmployeeRecord {
+  return Object.prototype.hasOwnProperty.call(EMPLOYEE_FIELD_FLAGS, name);
+}
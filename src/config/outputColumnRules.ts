@@ -0,0 +1,27 @@
+/**
+ * Output Column Rules
+ * Constraints shared by the output schemas of provider and vendor files
+ */
+
+import type { OutputColumn } from '../types';
+
+/**
+ * Output column constraints without the column name
+ */
+export type ColumnRules = Omit<OutputColumn, 'name'>;
+
+/**
+ * Value formats and codes shared by provider and vendor files
+ */
+export const DATE: ColumnRules = { pattern: '\\d{4}-\\d{2}-\\d{2}', patternDescription: 'YYYY-MM-DD' };
+export const SSN: ColumnRules = { pattern: '\\d{3}-\\d{2}-\\d{4}|XXX-XX-\\d{4}', patternDescription: '###-##-#### or masked XXX-XX-####' };
+export const STATE: ColumnRules = { pattern: '[A-Z]{2}', patternDescription: '2-letter uppercase state code' };
+export const ZIP: ColumnRules = { pattern: '\\d{5}(-\\d{4})?', patternDescription: '12345 or 12345-6789' };
+export const ROUTING: ColumnRules = { pattern: '\\d{9}', patternDescription: '9-digit routing number' };
+export const ACCOUNT: ColumnRules = { pattern: '\\d{4,17}', patternDescription: '4 to 17 digits' };
+export const ALLOWANCES: ColumnRules = { pattern: '\\d{1,2}', patternDescription: 'whole number from 0 to 99' };
+export const AMOUNT: ColumnRules = { numeric: true, min: 0 };
+export const HOURS: ColumnRules = { numeric: true, min: 0, max: 400 };
+export const FLSA: ColumnRules = { allowedValues: ['Exempt', 'Non-Exempt'] };
+export const PAY_FREQUENCIES = ['Weekly', 'Bi-weekly', 'Semi-monthly', 'Monthly'];
+export const ACCOUNT_TYPE: ColumnRules = { allowedValues: ['Checking', 'Savings'] };
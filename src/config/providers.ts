@@ -0,0 +1,141 @@
+/**
+ * Built-in Provider Configuration
+ * Descriptors for the payroll providers that ship with the engine (ADP, QuickBooks)
+ * New vendors are added by registering another descriptor - no core type changes needed
+ */
+
+import type { OutputColumn, ProviderDescriptor } from '../types';
+import { adpMapping, quickBooksMapping } from './defaultMappings';
+import { arrayToCSV } from '../utils/csvWriter';
+import {
+  ACCOUNT,
+  ACCOUNT_TYPE,
+  ALLOWANCES,
+  AMOUNT,
+  DATE,
+  FLSA,
+  HOURS,
+  PAY_FREQUENCIES,
+  ROUTING,
+  SSN,
+  STATE,
+  ZIP
+} from './outputColumnRules';
+
+/**
+ * ADP output columns (in file order)
+ */
+const ADP_COLUMNS: OutputColumn[] = [
+  { name: 'Employee No', required: true, maxLength: 20 },
+  { name: 'SSN', required: true, ...SSN },
+  { name: 'FName', required: true, maxLength: 30 },
+  { name: 'LName', required: true, maxLength: 30 },
+  { name: 'DOB', required: true, ...DATE },
+  { name: 'Home_Addr1', required: true, maxLength: 60 },
+  { name: 'Home_City', required: true, maxLength: 30 },
+  { name: 'Home_State', required: true, ...STATE },
+  { name: 'Home_Zip', required: true, ...ZIP },
+  { name: 'Work_Addr1', maxLength: 60 },
+  { name: 'Work_City', maxLength: 30 },
+  { name: 'Work_State', ...STATE },
+  { name: 'Work_Zip', ...ZIP },
+  { name: 'HiredDate', required: true, ...DATE },
+  { name: 'JobTitle', required: true, maxLength: 40 },
+  { name: 'Dept', maxLength: 30 },
+  { name: 'FLSA_Status', required: true, ...FLSA },
+  { name: 'PayFreq', required: true, allowedValues: PAY_FREQUENCIES },
+  { name: 'PayRate', required: true, ...AMOUNT },
+  { name: 'Rate_Type', required: true, allowedValues: ['H', 'S'] },
+  { name: 'Std_Hours', ...HOURS },
+  { name: 'Fed_W4_Status', required: true, allowedValues: ['S', 'M', 'MFS', 'HOH'] },
+  { name: 'Fed_W4_Allow', required: true, ...ALLOWANCES },
+  { name: 'Fed_W4_Extra', ...AMOUNT },
+  { name: 'State_Tax_Code', required: true, ...STATE },
+  { name: 'State_Extra_WH', ...AMOUNT },
+  { name: 'Local_Tax_Code_1', maxLength: 20 },
+  { name: 'DD1_Routing', required: true, ...ROUTING },
+  { name: 'DD1_Acct', required: true, ...ACCOUNT },
+  { name: 'DD1_Type', required: true, ...ACCOUNT_TYPE },
+  { name: 'DD1_SplitType', required: true, allowedValues: ['Percent', 'Flat_Amount'] },
+  { name: 'DD1_SplitValue', required: true, ...AMOUNT },
+  { name: 'DD2_Routing', ...ROUTING },
+  { name: 'DD2_Acct', ...ACCOUNT },
+  { name: 'DD2_Type', ...ACCOUNT_TYPE },
+  ...[1, 2, 3, 4, 5, 6].flatMap(slot => [
+    { name: `Deduct_Code_${slot}`, maxLength: 10 },
+    { name: `Deduct_Amt_${slot}`, ...AMOUNT }
+  ])
+];
+
+/**
+ * QuickBooks output columns (in file order)
+ */
+const QUICKBOOKS_COLUMNS: OutputColumn[] = [
+  { name: 'Employee #', required: true, maxLength: 20 },
+  { name: 'Full Name', required: true, maxLength: 60 },
+  { name: 'SSN', required: true, ...SSN },
+  { name: 'Date of Birth', required: true, ...DATE },
+  { name: 'Home Address', required: true, maxLength: 120 },
+  { name: 'Work Location', maxLength: 120 },
+  { name: 'Hire Date', required: true, ...DATE },
+  { name: 'Job Title', required: true, maxLength: 50 },
+  { name: 'Department', maxLength: 50 },
+  { name: 'FLSA Status', required: true, ...FLSA },
+  { name: 'Pay Type', required: true, allowedValues: ['Hourly', 'Salary'] },
+  { name: 'Pay Rate ($)', required: true, ...AMOUNT },
+  { name: 'Per', required: true, allowedValues: ['Hour', ...PAY_FREQUENCIES] },
+  { name: 'Standard Hours', ...HOURS },
+  {
+    name: 'Federal Filing Status',
+    required: true,
+    allowedValues: ['single', 'married_filing_jointly', 'married_filing_separately', 'head_of_household']
+  },
+  { name: 'Federal Allowances', required: true, ...ALLOWANCES },
+  { name: 'Federal Extra Withholding', ...AMOUNT },
+  { name: 'State Tax (Work)', required: true, ...STATE },
+  { name: 'State Extra Withholding', ...AMOUNT },
+  { name: 'Local Tax', maxLength: 20 },
+  { name: 'I-9 Status', required: true },
+  { name: 'E-Verify Status', required: true },
+  { name: 'Direct Deposit 1', required: true, maxLength: 80 },
+  { name: 'Direct Deposit 2', maxLength: 80 },
+  { name: 'Health Deduction', maxLength: 60 },
+  { name: 'Retirement Deduction', maxLength: 60 },
+  { name: 'Retirement Loan', maxLength: 60 },
+  { name: 'Garnishment', maxLength: 60 },
+  { name: 'Union Dues', maxLength: 60 },
+  { name: 'Disability Plan', maxLength: 60 },
+  { name: 'EEO Gender', maxLength: 30 },
+  { name: 'EEO Ethnicity', maxLength: 60 }
+];
+
+/**
+ * ADP Provider Descriptor
+ */
+export const adpProvider: ProviderDescriptor = {
+  id: 'ADP',
+  displayName: 'ADP',
+  outputSchema: ADP_COLUMNS,
+  defaultMapping: adpMapping,
+  fileName: 'adp_hires.csv',
+  writeFile: (records, columns, dialect) => arrayToCSV(records, columns, dialect),
+  enabledByDefault: true
+};
+
+/**
+ * QuickBooks Provider Descriptor
+ */
+export const quickBooksProvider: ProviderDescriptor = {
+  id: 'QuickBooks',
+  displayName: 'QuickBooks',
+  outputSchema: QUICKBOOKS_COLUMNS,
+  defaultMapping: quickBooksMapping,
+  fileName: 'quickbooks_hires.csv',
+  writeFile: (records, columns, dialect) => arrayToCSV(records, columns, dialect),
+  enabledByDefault: true
+};
+
+/**
+ * Providers registered when the engine starts
+ */
+export const builtInProviders: ProviderDescriptor[] = [adpProvider, quickBooksProvider];
@@ -0,0 +1,142 @@
+/**
+ * Export History Controller
+ * Remembers which employees were sent to payroll providers, for duplicate detection in later uploads
+ * SSNs, names and dates of birth are stored only as salted hashes, and entries expire after a year
+ */
+
+import type { EmployeeRecord, ExportedEmployee, ExportHistory } from '../types';
+import { hashIdentity } from '../services/duplicateDetection';
+
+const EXPORT_HISTORY_STORAGE_KEY = 'payroll_export_history';
+const EXPORT_HISTORY_SALT_STORAGE_KEY = 'payroll_export_history_salt';
+
+/**
+ * Days an exported employee is remembered
+ */
+export const EXPORT_HISTORY_RETENTION_DAYS = 365;
+
+/**
+ * Employee of a run being recorded as exported
+ */
+export interface ExportedEmployeeInput {
+  employee: EmployeeRecord;
+  companyId: string;
+  batchId: string;
+  exportedAt: string;
+  providers: ExportedEmployee['providers'];
+}
+
+/**
+ * Entry written before identities were hashed
+ */
+interface LegacyExportedEmployee extends Omit<ExportedEmployee, 'ssnHash' | 'nameDobHash'> {
+  ssn: string;
+  firstName: string;
+  lastName: string;
+  dob: string;
+}
+
+/**
+ * Gets the salt of the export history, creating one on first use
+ */
+function getSalt(): string {
+  const stored = localStorage.getItem(EXPORT_HISTORY_SALT_STORAGE_KEY);
+  if (stored) {
+    return stored;
+  }
+  const salt = Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+  localStorage.setItem(EXPORT_HISTORY_SALT_STORAGE_KEY, salt);
+  return salt;
+}
+
+/**
+ * Whether an entry is still within the retention period
+ */
+function isRetained(entry: ExportedEmployee, now: Date): boolean {
+  const exportedAt = Date.parse(entry.exportedAt);
+  return !Number.isNaN(exportedAt) && now.getTime() - exportedAt <= EXPORT_HISTORY_RETENTION_DAYS * 86400000;
+}
+
+function saveEntries(entries: ExportedEmployee[]): void {
+  try {
+    localStorage.setItem(EXPORT_HISTORY_STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    throw new Error(`Failed to save export history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Gets the employees exported in earlier runs (latest export per employee) and the salt their identities were hashed with
+ * Expired entries are dropped, and entries stored in plain text by earlier versions are hashed and rewritten
+ */
+export function getExportHistory(): ExportHistory {
+  try {
+    const salt = getSalt();
+    const stored = localStorage.getItem(EXPORT_HISTORY_STORAGE_KEY);
+    const entries: (ExportedEmployee | LegacyExportedEmployee)[] = stored ? JSON.parse(stored) : [];
+    const now = new Date();
+    const employees = entries
+      .map((entry): ExportedEmployee => {
+        if (!('ssn' in entry)) {
+          return entry;
+        }
+        return {
+          employeeId: entry.employeeId,
+          ...hashIdentity(entry.ssn, entry.lastName, entry.dob, salt),
+          companyId: entry.companyId,
+          batchId: entry.batchId,
+          exportedAt: entry.exportedAt,
+          providers: entry.providers
+        };
+      })
+      .filter(entry => isRetained(entry, now));
+    if (employees.length !== entries.length || entries.some(entry => 'ssn' in entry)) {
+      try {
+        saveEntries(employees);
+      } catch (error) {
+        console.warn(error instanceof Error ? error.message : 'Failed to save export history');
+      }
+    }
+    return { salt, employees };
+  } catch (error) {
+    console.warn('Failed to load export history, starting empty');
+    return { salt: '', employees: [] };
+  }
+}
+
+/**
+ * Records employees as exported
+ * Downloading another provider's file for the same batch adds the provider to the existing entry
+ * @param employees Exported employees
+ */
+export function recordExport(employees: ExportedEmployeeInput[]): void {
+  const { salt, employees: entries } = getExportHistory();
+  if (!salt) {
+    throw new Error('Failed to save export history: its salt could not be read');
+  }
+  const history = new Map(entries.map(entry => [entry.employeeId, entry]));
+  for (const { employee, ...exported } of employees) {
+    const existing = history.get(employee.employee_id);
+    history.set(employee.employee_id, {
+      employeeId: employee.employee_id,
+      ...hashIdentity(employee.ssn, employee.last_name, employee.dob, salt),
+      ...exported,
+      providers: existing && existing.batchId === exported.batchId
+        ? Array.from(new Set([...existing.providers, ...exported.providers]))
+        : exported.providers
+    });
+  }
+  saveEntries(Array.from(history.values()));
+}
+
+/**
+ * Forgets every exported employee (a new salt is made for the next export)
+ */
+export function clearExportHistory(): void {
+  try {
+    localStorage.removeItem(EXPORT_HISTORY_STORAGE_KEY);
+    localStorage.removeItem(EXPORT_HISTORY_SALT_STORAGE_KEY);
+  } catch (error) {
+    console.error('Failed to clear export history:', error);
+  }
+}
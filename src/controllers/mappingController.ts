@@ -3,78 +3,250 @@
  * Handles mapping configuration management
  */
 
-import type { ProviderMapping } from '../types';
-import { adpMapping, quickBooksMapping } from '../config/defaultMappings';
+import type { MappingChangeInfo, MappingChangeSource, MappingVersion, ProviderId, ProviderMapping } from '../types';
+import { getProvider } from '../services/providerRegistry';
+import { formatMappingErrors, MAPPING_SCHEMA_VERSION, validateMapping, validateMappingFile } from '../services/mappingValidator';
 
 const MAPPING_STORAGE_PREFIX = 'payroll_mapping_';
+const MAPPING_HISTORY_PREFIX = 'payroll_mapping_history_';
+const MAPPING_AUTHOR_KEY = 'payroll_mapping_author';
+
+const NO_CHANGE_INFO: MappingChangeInfo = { author: '', comment: '' };
+
+/**
+ * Upgrades mappings saved before transformations became expressions
+ * Those were stored with an empty `transformations` object (functions don't survive JSON),
+ * so computed columns are restored from the provider's default mapping
+ */
+function upgradeLegacyMapping(provider: ProviderId, stored: ProviderMapping & { transformations?: unknown }): ProviderMapping {
+  if (!('transformations' in stored)) {
+    return stored;
+  }
+
+  const mapping = { ...stored };
+  delete mapping.transformations;
+  const mappedTargets = new Set(mapping.fieldMappings.map(fm => fm.targetField));
+  const restored = getProvider(provider).defaultMapping.fieldMappings.filter(
+    fm => !mappedTargets.has(fm.targetField)
+  );
+  return { ...mapping, fieldMappings: [...mapping.fieldMappings, ...restored] };
+}
 
 /**
  * Gets mapping configuration for a provider
- * @param provider Provider name (ADP or QuickBooks)
+ * @param provider Provider id (e.g., ADP or QuickBooks)
  * @returns Provider mapping configuration
  */
-export function getMapping(provider: 'ADP' | 'QuickBooks'): ProviderMapping {
+export function getMapping(provider: ProviderId): ProviderMapping {
   const storageKey = `${MAPPING_STORAGE_PREFIX}${provider}`;
   
   try {
     const stored = localStorage.getItem(storageKey);
     if (stored) {
-      return JSON.parse(stored) as ProviderMapping;
+      return upgradeLegacyMapping(provider, JSON.parse(stored));
     }
   } catch (error) {
     console.warn(`Failed to load mapping for ${provider}, using default`);
   }
 
   // Return default mapping
-  return provider === 'ADP' ? adpMapping : quickBooksMapping;
+  return getProvider(provider).defaultMapping;
 }
 
 /**
- * Saves mapping configuration for a provider
- * @param provider Provider name
- * @param mapping Mapping configuration to save
+ * Gets the saved versions of a provider's mapping, oldest first
+ * A mapping stored before history was kept (or a legacy custom mapping) is recorded as version 1 on first read
+ * @param provider Provider id
+ * @returns Mapping versions (empty when no mapping has been stored)
+ */
+export function getMappingHistory(provider: ProviderId): MappingVersion[] {
+  const historyKey = `${MAPPING_HISTORY_PREFIX}${provider}`;
+  try {
+    const stored = localStorage.getItem(historyKey);
+    if (stored) {
+      return JSON.parse(stored) as MappingVersion[];
+    }
+
+    const storedMapping = localStorage.getItem(`${MAPPING_STORAGE_PREFIX}${provider}`);
+    if (!storedMapping) {
+      return [];
+    }
+    const history: MappingVersion[] = [{
+      version: 1,
+      provider,
+      mapping: upgradeLegacyMapping(provider, JSON.parse(storedMapping)),
+      author: '',
+      comment: 'Mapping saved before version history was kept',
+      savedAt: new Date().toISOString(),
+      source: 'save'
+    }];
+    try {
+      localStorage.setItem(historyKey, JSON.stringify(history));
+    } catch (error) {
+      console.warn(`Failed to record the stored ${provider} mapping as version 1`);
+    }
+    return history;
+  } catch (error) {
+    console.warn(`Failed to load mapping history for ${provider}`);
+  }
+  return [];
+}
+
+/**
+ * Gets one saved version of a provider's mapping
+ * @param provider Provider id
+ * @param version Version number
+ */
+export function getMappingVersion(provider: ProviderId, version: number): MappingVersion {
+  const found = getMappingHistory(provider).find(entry => entry.version === version);
+  if (!found) {
+    throw new Error(`${provider} mapping has no version ${version}`);
+  }
+  return found;
+}
+
+/**
+ * Gets the version number of a provider's active mapping
+ * @param provider Provider id
+ * @returns Latest version (1 for a mapping stored before history was kept), or null when no mapping is stored
  */
-export function saveMapping(provider: 'ADP' | 'QuickBooks', mapping: ProviderMapping): void {
+export function getActiveMappingVersion(provider: ProviderId): number | null {
+  const history = getMappingHistory(provider);
+  return history.length > 0 ? history[history.length - 1].version : null;
+}
+
+/**
+ * Gets the author name used for the last mapping change
+ */
+export function getLastMappingAuthor(): string {
+  return localStorage.getItem(MAPPING_AUTHOR_KEY) || '';
+}
+
+/**
+ * Stores a mapping as the active mapping and appends it to the history as a new version
+ * A mapping saved before history existed is kept as version 1 (see getMappingHistory) so it is never lost
+ */
+function recordMappingVersion(
+  provider: ProviderId,
+  mapping: ProviderMapping,
+  change: MappingChangeInfo,
+  source: MappingChangeSource,
+  rolledBackFrom?: number
+): MappingVersion {
   const storageKey = `${MAPPING_STORAGE_PREFIX}${provider}`;
-  
+
   try {
+    const history = getMappingHistory(provider);
+
+    const version: MappingVersion = {
+      version: history.length > 0 ? history[history.length - 1].version + 1 : 1,
+      provider,
+      mapping,
+      author: change.author.trim(),
+      comment: change.comment.trim(),
+      savedAt: new Date().toISOString(),
+      source,
+      rolledBackFrom
+    };
+    history.push(version);
+
+    localStorage.setItem(`${MAPPING_HISTORY_PREFIX}${provider}`, JSON.stringify(history));
     localStorage.setItem(storageKey, JSON.stringify(mapping));
+    if (version.author) {
+      localStorage.setItem(MAPPING_AUTHOR_KEY, version.author);
+    }
+    return version;
   } catch (error) {
     throw new Error(`Failed to save mapping for ${provider}: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+/**
+ * Saves mapping configuration for a provider as a new version
+ * The mapping is validated first; nothing is saved when it has errors
+ * @param provider Provider name
+ * @param mapping Mapping configuration to save
+ * @param change Author and comment recorded with the version
+ * @returns Saved version
+ */
+export function saveMapping(
+  provider: ProviderId,
+  mapping: ProviderMapping,
+  change: MappingChangeInfo = NO_CHANGE_INFO
+): MappingVersion {
+  const issues = validateMapping(mapping, getProvider(provider));
+  if (issues.some(issue => issue.severity === 'error')) {
+    throw new Error(formatMappingErrors(provider, issues));
+  }
+  return recordMappingVersion(provider, mapping, change, 'save');
+}
+
 /**
  * Resets mapping to default for a provider
+ * The replaced mapping stays in the version history
  * @param provider Provider name
+ * @param change Author and comment recorded with the version
  */
-export function resetMapping(provider: 'ADP' | 'QuickBooks'): ProviderMapping {
-  const defaultMapping = provider === 'ADP' ? adpMapping : quickBooksMapping;
-  saveMapping(provider, defaultMapping);
+export function resetMapping(provider: ProviderId, change: MappingChangeInfo = NO_CHANGE_INFO): ProviderMapping {
+  const defaultMapping = getProvider(provider).defaultMapping;
+  recordMappingVersion(provider, defaultMapping, change, 'reset');
   return defaultMapping;
 }
 
+/**
+ * Makes an earlier version the active mapping again
+ * The rollback is recorded as a new version; no version is ever removed
+ * @param provider Provider id
+ * @param version Version to restore
+ * @param change Author and comment recorded with the version
+ * @returns Restored mapping
+ */
+export function rollbackMapping(
+  provider: ProviderId,
+  version: number,
+  change: MappingChangeInfo = NO_CHANGE_INFO
+): ProviderMapping {
+  const target = getMappingVersion(provider, version);
+  recordMappingVersion(
+    provider,
+    target.mapping,
+    { ...change, comment: change.comment.trim() || `Rolled back to version ${version}` },
+    'rollback',
+    version
+  );
+  return target.mapping;
+}
+
 /**
  * Exports mapping configuration as JSON string
  * @param provider Provider name
  * @returns JSON string of mapping configuration
  */
-export function exportMapping(provider: 'ADP' | 'QuickBooks'): string {
+export function exportMapping(provider: ProviderId): string {
   const mapping = getMapping(provider);
-  return JSON.stringify(mapping, null, 2);
+  return JSON.stringify({ ...mapping, schemaVersion: MAPPING_SCHEMA_VERSION }, null, 2);
 }
 
 /**
  * Imports mapping configuration from JSON string
+ * The file's structure, schema version and contents are validated first; nothing is saved when it has errors
  * @param provider Provider name
  * @param jsonString JSON string of mapping configuration
+ * @param change Author and comment recorded with the version
  */
-export function importMapping(provider: 'ADP' | 'QuickBooks', jsonString: string): void {
+export function importMapping(provider: ProviderId, jsonString: string, change: MappingChangeInfo = NO_CHANGE_INFO): void {
+  const { mapping, issues } = validateMappingFile(jsonString, getProvider(provider));
+  if (!mapping || issues.some(issue => issue.severity === 'error')) {
+    throw new Error(`Failed to import mapping: ${formatMappingErrors(provider, issues)}`);
+  }
+
+  // The schema version describes the file, not the stored mapping
+  const imported = { ...mapping };
+  delete imported.schemaVersion;
   try {
-    const mapping = JSON.parse(jsonString) as ProviderMapping;
-    saveMapping(provider, mapping);
+    recordMappingVersion(provider, imported, change, 'import');
   } catch (error) {
-    throw new Error(`Failed to import mapping: ${error instanceof Error ? error.message : 'Invalid JSON'}`);
+    throw new Error(`Failed to import mapping: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
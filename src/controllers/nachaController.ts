@@ -0,0 +1,18 @@
+/**
+ * NACHA Controller
+ * Builds ACH prenote files using the employer's stored company and ODFI settings
+ */
+
+import { generatePrenoteFile } from '../services/nachaGenerator';
+import type { NachaFile } from '../services/nachaGenerator';
+import { getSettings } from './settingsController';
+import type { EmployeeRecord } from '../types';
+
+/**
+ * Creates a prenote file for employees' direct deposit accounts
+ * @param employees Employees to prenote
+ * @returns NACHA file and any accounts that were skipped
+ */
+export function createPrenoteFile(employees: EmployeeRecord[]): NachaFile {
+  return generatePrenoteFile(employees, getSettings().nacha);
+}
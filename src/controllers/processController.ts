@@ -3,60 +3,283 @@
  * Handles the complete employee data processing workflow
  */
 
-import { validateEmployeeRecord, isPayrollReady } from "../services/validator";
-import { transformToADP, transformToQuickBooks } from "../services/transformer";
+import { validateEmployeeRecord, validateContractorRecord, isPayrollReady, isContractor } from "../services/validator";
+import { transformRecord } from "../services/transformer";
+import type { TransformIssue } from "../services/transformer";
+import { getEnabledProviders, getProvider } from "../services/providerRegistry";
+import { checkRoutingCondition, routeEmployee } from "../services/routing";
+import { getMapping, getActiveMappingVersion } from "./mappingController";
+import { getSettings } from "./settingsController";
+import { getExportHistory, recordExport } from "./exportHistoryController";
+import { findDuplicateEmployees } from "../services/duplicateDetection";
+import { evaluateEnvelopeRecord } from "../services/envelope";
+import { formatFixedWidthRecord, validateFixedWidthLayout } from "../utils/fixedWidthWriter";
+import type { FixedWidthWarning } from "../utils/fixedWidthWriter";
 import { storeErrors } from "../services/errorTracker";
+import { validateProviderRecord } from "../services/outputSchema";
+import { buildContractorRecord, validateContractorVendorRecord, getContractorSourceField } from "../services/contractors";
+import { buildOutputBundle } from "../services/outputBundle";
+import type { OutputBundle } from "../services/outputBundle";
 import type {
+  BatchInfo,
+  DETRecord,
   EmployeeRecord,
+  EmployerSettings,
+  ExportHistory,
+  HDRRecord,
   ProcessingError,
   ProcessingWarning,
   ProcessingLog,
   LogLevel,
-  ADPRecord,
-  QuickBooksRecord,
+  OutputColumn,
+  ProviderId,
+  ProviderMapping,
+  ProviderRecord,
 } from "../types";
 import { generateErrorId } from "../services/errorTracker";
 
 export interface ProcessingResult {
+  batch: BatchInfo; // Batch identity stamped into provider file headers/trailers
+  providers: ProviderId[]; // Enabled providers the records were fanned out to
+  mappings: Record<ProviderId, ProviderMapping>; // Mapping used per provider (selects output format)
+  mappingVersions: Record<ProviderId, number | null>; // Mapping version used per provider (null = built-in default)
+  header?: HDRRecord; // HDR record of the upload (names bundled files)
   processedEmployees: {
     employee: EmployeeRecord;
-    adpRecord: ADPRecord;
-    quickBooksRecord: QuickBooksRecord;
+    companyId: string; // DET record company_id (blank when unknown)
+    records: Record<ProviderId, ProviderRecord>; // Transformed record per provider the employee was routed to
   }[];
   skippedEmployees: {
     employee: EmployeeRecord;
     reason: string;
   }[];
+  contractors: {
+    employee: EmployeeRecord;
+    companyId: string; // DET record company_id (blank when unknown)
+    record: ProviderRecord; // Vendor setup record (never sent to W-2 provider files)
+  }[];
   errors: ProcessingError[];
   warnings: ProcessingWarning[];
   logs: ProcessingLog[];
 }
 
+export interface ProcessingProgressUpdate {
+  current: number;
+  total: number;
+  isComplete: boolean;
+  logs: ProcessingLog[]; // Logs added since the previous update (at most the last 100)
+  rowsPerSecond: number; // Throughput so far (paused time excluded)
+  etaSeconds: number | null; // Estimated time left (null until throughput is measurable)
+}
+
 export interface ProcessingOptions {
   headerFields?: string[]; // CSV header fields for column index tracking
-  onProgress?: (progress: {
-    current: number;
-    total: number;
-    isComplete: boolean;
-    logs: ProcessingLog[];
-  }) => void;
+  detRecords?: DETRecord[]; // DET records the employees came from, in the same order (supplies company_id for routing and bundling)
+  hdrRecord?: HDRRecord; // HDR record of the upload
+  employerId?: string; // Overrides the employer id from settings
+  onProgress?: (progress: ProcessingProgressUpdate) => void;
+  control?: ProcessingControl; // Pause/cancel requests, checked between employees
+}
+
+/**
+ * Everything a run reads from storage, resolved on the main thread so the run itself can happen in a worker
+ */
+export interface ProcessingContext {
+  settings: EmployerSettings;
+  providers: ProviderId[]; // Enabled providers
+  mappings: Record<ProviderId, ProviderMapping>; // Active mapping per provider
+  outputSchemas: Record<ProviderId, OutputColumn[]>; // Output columns per provider (a worker's registry holds only the built-in providers)
+  mappingVersions: Record<ProviderId, number | null>; // Active mapping version per provider (null = built-in default)
+  exportHistory: ExportHistory; // Employees exported in earlier runs and the salt of their hashes (duplicate detection)
+}
+
+/**
+ * Pause and cancel requests for a running job
+ */
+export interface ProcessingControl {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  isCancelled: () => boolean;
+  waitWhilePaused: () => Promise<void>; // Resolves at once unless paused; resuming or cancelling releases it
+}
+
+/**
+ * How often a run reports progress and yields, so the UI stays responsive and pause/cancel requests are seen
+ */
+const PROGRESS_INTERVAL_MS = 100;
+
+/**
+ * Creates the pause/cancel control for a run
+ */
+export function createProcessingControl(): ProcessingControl {
+  let cancelled = false;
+  let paused: { promise: Promise<void>; release: () => void } | null = null;
+
+  const release = () => {
+    paused?.release();
+    paused = null;
+  };
+
+  return {
+    pause: () => {
+      if (!paused && !cancelled) {
+        let releasePause = () => {};
+        const promise = new Promise<void>((resolve) => {
+          releasePause = resolve;
+        });
+        paused = { promise, release: releasePause };
+      }
+    },
+    resume: release,
+    cancel: () => {
+      cancelled = true;
+      release();
+    },
+    isCancelled: () => cancelled,
+    waitWhilePaused: () => paused?.promise ?? Promise.resolve(),
+  };
+}
+
+/**
+ * Resolves the settings, enabled providers, active mappings, output schemas and export history a run needs
+ */
+export function resolveProcessingContext(): ProcessingContext {
+  const providers = getEnabledProviders().map((descriptor) => descriptor.id);
+  const mappings: Record<ProviderId, ProviderMapping> = {};
+  const outputSchemas: Record<ProviderId, OutputColumn[]> = {};
+  const mappingVersions: Record<ProviderId, number | null> = {};
+  for (const providerId of providers) {
+    mappings[providerId] = getMapping(providerId);
+    outputSchemas[providerId] = getProvider(providerId).outputSchema;
+    mappingVersions[providerId] = getActiveMappingVersion(providerId);
+  }
+  return {
+    settings: getSettings(),
+    providers,
+    mappings,
+    outputSchemas,
+    mappingVersions,
+    exportHistory: getExportHistory(),
+  };
+}
+
+/**
+ * Generates a batch id from the run timestamp (e.g., B20250115093000A1B2)
+ */
+function generateBatchId(createdAt: Date): string {
+  const timestamp = createdAt.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+  return `B${timestamp}${Math.random().toString(36).substr(2, 4).toUpperCase()}`;
+}
+
+/**
+ * Records of one provider, in employee order (employees not routed to the provider are left out)
+ * @param result Processing result
+ * @param providerId Provider id
+ */
+export function getProviderRecords(result: ProcessingResult, providerId: ProviderId): ProviderRecord[] {
+  return result.processedEmployees
+    .map((pe) => pe.records[providerId])
+    .filter((record): record is ProviderRecord => record !== undefined);
 }
 
 /**
- * Processes employee records through validation, compliance gating, and transformation
+ * Records the employees of a run as exported, so later uploads that send them again are flagged
+ * @param result Processing result
+ * @param providerIds Providers whose files were downloaded
+ */
+export function recordProviderExport(result: ProcessingResult, providerIds: ProviderId[]): void {
+  const exportedAt = new Date().toISOString();
+  const employees = result.processedEmployees
+    .map((pe) => ({
+      employee: pe.employee,
+      companyId: pe.companyId,
+      batchId: result.batch.batchId,
+      exportedAt,
+      providers: providerIds.filter((providerId) => pe.records[providerId] !== undefined),
+    }))
+    .filter((employee) => employee.providers.length > 0);
+  recordExport(employees);
+}
+
+/**
+ * Builds the bundle of provider files for a run using the employer's bundling settings
+ * @param result Processing result
+ * @returns Files split per company (when enabled), named from the template, with a manifest
+ */
+export function buildProviderBundle(result: ProcessingResult): OutputBundle {
+  const providers = result.providers.map((providerId) => ({
+    providerId,
+    mapping: result.mappings[providerId],
+    mappingVersion: result.mappingVersions[providerId] ?? null,
+    records: result.processedEmployees
+      .filter((pe) => pe.records[providerId] !== undefined)
+      .map((pe) => ({ companyId: pe.companyId, record: pe.records[providerId] })),
+  }));
+  return buildOutputBundle(providers, result.batch, result.header, getSettings().bundle);
+}
+
+/**
+ * Processes employee records on this thread, reading the context from storage and storing the errors afterwards
  * @param employees Array of employee records to process
- * @param options Processing options including progress callback
- * @returns Processing result with transformed records
+ * @param options Processing options including progress callback and pause/cancel control
+ * @returns Processing result with transformed records (null when cancelled)
  */
 export async function processEmployees(
   employees: EmployeeRecord[],
   options: ProcessingOptions = {}
-): Promise<ProcessingResult> {
-  const { onProgress, headerFields } = options;
+): Promise<ProcessingResult | null> {
+  const result = await runProcessing(employees, resolveProcessingContext(), options);
+  // Store errors for later retrieval
+  if (result && result.errors.length > 0) {
+    storeErrors(result.errors);
+  }
+  return result;
+}
+
+/**
+ * Processes employee records through validation, compliance gating, routing, and transformation
+ * Reads nothing from storage or the provider registry (everything comes from the context), so it can run inside a worker
+ * @param employees Array of employee records to process
+ * @param context Settings, providers, mappings, output schemas and export history for the run
+ * @param options Processing options including progress callback and pause/cancel control
+ * @returns Processing result with transformed records (null when cancelled)
+ */
+export async function runProcessing(
+  employees: EmployeeRecord[],
+  context: ProcessingContext,
+  options: ProcessingOptions = {}
+): Promise<ProcessingResult | null> {
+  const { onProgress, control, headerFields, detRecords, hdrRecord } = options;
+  const { settings, providers, mappings, outputSchemas, mappingVersions } = context;
+  const routing = settings.routing;
+
+  const createdAt = new Date();
+  const batch: BatchInfo = {
+    batchId: generateBatchId(createdAt),
+    employerId: options.employerId ?? (settings.employerId || hdrRecord?.employer_id || ""),
+    createdAt: createdAt.toISOString(),
+  };
+
+  // Source field behind each output column, so output schema violations point at the input column
+  const columnSources: Record<ProviderId, Map<string, string>> = {};
+  for (const providerId of providers) {
+    columnSources[providerId] = new Map(
+      mappings[providerId].fieldMappings
+        .filter((fieldMapping) => fieldMapping.sourceField)
+        .map((fieldMapping) => [fieldMapping.targetField, fieldMapping.sourceField])
+    );
+  }
 
   const result: ProcessingResult = {
+    batch,
+    providers,
+    mappings,
+    mappingVersions,
+    header: hdrRecord,
     processedEmployees: [],
     skippedEmployees: [],
+    contractors: [],
     errors: [],
     warnings: [],
     logs: [],
@@ -80,13 +303,191 @@ export async function processEmployees(
     return log;
   };
 
-  addLog("INFO", `Starting processing of ${employees.length} employees`);
+  // Throughput is measured over active time: time spent paused is left out
+  const startedAt = Date.now();
+  let pausedMs = 0;
+  let lastReportAt = startedAt;
+  let reportedLogs = 0;
+  const reportProgress = (current: number) => {
+    const activeSeconds = (Date.now() - startedAt - pausedMs) / 1000;
+    const rowsPerSecond = activeSeconds > 0 ? current / activeSeconds : 0;
+    onProgress?.({
+      current,
+      total: employees.length,
+      isComplete: current === employees.length,
+      logs: result.logs.slice(Math.max(reportedLogs, result.logs.length - 100)),
+      rowsPerSecond,
+      etaSeconds: rowsPerSecond > 0 ? (employees.length - current) / rowsPerSecond : null,
+    });
+    reportedLogs = result.logs.length;
+  };
+
+  /**
+   * Validates a contractor and builds their vendor setup record (contractors are not I-9 gated or routed)
+   */
+  const processContractor = (employee: EmployeeRecord, index: number) => {
+    const rowIndex = index + 1;
+    const rowId = employee.employee_id || `row_${rowIndex}`;
+    const validationErrors = validateContractorRecord(employee, index, headerFields);
+    result.errors.push(...validationErrors);
+    if (validationErrors.length > 0) {
+      addLog(
+        "ERROR",
+        `Row ${rowIndex}, Column ${validationErrors.map((e) => e.field).join(", ")}: Contractor validation failed - ${validationErrors.length} issue(s) detected`,
+        employee.employee_id,
+        rowIndex
+      );
+    }
+
+    const record = buildContractorRecord(employee);
+    // Columns whose source field already failed validation are reported once, by the validation error
+    const failedFields = new Set(validationErrors.map((error) => error.field));
+    const violations = validateContractorVendorRecord(record).filter(
+      (violation) => !failedFields.has(getContractorSourceField(violation.column))
+    );
+    for (const violation of violations) {
+      const field = getContractorSourceField(violation.column) || violation.column;
+      const columnIndex = headerFields ? headerFields.indexOf(field) : -1;
+      result.errors.push({
+        id: generateErrorId(),
+        rowId,
+        row: rowIndex,
+        field,
+        columnIndex: columnIndex >= 0 ? columnIndex : undefined,
+        value: violation.value,
+        errorType: "OUTPUT_SCHEMA_VIOLATION",
+        message: `Contractor vendor file: ${violation.message}`,
+        suggestedFix: violation.suggestedFix,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    result.contractors.push({ employee, companyId: detRecords?.[index]?.company_id ?? "", record });
+    addLog(
+      validationErrors.length === 0 && violations.length === 0 ? "SUCCESS" : "INFO",
+      `Contractor ${employee.employee_id} (${employee.first_name} ${employee.last_name}): Added to the 1099 vendor setup file, excluded from W-2 provider files${
+        validationErrors.length === 0 && violations.length === 0 ? "" : " - export disabled until corrected"
+      }`,
+      employee.employee_id,
+      rowIndex
+    );
+  };
+
+  addLog("INFO", `Starting processing of ${employees.length} employees (batch ${batch.batchId})`);
+  if (providers.length > 0) {
+    addLog(
+      "INFO",
+      `Mapping versions: ${providers
+        .map((providerId) => `${providerId} ${mappingVersions[providerId] === null ? "default" : `v${mappingVersions[providerId]}`}`)
+        .join(", ")}`
+    );
+  }
+
+  // Check fixed-width layouts once so a bad layout is reported a single time
+  const fixedWidthProviders: ProviderId[] = [];
+  for (const providerId of providers) {
+    const output = mappings[providerId].output;
+    if (output?.format !== "fixed-width") {
+      continue;
+    }
+    try {
+      validateFixedWidthLayout(output.fixedWidthColumns || []);
+      fixedWidthProviders.push(providerId);
+    } catch (error) {
+      const message = `${providerId} fixed-width layout is invalid: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`;
+      result.errors.push({
+        id: generateErrorId(),
+        rowId: providerId,
+        row: 0,
+        field: "output",
+        value: "",
+        errorType: "VALIDATION_ERROR",
+        message,
+        suggestedFix: "Fix the fixed-width column layout in the Mapping Configuration",
+        timestamp: new Date().toISOString(),
+      });
+      addLog("ERROR", message);
+    }
+  }
+
+  if (providers.length === 0) {
+    addLog("WARNING", "No payroll providers are enabled - no provider files will be produced");
+  }
+
+  // Check routing rule conditions once, against the first employee, so a bad rule is reported a single time
+  if (routing.enabled) {
+    for (const rule of routing.rules) {
+      const problem = checkRoutingCondition(rule.when, employees[0], detRecords?.[0]?.company_id ?? "");
+      if (problem) {
+        const message = `Routing rule '${rule.name}' is invalid: ${problem}`;
+        result.errors.push({
+          id: generateErrorId(),
+          rowId: "routing",
+          row: 0,
+          field: "routing",
+          value: rule.when,
+          errorType: "VALIDATION_ERROR",
+          message,
+          suggestedFix: "Fix the routing rule condition in Settings",
+          timestamp: new Date().toISOString(),
+        });
+        addLog("ERROR", message);
+      }
+    }
+    addLog("INFO", `Routing employees with ${routing.rules.length} rule(s) (${routing.mode})`);
+  }
+
+  // Duplicate employees within the upload and against earlier exports
+  const duplicates = findDuplicateEmployees(employees, context.exportHistory);
+  for (const duplicate of duplicates) {
+    const employee = employees[duplicate.index];
+    const rowIndex = duplicate.index + 1;
+    const columnIndex = headerFields ? headerFields.indexOf(duplicate.field) : -1;
+    result.errors.push({
+      id: generateErrorId(),
+      rowId: employee.employee_id || `row_${rowIndex}`,
+      row: rowIndex,
+      field: duplicate.field,
+      columnIndex: columnIndex >= 0 ? columnIndex : undefined,
+      value: duplicate.value,
+      errorType: "DUPLICATE_EMPLOYEE",
+      message: duplicate.message,
+      suggestedFix: duplicate.suggestedFix,
+      links: duplicate.links,
+      timestamp: new Date().toISOString(),
+    });
+    addLog("ERROR", `Row ${rowIndex}: ${duplicate.message}`, employee.employee_id, rowIndex);
+  }
+  if (duplicates.length > 0) {
+    addLog("WARNING", `${duplicates.length} duplicate employee finding(s) - see the errors for the conflicting rows and earlier runs`);
+  }
 
   for (let i = 0; i < employees.length; i++) {
+    if (Date.now() - lastReportAt >= PROGRESS_INTERVAL_MS) {
+      reportProgress(i);
+      // Yield so progress is rendered and pause/cancel requests are delivered
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      const pausedAt = Date.now();
+      await control?.waitWhilePaused();
+      pausedMs += Date.now() - pausedAt;
+      if (control?.isCancelled()) {
+        return null;
+      }
+      lastReportAt = Date.now();
+    }
+
     const employee = employees[i];
     const rowIndex = i + 1;
 
     try {
+      // Contractors (1099) get their own checks and go to the vendor setup file instead of the W-2 provider files
+      if (isContractor(employee)) {
+        processContractor(employee, i);
+        continue;
+      }
+
       // Validate employee record
       const validationErrors = validateEmployeeRecord(
         employee,
@@ -118,18 +519,177 @@ export async function processEmployees(
         continue;
       }
 
-      // Transform to provider formats
-      const adpRecord = transformToADP(employee);
-      const quickBooksRecord = transformToQuickBooks(employee);
+      // Decide which providers receive the employee
+      const companyId = detRecords?.[i]?.company_id ?? "";
+      const decision = routeEmployee(employee, companyId, routing, providers);
+      for (const providerId of decision.disabledProviders) {
+        addLog(
+          "WARNING",
+          `Employee ${employee.employee_id}: routing rule names ${providerId}, which is not enabled for processing`,
+          employee.employee_id,
+          rowIndex
+        );
+      }
+      if (decision.providers.length === 0) {
+        const reason = routing.enabled && decision.matchedRules.length === 0
+          ? `No routing rule matches (company ${companyId || "not set"})`
+          : "No enabled provider to send the employee to";
+        result.skippedEmployees.push({ employee, reason });
+        const message = `Employee ${employee.employee_id} (${employee.first_name} ${employee.last_name}) was not routed to any provider: ${reason}`;
+        if (routing.unrouted === "error") {
+          result.errors.push({
+            id: generateErrorId(),
+            rowId: employee.employee_id || `row_${rowIndex}`,
+            row: rowIndex,
+            field: "company_id",
+            value: companyId,
+            errorType: "UNROUTED_EMPLOYEE",
+            message,
+            suggestedFix: "Add a routing rule for this employee's company in Settings, or enable the provider it is routed to",
+            timestamp: new Date().toISOString(),
+          });
+        } else {
+          result.warnings.push({
+            id: generateErrorId(),
+            rowId: employee.employee_id || `row_${rowIndex}`,
+            row: rowIndex,
+            field: "company_id",
+            originalValue: companyId,
+            message,
+            timestamp: new Date().toISOString(),
+          });
+        }
+        addLog(routing.unrouted === "error" ? "ERROR" : "WARNING", message, employee.employee_id, rowIndex);
+        continue;
+      }
+      if (routing.enabled) {
+        addLog(
+          "INFO",
+          `Employee ${employee.employee_id}: routed to ${decision.providers.join(", ")} (rule ${decision.matchedRules.map((name) => `'${name}'`).join(", ")})`,
+          employee.employee_id,
+          rowIndex
+        );
+      }
+
+      // Transform to each routed provider format, then check the result against the provider's output schema
+      const records: Record<ProviderId, ProviderRecord> = {};
+      const transformIssues: TransformIssue[] = [];
+      let schemaViolations = 0;
+      for (const providerId of decision.providers) {
+        const providerIssues: TransformIssue[] = [];
+        records[providerId] = transformRecord(
+          employee,
+          mappings[providerId],
+          outputSchemas[providerId].map((column) => column.name),
+          providerIssues
+        );
+        transformIssues.push(...providerIssues);
+
+        // Columns whose transformation already failed are reported once, by the transform issue
+        const failedColumns = new Set(
+          providerIssues.filter((issue) => issue.severity === "error").map((issue) => issue.targetField)
+        );
+        const violations = validateProviderRecord(records[providerId], outputSchemas[providerId])
+          .filter((violation) => !failedColumns.has(violation.column));
+        for (const violation of violations) {
+          const field = columnSources[providerId].get(violation.column) || violation.column;
+          const columnIndex = headerFields ? headerFields.indexOf(field) : -1;
+          result.errors.push({
+            id: generateErrorId(),
+            rowId: employee.employee_id || `row_${rowIndex}`,
+            row: rowIndex,
+            field,
+            columnIndex: columnIndex >= 0 ? columnIndex : undefined,
+            value: violation.value,
+            errorType: "OUTPUT_SCHEMA_VIOLATION",
+            message: `${providerId}: ${violation.message}`,
+            suggestedFix: violation.suggestedFix,
+            timestamp: new Date().toISOString(),
+          });
+        }
+        if (violations.length > 0) {
+          schemaViolations += violations.length;
+          addLog(
+            "ERROR",
+            `Employee ${employee.employee_id}: ${providerId} record breaks ${violations.length} output rule(s) (${violations
+              .map((violation) => violation.column)
+              .join(", ")})`,
+            employee.employee_id,
+            rowIndex
+          );
+        }
+      }
+
+      // Surface transformation issues (unmapped crosswalk values, deduction overflow) through the error pipeline
+      for (const issue of transformIssues) {
+        const field = issue.sourceField || issue.targetField;
+        const columnIndex = headerFields ? headerFields.indexOf(field) : -1;
+        if (issue.severity === "error") {
+          result.errors.push({
+            id: generateErrorId(),
+            rowId: employee.employee_id || `row_${rowIndex}`,
+            row: rowIndex,
+            field,
+            columnIndex: columnIndex >= 0 ? columnIndex : undefined,
+            value: issue.value,
+            errorType: issue.errorType ?? "UNMAPPED_VALUE",
+            message: issue.message,
+            suggestedFix:
+              issue.suggestedFix ??
+              `Correct the value or add a crosswalk entry for '${issue.value}' in the Mapping Configuration`,
+            timestamp: new Date().toISOString(),
+          });
+        } else {
+          result.warnings.push({
+            id: generateErrorId(),
+            rowId: employee.employee_id || `row_${rowIndex}`,
+            row: rowIndex,
+            field,
+            originalValue: issue.value,
+            message: issue.message,
+            timestamp: new Date().toISOString(),
+          });
+        }
+      }
+      // Fixed-width providers: report values that will be truncated in the file
+      for (const providerId of fixedWidthProviders.filter((id) => id in records)) {
+        const layoutWarnings: FixedWidthWarning[] = [];
+        formatFixedWidthRecord(
+          records[providerId],
+          mappings[providerId].output?.fixedWidthColumns || [],
+          rowIndex,
+          layoutWarnings
+        );
+        for (const warning of layoutWarnings) {
+          result.warnings.push({
+            id: generateErrorId(),
+            rowId: employee.employee_id || `row_${rowIndex}`,
+            row: rowIndex,
+            field: warning.field,
+            originalValue: warning.originalValue,
+            message: `${providerId}: ${warning.message}`,
+            timestamp: new Date().toISOString(),
+          });
+        }
+      }
+
+      if (transformIssues.length > 0) {
+        addLog(
+          transformIssues.some((issue) => issue.severity === "error") ? "ERROR" : "WARNING",
+          `Employee ${employee.employee_id}: ${transformIssues.length} provider mapping issue(s) (unmapped codes or deductions without a slot)`,
+          employee.employee_id,
+          rowIndex
+        );
+      }
 
       result.processedEmployees.push({
         employee,
-        adpRecord,
-        quickBooksRecord,
+        companyId,
+        records,
       });
 
       // Only log SUCCESS if there are no validation errors
-      if (validationErrors.length === 0) {
+      if (validationErrors.length === 0 && transformIssues.length === 0 && schemaViolations === 0) {
         addLog(
           "SUCCESS",
           `Employee ${employee.employee_id} (${employee.first_name} ${employee.last_name}): Validated and ready for export`,
@@ -145,19 +705,6 @@ export async function processEmployees(
           rowIndex
         );
       }
-
-      // Call progress callback
-      if (onProgress) {
-        onProgress({
-          current: i + 1,
-          total: employees.length,
-          isComplete: i === employees.length - 1,
-          logs: result.logs.slice(-5), // Last 5 logs
-        });
-      }
-
-      // Small delay to allow UI to update (simulates real-time processing)
-      await new Promise((resolve) => setTimeout(resolve, 50));
     } catch (error) {
       const errorObj: ProcessingError = {
         id: generateErrorId(),
@@ -181,15 +728,46 @@ export async function processEmployees(
     }
   }
 
-  // Store errors for later retrieval
-  if (result.errors.length > 0) {
-    storeErrors(result.errors);
+  // Evaluate header/trailer records now so bad envelope expressions surface before download
+  for (const providerId of providers) {
+    const { envelope, money } = mappings[providerId];
+    if (!envelope) {
+      continue;
+    }
+    const records = getProviderRecords(result, providerId);
+    try {
+      evaluateEnvelopeRecord(envelope.header || [], records, batch, money);
+      evaluateEnvelopeRecord(envelope.trailer || [], records, batch, money);
+    } catch (error) {
+      const message = `${providerId} header/trailer is invalid: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`;
+      result.errors.push({
+        id: generateErrorId(),
+        rowId: providerId,
+        row: 0,
+        field: "envelope",
+        value: "",
+        errorType: "VALIDATION_ERROR",
+        message,
+        suggestedFix: "Fix the header/trailer fields in the Mapping Configuration",
+        timestamp: new Date().toISOString(),
+      });
+      addLog("ERROR", message);
+    }
   }
 
   addLog(
     "INFO",
-    `Processing complete. ${result.processedEmployees.length} employees processed, ${result.skippedEmployees.length} employees skipped`
+    `Processing complete. ${result.processedEmployees.length} employees processed, ${result.contractors.length} contractors sent to the vendor setup file, ${result.skippedEmployees.length} employees skipped`
   );
+  if (routing.enabled) {
+    addLog(
+      "INFO",
+      `Routing summary: ${providers.map((providerId) => `${providerId} ${getProviderRecords(result, providerId).length}`).join(", ")}`
+    );
+  }
+  reportProgress(employees.length);
 
   return result;
 }
@@ -0,0 +1,109 @@
+/**
+ * Processing Job Controller
+ * Runs employee processing as a background job in a Web Worker, with pause, resume and cancel
+ */
+
+import { createProcessingControl, processEmployees, resolveProcessingContext } from "./processController";
+import type { ProcessingContext, ProcessingOptions, ProcessingProgressUpdate, ProcessingResult } from "./processController";
+import { storeErrors } from "../services/errorTracker";
+import type { EmployeeRecord } from "../types";
+
+/**
+ * Running processing job
+ */
+export interface ProcessingJob {
+  result: Promise<ProcessingResult | null>; // Resolves with null when the job is cancelled
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Processing options that can be sent to the worker (callbacks and controls stay on the main thread)
+ */
+export type ProcessingJobOptions = Omit<ProcessingOptions, "onProgress" | "control">;
+
+/**
+ * Messages the main thread sends to the processing worker
+ */
+export type ProcessingWorkerRequest =
+  | { type: "start"; employees: EmployeeRecord[]; context: ProcessingContext; options: ProcessingJobOptions }
+  | { type: "pause" }
+  | { type: "resume" };
+
+/**
+ * Messages the processing worker posts back
+ */
+export type ProcessingWorkerMessage =
+  | { type: "progress"; progress: ProcessingProgressUpdate }
+  | { type: "complete"; result: ProcessingResult }
+  | { type: "error"; message: string };
+
+/**
+ * Starts processing employee records as a background job
+ * Storage is read on the main thread before the job starts (workers have no localStorage) and errors are stored
+ * when it completes. Without Web Worker support the job runs on this thread, yielding between batches of rows.
+ * @param employees Array of employee records to process
+ * @param options Processing options including progress callback
+ * @returns Job handle with the result promise and pause/resume/cancel controls
+ */
+export function startProcessingJob(employees: EmployeeRecord[], options: ProcessingOptions = {}): ProcessingJob {
+  const { onProgress, headerFields, detRecords, hdrRecord, employerId } = options;
+  const jobOptions: ProcessingJobOptions = { headerFields, detRecords, hdrRecord, employerId };
+
+  if (typeof Worker === "undefined") {
+    const control = createProcessingControl();
+    return {
+      result: processEmployees(employees, { ...jobOptions, onProgress, control }),
+      pause: control.pause,
+      resume: control.resume,
+      cancel: control.cancel,
+    };
+  }
+
+  const worker = new Worker(new URL("../workers/processing.worker.ts", import.meta.url), { type: "module" });
+  let settle: (result: ProcessingResult | null) => void = () => {};
+  const result = new Promise<ProcessingResult | null>((resolve, reject) => {
+    settle = resolve;
+
+    worker.onmessage = (event: MessageEvent<ProcessingWorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "progress":
+          onProgress?.(message.progress);
+          break;
+        case "complete":
+          worker.terminate();
+          // Store errors for later retrieval
+          if (message.result.errors.length > 0) {
+            storeErrors(message.result.errors);
+          }
+          resolve(message.result);
+          break;
+        case "error":
+          worker.terminate();
+          reject(new Error(`Processing failed: ${message.message}`));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(`Processing failed: ${event.message || "Worker error"}`));
+    };
+  });
+
+  const post = (request: ProcessingWorkerRequest) => worker.postMessage(request);
+  post({ type: "start", employees, context: resolveProcessingContext(), options: jobOptions });
+
+  return {
+    result,
+    pause: () => post({ type: "pause" }),
+    resume: () => post({ type: "resume" }),
+    cancel: () => {
+      // Nothing from a cancelled run is kept, so the worker is stopped outright
+      worker.terminate();
+      settle(null);
+    },
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Settings Controller
+ * Handles employer-level settings shared by all providers
+ */
+
+import type { EmployerSettings } from '../types';
+import { DEFAULT_CSV_DIALECT } from '../utils/csvWriter';
+
+const SETTINGS_STORAGE_KEY = 'payroll_employer_settings';
+
+const DEFAULT_SETTINGS: EmployerSettings = {
+  employerId: '',
+  nacha: {
+    immediateDestination: '',
+    immediateDestinationName: '',
+    immediateOrigin: '',
+    immediateOriginName: '',
+    companyName: '',
+    companyIdentification: '',
+    companyEntryDescription: 'PRENOTE',
+    originatingDfiId: '',
+    fileIdModifier: 'A'
+  },
+  exportDialect: DEFAULT_CSV_DIALECT,
+  routing: {
+    enabled: false,
+    mode: 'first-match',
+    rules: [],
+    unrouted: 'warn'
+  },
+  bundle: {
+    splitByCompany: true,
+    fileNameTemplate: '{provider}_{employer_id}_{company_id}_{processing_date}_{sequence}'
+  },
+  sequenceChecks: 'block'
+};
+
+/**
+ * Gets employer settings
+ * @returns Stored settings merged over defaults
+ */
+export function getSettings(): EmployerSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<EmployerSettings>;
+      return {
+        ...DEFAULT_SETTINGS,
+        ...parsed,
+        nacha: { ...DEFAULT_SETTINGS.nacha, ...parsed.nacha },
+        exportDialect: { ...DEFAULT_SETTINGS.exportDialect, ...parsed.exportDialect },
+        routing: { ...DEFAULT_SETTINGS.routing, ...parsed.routing },
+        bundle: { ...DEFAULT_SETTINGS.bundle, ...parsed.bundle }
+      };
+    }
+  } catch (error) {
+    console.warn('Failed to load employer settings, using defaults');
+  }
+  return {
+    ...DEFAULT_SETTINGS,
+    nacha: { ...DEFAULT_SETTINGS.nacha },
+    exportDialect: { ...DEFAULT_SETTINGS.exportDialect },
+    routing: { ...DEFAULT_SETTINGS.routing, rules: [] },
+    bundle: { ...DEFAULT_SETTINGS.bundle }
+  };
+}
+
+/**
+ * Saves employer settings
+ * @param settings Employer settings
+ */
+export function saveSettings(settings: EmployerSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    throw new Error(`Failed to save employer settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
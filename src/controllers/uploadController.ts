@@ -1,32 +1,83 @@
 /**
  * Upload Controller
- * Handles CSV file upload and parsing
+ * Handles CSV and Excel workbook upload and parsing
  */
 
 import { parseCSVFile } from "../services/csvProcessor";
-import type { EmployeeRecord, DETRecord, ProcessingWarning } from "../types";
+import { isWorkbookFile, listWorkbookSheets, parseWorkbookFile } from "../services/workbookProcessor";
+import type { ControlRecordError } from "../services/controlRecords";
+import type { SequenceFinding } from "../services/sequenceIntegrity";
+import { generateErrorId } from "../services/errorTracker";
+import { getSettings } from "./settingsController";
+import type { EmployeeRecord, DETRecord, FTRRecord, HDRRecord, ProcessingWarning } from "../types";
 
 export interface UploadResult {
   rows: EmployeeRecord[];
   detRecords: DETRecord[];
+  hdrRecord?: HDRRecord; // Parsed HDR (header) record
+  ftrRecord?: FTRRecord; // Parsed FTR (trailer) record
   warnings: ProcessingWarning[];
+  notes: ProcessingWarning[]; // Informational findings (workbook cell conversions, sequence findings the employer chose not to block on) - shown, but they do not hold back downloads
   errors: Array<{ message: string; row?: number }>;
+  controlErrors: ControlRecordError[]; // File-level problems (HDR/FTR reconciliation, blocking sequence findings) - the file must not be processed
+  sequenceFindings: SequenceFinding[]; // record_sequence gaps, duplicates, resets and out-of-order rows
   headerFields?: string[];
 }
 
+export interface UploadOptions {
+  sheetName?: string; // Workbook sheet to read (defaults to the first visible sheet; ignored for CSV files)
+}
+
+/**
+ * Lists the sheets of an Excel workbook upload
+ * @param file Workbook file
+ * @returns Visible sheet names, in tab order
+ */
+export async function getWorkbookSheets(file: File): Promise<string[]> {
+  try {
+    return await listWorkbookSheets(file);
+  } catch (error) {
+    throw new Error(`Failed to read workbook: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
 /**
  * Handles file upload and parsing
- * @param file CSV file to upload
- * @param onProgress Optional progress callback
+ * @param file CSV file or Excel workbook (.xlsx) to upload
+ * @param onProgress Optional progress callback (bytes read)
+ * @param options Upload options (workbook sheet)
  * @returns Upload result with parsed rows
  */
 export async function handleFileUpload(
   file: File,
-  onProgress?: (progress: { current: number; total: number }) => void
+  onProgress?: (progress: { current: number; total: number }) => void,
+  options: UploadOptions = {}
 ): Promise<UploadResult> {
   try {
-    const result = await parseCSVFile(file, onProgress);
-    return result;
+    const result = isWorkbookFile(file)
+      ? await parseWorkbookFile(file, options.sheetName, onProgress)
+      : await parseCSVFile(file, onProgress);
+
+    // Sequence findings block the upload or become notes, as the employer chooses
+    const notes: ProcessingWarning[] = [...(result.notes || [])];
+    if (getSettings().sequenceChecks === "block") {
+      result.controlErrors.push(
+        ...result.sequenceFindings.map((finding) => ({ message: finding.message, row: finding.firstRow }))
+      );
+    } else {
+      notes.push(
+        ...result.sequenceFindings.map((finding) => ({
+          id: generateErrorId(),
+          rowId: "file",
+          row: finding.firstRow,
+          field: "record_sequence",
+          originalValue: finding.sequences,
+          message: finding.message,
+          timestamp: new Date().toISOString(),
+        }))
+      );
+    }
+    return { ...result, notes };
   } catch (error) {
     throw new Error(
       `File upload failed: ${
@@ -5,10 +5,11 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import { mapping as mappingApi } from '../api';
-import type { ProviderMapping } from '../types';
+import type { MappingChangeInfo, MappingVersion, ProviderId, ProviderMapping } from '../types';
 
-export function useMappings(provider: 'ADP' | 'QuickBooks') {
+export function useMappings(provider: ProviderId) {
   const [mapping, setMapping] = useState<ProviderMapping>(() => mappingApi.getProviderMapping(provider));
+  const [history, setHistory] = useState<MappingVersion[]>(() => mappingApi.getProviderMappingHistory(provider));
   const [isLoading, setIsLoading] = useState(false);
 
   /**
@@ -19,6 +20,7 @@ export function useMappings(provider: 'ADP' | 'QuickBooks') {
     try {
       const loadedMapping = mappingApi.getProviderMapping(provider);
       setMapping(loadedMapping);
+      setHistory(mappingApi.getProviderMappingHistory(provider));
     } catch (error) {
       console.error('Failed to load mapping:', error);
     } finally {
@@ -29,11 +31,12 @@ export function useMappings(provider: 'ADP' | 'QuickBooks') {
   /**
    * Saves mapping to storage
    */
-  const saveMapping = useCallback((newMapping: ProviderMapping) => {
+  const saveMapping = useCallback((newMapping: ProviderMapping, change?: MappingChangeInfo) => {
     setIsLoading(true);
     try {
-      mappingApi.saveProviderMapping(provider, newMapping);
+      mappingApi.saveProviderMapping(provider, newMapping, change);
       setMapping(newMapping);
+      setHistory(mappingApi.getProviderMappingHistory(provider));
     } catch (error) {
       console.error('Failed to save mapping:', error);
       throw error;
@@ -45,11 +48,12 @@ export function useMappings(provider: 'ADP' | 'QuickBooks') {
   /**
    * Resets mapping to default
    */
-  const resetMapping = useCallback(() => {
+  const resetMapping = useCallback((change?: MappingChangeInfo) => {
     setIsLoading(true);
     try {
-      const defaultMapping = mappingApi.resetProviderMapping(provider);
+      const defaultMapping = mappingApi.resetProviderMapping(provider, change);
       setMapping(defaultMapping);
+      setHistory(mappingApi.getProviderMappingHistory(provider));
     } catch (error) {
       console.error('Failed to reset mapping:', error);
     } finally {
@@ -67,10 +71,10 @@ export function useMappings(provider: 'ADP' | 'QuickBooks') {
   /**
    * Imports mapping from JSON
    */
-  const importMapping = useCallback((jsonString: string) => {
+  const importMapping = useCallback((jsonString: string, change?: MappingChangeInfo) => {
     setIsLoading(true);
     try {
-      mappingApi.importProviderMapping(provider, jsonString);
+      mappingApi.importProviderMapping(provider, jsonString, change);
       loadMapping(); // Reload to get imported mapping
     } catch (error) {
       console.error('Failed to import mapping:', error);
@@ -80,6 +84,24 @@ export function useMappings(provider: 'ADP' | 'QuickBooks') {
     }
   }, [provider, loadMapping]);
 
+  /**
+   * Restores an earlier mapping version (recorded as a new version)
+   */
+  const rollbackMapping = useCallback((version: number, change?: MappingChangeInfo): ProviderMapping => {
+    setIsLoading(true);
+    try {
+      const restored = mappingApi.rollbackProviderMapping(provider, version, change);
+      setMapping(restored);
+      setHistory(mappingApi.getProviderMappingHistory(provider));
+      return restored;
+    } catch (error) {
+      console.error('Failed to roll back mapping:', error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [provider]);
+
   // Load mapping on mount and when provider changes
   useEffect(() => {
     loadMapping();
@@ -87,12 +109,14 @@ export function useMappings(provider: 'ADP' | 'QuickBooks') {
 
   return {
     mapping,
+    history,
     isLoading,
     loadMapping,
     saveMapping,
     resetMapping,
     exportMapping,
-    importMapping
+    importMapping,
+    rollbackMapping
   };
 }
 
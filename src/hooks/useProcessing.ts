@@ -3,30 +3,39 @@
  * Manages employee data processing state and operations
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { process as processApi } from '../api';
-import type { EmployeeRecord, ProcessingProgress } from '../types';
+import type { DETRecord, EmployeeRecord, HDRRecord, ProcessingProgress } from '../types';
 import type { ProcessingResult } from '../controllers/processController';
+import type { ProcessingJob } from '../controllers/processingJobController';
+
+const INITIAL_PROGRESS: ProcessingProgress = {
+  totalRows: 0,
+  processedRows: 0,
+  skippedRows: 0,
+  currentRow: 0,
+  errors: [],
+  warnings: [],
+  logs: [],
+  rowsPerSecond: 0,
+  etaSeconds: null,
+  isComplete: false,
+  isProcessing: false,
+  isPaused: false,
+  isCancelled: false
+};
 
 export function useProcessing() {
-  const [progress, setProgress] = useState<ProcessingProgress>({
-    totalRows: 0,
-    processedRows: 0,
-    skippedRows: 0,
-    currentRow: 0,
-    errors: [],
-    warnings: [],
-    logs: [],
-    isComplete: false,
-    isProcessing: false
-  });
+  const [progress, setProgress] = useState<ProcessingProgress>(INITIAL_PROGRESS);
 
   const [result, setResult] = useState<ProcessingResult | null>(null);
+  const jobRef = useRef<ProcessingJob | null>(null);
 
   /**
-   * Processes employee records
+   * Processes employee records in a background job
+   * @returns Processing result (null when cancelled)
    */
-  const process = useCallback(async (employees: EmployeeRecord[], headerFields?: string[]) => {
+  const process = useCallback(async (employees: EmployeeRecord[], headerFields?: string[], detRecords?: DETRecord[], hdrRecord?: HDRRecord) => {
     setProgress(prev => ({
       ...prev,
       totalRows: employees.length,
@@ -36,13 +45,19 @@ export function useProcessing() {
       errors: [],
       warnings: [],
       logs: [],
+      rowsPerSecond: 0,
+      etaSeconds: null,
       isComplete: false,
-      isProcessing: true
+      isProcessing: true,
+      isPaused: false,
+      isCancelled: false
     }));
 
     try {
-      const processingResult = await processApi.processPayroll(employees, {
+      const job = processApi.startProcessing(employees, {
         headerFields,
+        detRecords,
+        hdrRecord,
         onProgress: (progressUpdate) => {
           setProgress(prev => {
             // Deduplicate logs by ID to prevent duplicates
@@ -58,11 +73,26 @@ export function useProcessing() {
               currentRow: progressUpdate.current,
               processedRows: progressUpdate.current,
               logs: logsToKeep,
+              rowsPerSecond: progressUpdate.rowsPerSecond,
+              etaSeconds: progressUpdate.etaSeconds,
               isComplete: progressUpdate.isComplete
             };
           });
         }
       });
+      jobRef.current = job;
+      const processingResult = await job.result;
+
+      if (!processingResult) {
+        setProgress(prev => ({
+          ...prev,
+          etaSeconds: null,
+          isProcessing: false,
+          isPaused: false,
+          isCancelled: true
+        }));
+        return null;
+      }
 
       setProgress(prev => ({
         ...prev,
@@ -70,8 +100,10 @@ export function useProcessing() {
         skippedRows: processingResult.skippedEmployees.length,
         errors: processingResult.errors,
         warnings: processingResult.warnings,
+        etaSeconds: null,
         isComplete: true,
-        isProcessing: false
+        isProcessing: false,
+        isPaused: false
       }));
 
       setResult(processingResult);
@@ -81,6 +113,7 @@ export function useProcessing() {
         ...prev,
         isComplete: true,
         isProcessing: false,
+        isPaused: false,
         errors: [
           ...prev.errors,
           {
@@ -96,24 +129,43 @@ export function useProcessing() {
         ]
       }));
       throw error;
+    } finally {
+      jobRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Pauses the running job (it stops between employees)
+   */
+  const pause = useCallback(() => {
+    if (jobRef.current) {
+      jobRef.current.pause();
+      setProgress(prev => ({ ...prev, isPaused: true }));
+    }
+  }, []);
+
+  /**
+   * Resumes a paused job
+   */
+  const resume = useCallback(() => {
+    if (jobRef.current) {
+      jobRef.current.resume();
+      setProgress(prev => ({ ...prev, isPaused: false }));
     }
   }, []);
 
+  /**
+   * Cancels the running job, discarding its results
+   */
+  const cancel = useCallback(() => {
+    jobRef.current?.cancel();
+  }, []);
+
   /**
    * Resets processing state
    */
   const reset = useCallback(() => {
-    setProgress({
-      totalRows: 0,
-      processedRows: 0,
-      skippedRows: 0,
-      currentRow: 0,
-      errors: [],
-      warnings: [],
-      logs: [],
-      isComplete: false,
-      isProcessing: false
-    });
+    setProgress(INITIAL_PROGRESS);
     setResult(null);
   }, []);
 
@@ -121,6 +173,9 @@ export function useProcessing() {
     progress,
     result,
     process,
+    pause,
+    resume,
+    cancel,
     reset
   };
 }
@@ -0,0 +1,51 @@
+/**
+ * Contractor Service
+ * Builds the 1099 vendor setup records and file for contractors
+ */
+
+import type { CsvDialect, EmployeeRecord, ProviderRecord } from '../types';
+import { transformRecord } from './transformer';
+import type { TransformIssue } from './transformer';
+import { validateProviderRecord } from './outputSchema';
+import type { OutputSchemaViolation } from './outputSchema';
+import { CONTRACTOR_VENDOR_COLUMNS, CONTRACTOR_VENDOR_FILE_NAME, contractorVendorMapping } from '../config/contractors';
+import { arrayToCSV } from '../utils/csvWriter';
+
+/**
+ * Vendor setup column names, in file order
+ */
+export const CONTRACTOR_VENDOR_HEADERS = CONTRACTOR_VENDOR_COLUMNS.map(column => column.name);
+
+/**
+ * Transforms a contractor into a vendor setup record
+ * @param employee Contractor record
+ * @param issues Optional collector for transformation issues
+ */
+export function buildContractorRecord(employee: EmployeeRecord, issues?: TransformIssue[]): ProviderRecord {
+  return transformRecord(employee, contractorVendorMapping, CONTRACTOR_VENDOR_HEADERS, issues);
+}
+
+/**
+ * Checks a vendor setup record against the vendor file columns
+ * @returns One violation per column that breaks its constraints
+ */
+export function validateContractorVendorRecord(record: ProviderRecord): OutputSchemaViolation[] {
+  return validateProviderRecord(record, CONTRACTOR_VENDOR_COLUMNS);
+}
+
+/**
+ * Source field behind a vendor setup column (blank for computed columns)
+ */
+export function getContractorSourceField(column: string): string {
+  return contractorVendorMapping.fieldMappings.find(fieldMapping => fieldMapping.targetField === column)?.sourceField || '';
+}
+
+/**
+ * Renders the contractor vendor setup file
+ * @param records Vendor setup records, in employee order
+ * @param dialect Delimited file dialect
+ * @returns File name and content
+ */
+export function renderContractorVendorFile(records: ProviderRecord[], dialect?: CsvDialect): { fileName: string; content: string } {
+  return { fileName: CONTRACTOR_VENDOR_FILE_NAME, content: arrayToCSV(records, CONTRACTOR_VENDOR_HEADERS, dialect) };
+}
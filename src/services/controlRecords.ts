@@ -0,0 +1,212 @@
+/**
+ * Control Record Service
+ * Reads, reconciles and writes the HDR (header) and FTR (trailer) records that frame an SFTP upload
+ */
+
+import type { FTRRecord, HDRRecord } from '../types';
+
+/**
+ * HDR format versions this engine can read
+ */
+export const SUPPORTED_FORMAT_VERSIONS = ['1.0'];
+
+/**
+ * HDR record fields in file order
+ */
+export const HDR_FIELDS: (keyof HDRRecord)[] = [
+  'record_type',
+  'format_version',
+  'upload_id',
+  'file_timestamp',
+  'file_name',
+  'directory_path',
+  'employer_id',
+  'total_records',
+  'processing_date'
+];
+
+/**
+ * FTR record fields in file order
+ */
+export const FTR_FIELDS: (keyof FTRRecord)[] = [
+  'record_type',
+  'total_employees_processed',
+  'total_employees_skipped',
+  'total_errors'
+];
+
+/**
+ * Control record problem that blocks the upload
+ */
+export interface ControlRecordError {
+  message: string;
+  row?: number;
+}
+
+/**
+ * Reads a control row
+ * The file's header line names the DET columns, so control values are read by position
+ * unless the header line also names the control fields
+ */
+function readControlValues(row: Record<string, string>, fields: string[]): Record<string, string> {
+  const byName = fields.slice(1).some(field => row[field] !== undefined && row[field] !== '');
+  const values = Object.values(row).map(value => (typeof value === 'string' ? value.trim() : ''));
+  const record: Record<string, string> = {};
+  fields.forEach((field, index) => {
+    record[field] = byName ? (row[field] || '').trim() : values[index] || '';
+  });
+  return record;
+}
+
+/**
+ * Reads an HDR row
+ */
+export function readHeaderRecord(row: Record<string, string>): HDRRecord {
+  return { ...(readControlValues(row, HDR_FIELDS) as unknown as HDRRecord), record_type: 'HDR' };
+}
+
+/**
+ * Reads an FTR row
+ */
+export function readTrailerRecord(row: Record<string, string>): FTRRecord {
+  return { ...(readControlValues(row, FTR_FIELDS) as unknown as FTRRecord), record_type: 'FTR' };
+}
+
+/**
+ * Checks that an upload has exactly one HDR first and one FTR last, and that both reconcile with the DET records
+ * @param recordTypes Record type of every data row, in file order (row N of the file is index N - 1)
+ * @param header First HDR record of the file
+ * @param trailer First FTR record of the file
+ * @returns Blocking control record errors (empty when the file is complete and consistent)
+ */
+export function validateControlRecords(
+  recordTypes: string[],
+  header?: HDRRecord,
+  trailer?: FTRRecord
+): ControlRecordError[] {
+  const errors: ControlRecordError[] = [];
+  const rowsOf = (type: string) => recordTypes.flatMap((recordType, index) => (recordType === type ? [index + 1] : []));
+  const hdrRows = rowsOf('HDR');
+  const ftrRows = rowsOf('FTR');
+  const detCount = rowsOf('DET').length;
+
+  // Structure: exactly one HDR first, exactly one FTR last
+  if (hdrRows.length === 0) {
+    errors.push({ message: 'Missing HDR record: the file must start with a header record', row: 1 });
+  } else if (hdrRows[0] !== 1) {
+    errors.push({ message: `Row ${hdrRows[0]}: HDR record must be the first record in the file`, row: hdrRows[0] });
+  }
+  for (const row of hdrRows.slice(1)) {
+    errors.push({ message: `Row ${row}: Duplicate HDR record - a file must contain exactly one header`, row });
+  }
+  if (ftrRows.length === 0) {
+    errors.push({
+      message: 'Missing FTR record: the file must end with a trailer record (the file may be truncated)',
+      row: recordTypes.length
+    });
+  } else if (ftrRows[0] !== recordTypes.length) {
+    errors.push({
+      message: `Row ${ftrRows[0]}: FTR record must be the last record in the file (${recordTypes.length - ftrRows[0]} record(s) follow it)`,
+      row: ftrRows[0]
+    });
+  }
+  for (const row of ftrRows.slice(1)) {
+    errors.push({ message: `Row ${row}: Duplicate FTR record - a file must contain exactly one trailer`, row });
+  }
+
+  // Header: known format, employer and a record count that matches the file
+  if (header) {
+    const row = hdrRows[0];
+    if (!header.format_version) {
+      errors.push({ message: `Row ${row}: HDR format_version is missing`, row });
+    } else if (!SUPPORTED_FORMAT_VERSIONS.includes(header.format_version)) {
+      errors.push({
+        message: `Row ${row}: HDR format_version '${header.format_version}' is not supported (supported: ${SUPPORTED_FORMAT_VERSIONS.join(', ')})`,
+        row
+      });
+    }
+    if (!header.employer_id) {
+      errors.push({ message: `Row ${row}: HDR employer_id is missing`, row });
+    }
+    if (!/^\d+$/.test(header.total_records)) {
+      errors.push({ message: `Row ${row}: HDR total_records must be a whole number, got: '${header.total_records}'`, row });
+    } else if (Number(header.total_records) !== detCount) {
+      errors.push({
+        message: `Row ${row}: HDR total_records is ${Number(header.total_records)} but the file contains ${detCount} DET record(s)`,
+        row
+      });
+    }
+  }
+
+  // Trailer: totals are optional, but must be whole numbers that account for every DET record
+  if (trailer) {
+    const row = ftrRows[0];
+    const totals: (keyof FTRRecord)[] = ['total_employees_processed', 'total_employees_skipped', 'total_errors'];
+    for (const field of totals) {
+      const value = trailer[field];
+      if (value && !/^\d+$/.test(value)) {
+        errors.push({ message: `Row ${row}: FTR ${field} must be a whole number, got: '${value}'`, row });
+      }
+    }
+    const processed = trailer.total_employees_processed;
+    const skipped = trailer.total_employees_skipped;
+    if (processed && skipped && /^\d+$/.test(processed) && /^\d+$/.test(skipped) && Number(processed) + Number(skipped) !== detCount) {
+      errors.push({
+        message: `Row ${row}: FTR totals (${processed} processed + ${skipped} skipped) do not match the ${detCount} DET record(s) in the file`,
+        row
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Creates the control records for a file of DET records
+ * @param detCount Number of DET records in the file
+ * @param employerId Umbrella employer identifier
+ * @param fileName Name the file is saved under
+ */
+export function createControlRecords(
+  detCount: number,
+  employerId: string,
+  fileName: string
+): { header: HDRRecord; trailer: FTRRecord } {
+  const now = new Date();
+  return {
+    header: {
+      record_type: 'HDR',
+      format_version: SUPPORTED_FORMAT_VERSIONS[SUPPORTED_FORMAT_VERSIONS.length - 1],
+      upload_id: `U${now.toISOString().replace(/[-:T]/g, '').slice(0, 14)}`,
+      file_timestamp: now.toISOString(),
+      file_name: fileName,
+      directory_path: '',
+      employer_id: employerId,
+      total_records: String(detCount),
+      processing_date: now.toISOString().slice(0, 10)
+    },
+    trailer: {
+      record_type: 'FTR',
+      total_employees_processed: String(detCount),
+      total_employees_skipped: '0',
+      total_errors: '0'
+    }
+  };
+}
+
+/**
+ * Lays a control record out by position under the file's DET column names
+ * @param record HDR or FTR record
+ * @param headers DET column names of the file
+ * @returns Row object for the CSV writer
+ */
+export function toControlRow(record: HDRRecord | FTRRecord, headers: string[]): Record<string, string> {
+  const fields: string[] = record.record_type === 'HDR' ? HDR_FIELDS : FTR_FIELDS;
+  const row: Record<string, string> = {};
+  fields.forEach((field, index) => {
+    if (index < headers.length) {
+      row[headers[index]] = (record as unknown as Record<string, string | undefined>)[field] ?? '';
+    }
+  });
+  return row;
+}
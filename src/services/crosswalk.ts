@@ -0,0 +1,49 @@
+/**
+ * Crosswalk Service
+ * Translates enumerated source values into provider codes using crosswalk tables
+ */
+
+import type { CrosswalkTable } from '../types';
+
+/**
+ * Result of a crosswalk translation
+ */
+export interface CrosswalkResult {
+  code: string;
+  mapped: boolean; // false when the value had no entry and the unmapped policy applied
+}
+
+/**
+ * Finds a crosswalk table by name
+ * @param tables Tables defined on the mapping
+ * @param name Table name
+ */
+export function findCrosswalk(tables: CrosswalkTable[] | undefined, name: string): CrosswalkTable | undefined {
+  return (tables || []).find(table => table.name === name);
+}
+
+/**
+ * Translates a source value through a crosswalk table
+ * Exact matches win; otherwise matching ignores case and surrounding whitespace
+ * Empty source values are never looked up and translate to an empty code
+ * @param table Crosswalk table
+ * @param value Source value
+ * @returns Translated code and whether an entry matched
+ */
+export function translateCode(table: CrosswalkTable, value: string): CrosswalkResult {
+  if (value.trim() === '') {
+    return { code: '', mapped: true };
+  }
+
+  const exact = table.entries.find(entry => entry.source === value);
+  const normalized = value.trim().toLowerCase();
+  const match = exact || table.entries.find(entry => entry.source.trim().toLowerCase() === normalized);
+  if (match) {
+    return { code: match.code, mapped: true };
+  }
+
+  if (table.unmappedPolicy === 'passthrough') {
+    return { code: value, mapped: false };
+  }
+  return { code: table.defaultCode || '', mapped: false };
+}
@@ -4,8 +4,12 @@
  */
 
 import Papa from 'papaparse';
-import type { EmployeeRecord, DETRecord, ProcessingWarning, ParsedAddress } from '../types';
+import type { EmployeeRecord, DETRecord, FTRRecord, HDRRecord, ProcessingWarning, ParsedAddress } from '../types';
 import { generateErrorId } from './errorTracker';
+import { readHeaderRecord, readTrailerRecord, validateControlRecords } from './controlRecords';
+import type { ControlRecordError } from './controlRecords';
+import { analyzeRecordSequence } from './sequenceIntegrity';
+import type { SequenceEntry, SequenceFinding } from './sequenceIntegrity';
 
 /**
  * Parses a single address string into components
@@ -130,16 +134,6 @@ function processMessyData(
   return processedRow;
 }
 
-/**
- * Progress callback type
- */
-export type ProgressCallback = (progress: {
-  current: number;
-  total: number;
-  row?: Record<string, string>;
-  warnings?: ProcessingWarning[];
-}) => void;
-
 /**
  * Extracts employee data from DET record (removes DET-specific tracking fields)
  */
@@ -154,139 +148,203 @@ function extractEmployeeData(detRecord: Partial<DETRecord>): EmployeeRecord {
 }
 
 /**
- * Processes CSV file content asynchronously
- * Handles HDR, DET, and FTR record types
- * Only processes DET records for employee data
- * @param fileContent CSV file content as string
- * @param onProgress Optional progress callback
- * @returns Promise with parsed and processed rows
+ * Progress callback type (current/total measure how much of the input has been read: bytes for files, characters for text)
  */
-export async function processCSV(
-  fileContent: string,
-  onProgress?: ProgressCallback
-): Promise<{
+export type ProgressCallback = (progress: {
+  current: number;
+  total: number;
+}) => void;
+
+/**
+ * Parsed upload: DET rows as employees, plus the file's control records and file-level findings
+ */
+export interface ParsedCSV {
   rows: EmployeeRecord[];
   detRecords: DETRecord[];
+  hdrRecord?: HDRRecord;
+  ftrRecord?: FTRRecord;
   warnings: ProcessingWarning[];
+  notes?: ProcessingWarning[]; // Informational findings that do not hold back downloads (workbook cell conversions)
   errors: Array<{ message: string; row?: number }>;
+  controlErrors: ControlRecordError[];
+  sequenceFindings: SequenceFinding[];
   headerFields?: string[];
-}> {
-  return new Promise((resolve, reject) => {
-    const warnings: ProcessingWarning[] = [];
-    const errors: Array<{ message: string; row?: number }> = [];
-    const processedRows: EmployeeRecord[] = [];
-    const detRecords: DETRecord[] = [];
-    let rowCounter = 0; // Track row number manually as fallback
-    let headerFields: string[] | undefined;
-    let headersCaptured = false; // Track if we've captured headers from first row
-
-    Papa.parse(fileContent, {
-      header: true,
-      skipEmptyLines: true,
-      transformHeader: (header) => {
-        // Normalize header names (trim, lowercase, replace spaces with underscores)
-        return header.trim().toLowerCase().replace(/\s+/g, '_');
-      },
-      step: (result, parser) => {
-        try {
-          rowCounter++; // Increment row counter
-          const rowNumber = (parser as any).meta?.cursor ?? rowCounter; // Use cursor if available, otherwise use counter
-          
-          const row = result.data as Record<string, string>;
-          
-          // Capture headers from first row (after transformation)
-          if (!headersCaptured && row) {
-            headerFields = Object.keys(row);
-            headersCaptured = true;
-          }
-          
-          const recordType = row.record_type?.toUpperCase();
-
-          // Only process DET records
-          if (recordType === 'DET') {
-            // Process messy data
-            const cleanedRow = processMessyData(row, rowNumber, warnings);
-            
-            // Validate DET record structure fields exist before converting
-            const recordSequence = cleanedRow.record_sequence || cleanedRow['record_sequence'];
-            const companyId = cleanedRow.company_id || cleanedRow['company_id'];
-            
-            if (!recordSequence || String(recordSequence).trim() === '') {
-              errors.push({
-                message: `Row ${rowNumber}: Missing required field 'record_sequence' in DET record. Available fields: ${Object.keys(cleanedRow).join(', ')}`,
-                row: rowNumber
-              });
-            }
-            if (!companyId || String(companyId).trim() === '') {
-              errors.push({
-                message: `Row ${rowNumber}: Missing required field 'company_id' in DET record. Available fields: ${Object.keys(cleanedRow).join(', ')}`,
-                row: rowNumber
-              });
-            }
-            
-            // Convert to DETRecord (ensure fields are set)
-            const detRecord: Partial<DETRecord> = {
-              ...cleanedRow,
-              record_sequence: recordSequence || '',
-              company_id: companyId || ''
-            } as unknown as DETRecord;
-            
-            detRecords.push(detRecord as DETRecord);
-            
-            // Extract employee data from DET record
-            const employeeRecord = extractEmployeeData(detRecord);
-            processedRows.push(employeeRecord);
-
-            // Call progress callback
-            if (onProgress) {
-              onProgress({
-                current: rowNumber,
-                total: rowNumber + 1, // Estimate, will be updated
-                row: cleanedRow,
-                warnings: warnings.slice(-1) // Last warning if any
-              });
-            }
-          }
-          // Skip HDR and FTR records (they're metadata, not employee data)
-        } catch (error: any) {
-          const rowNumber = (parser as any).meta?.cursor ?? rowCounter; // Use cursor if available, otherwise use counter
+}
+
+/**
+ * Row-level part of a parse, available as rows are read
+ */
+export type ParsedRows = Pick<ParsedCSV, 'rows' | 'detRecords' | 'warnings'>;
+
+/**
+ * File-level part of a parse, known once the whole file has been read
+ */
+export type ParsedCSVSummary = Omit<ParsedCSV, keyof ParsedRows>;
+
+/**
+ * Papa Parse options shared by in-memory and streamed parsing
+ */
+export const CSV_PARSE_OPTIONS = {
+  header: true,
+  skipEmptyLines: true,
+  transformHeader: (header: string) => {
+    // Normalize header names (trim, lowercase, replace spaces with underscores)
+    return header.trim().toLowerCase().replace(/\s+/g, '_');
+  }
+};
+
+/**
+ * Bytes read from the file per streamed chunk
+ */
+export const CSV_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Message the main thread sends to the CSV parser worker
+ */
+export interface CsvWorkerRequest {
+  file: File;
+}
+
+/**
+ * Messages the CSV parser worker posts back while streaming a file
+ */
+export type CsvWorkerMessage =
+  | ({ type: 'rows' } & ParsedRows)
+  | { type: 'progress'; bytesRead: number; totalBytes: number }
+  | { type: 'complete'; summary: ParsedCSVSummary }
+  | { type: 'error'; message: string };
+
+/**
+ * Turns parsed CSV rows into employee records one row at a time, so a file can be read in chunks
+ */
+export interface CSVRowIngestor {
+  addRow: (row: Record<string, string>) => void;
+  takeRows: () => ParsedRows; // Rows added since the last call
+  finish: (fields?: string[]) => ParsedCSVSummary; // fields: header fields reported by the parser (fallback)
+}
+
+/**
+ * Creates a row ingestor
+ * Handles HDR, DET, and FTR record types
+ * Only DET records become employee data; HDR and FTR are kept and reconciled against them when the file is finished
+ */
+export function createRowIngestor(): CSVRowIngestor {
+  let hdrRecord: HDRRecord | undefined;
+  let ftrRecord: FTRRecord | undefined;
+  const recordTypes: string[] = []; // Record type of every row, for control record reconciliation
+  const sequences: SequenceEntry[] = []; // record_sequence of every DET row, for sequence integrity analysis
+  const errors: Array<{ message: string; row?: number }> = [];
+  let pending: ParsedRows = { rows: [], detRecords: [], warnings: [] };
+  let firstDetFields: string[] | undefined;
+  let rowCounter = 0;
+  let headerFields: string[] | undefined;
+
+  const addRow = (row: Record<string, string>) => {
+    rowCounter++;
+    const rowNumber = rowCounter;
+    try {
+      // Capture headers from first row (after transformation)
+      if (!headerFields && row) {
+        headerFields = Object.keys(row);
+      }
+
+      const recordType = row.record_type?.trim().toUpperCase();
+      recordTypes.push(recordType || '');
+
+      // Only process DET records
+      if (recordType === 'DET') {
+        // Process messy data
+        const cleanedRow = processMessyData(row, rowNumber, pending.warnings);
+
+        // Validate DET record structure fields exist before converting
+        const recordSequence = cleanedRow.record_sequence;
+        const companyId = cleanedRow.company_id;
+
+        if (!recordSequence || String(recordSequence).trim() === '') {
           errors.push({
-            message: `Failed to process row ${rowNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            message: `Row ${rowNumber}: Missing required field 'record_sequence' in DET record. Available fields: ${Object.keys(cleanedRow).join(', ')}`,
             row: rowNumber
           });
         }
-      },
-      complete: (results) => {
-        // Use headers captured from first row, or fall back to meta.fields
-        // (meta.fields might be empty when using transformHeader)
-        if (!headerFields || headerFields.length === 0) {
-          headerFields = results.meta.fields || [];
-        }
-        
-        // Final check - if still empty, try to get from first processed row
-        if ((!headerFields || headerFields.length === 0) && processedRows.length > 0) {
-          // Get headers from first DET record (includes all fields)
-          const firstDetRecord = detRecords[0];
-          if (firstDetRecord) {
-            headerFields = Object.keys(firstDetRecord);
-          }
-        }
-        
-        // Update final progress
-        if (onProgress) {
-          onProgress({
-            current: processedRows.length,
-            total: processedRows.length
+        if (!companyId || String(companyId).trim() === '') {
+          errors.push({
+            message: `Row ${rowNumber}: Missing required field 'company_id' in DET record. Available fields: ${Object.keys(cleanedRow).join(', ')}`,
+            row: rowNumber
           });
         }
 
-        resolve({
-          rows: processedRows,
-          detRecords,
-          warnings,
-          errors,
-          headerFields: headerFields || []
-        });
+        // Convert to DETRecord (ensure fields are set)
+        const detRecord = {
+          ...cleanedRow,
+          record_sequence: recordSequence || '',
+          company_id: companyId || ''
+        } as unknown as DETRecord;
+
+        firstDetFields = firstDetFields ?? Object.keys(detRecord);
+        pending.detRecords.push(detRecord);
+        sequences.push({ row: rowNumber, sequence: String(recordSequence || '') });
+
+        // Extract employee data from DET record
+        pending.rows.push(extractEmployeeData(detRecord));
+      } else if (recordType === 'HDR' && !hdrRecord) {
+        // Keep file-level metadata (names bundled provider files)
+        hdrRecord = readHeaderRecord(row);
+      } else if (recordType === 'FTR' && !ftrRecord) {
+        // Keep the trailer totals for reconciliation
+        ftrRecord = readTrailerRecord(row);
+      }
+    } catch (error) {
+      errors.push({
+        message: `Failed to process row ${rowNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        row: rowNumber
+      });
+    }
+  };
+
+  const takeRows = (): ParsedRows => {
+    const taken = pending;
+    pending = { rows: [], detRecords: [], warnings: [] };
+    return taken;
+  };
+
+  const finish = (fields?: string[]): ParsedCSVSummary => ({
+    hdrRecord,
+    ftrRecord,
+    errors,
+    controlErrors: validateControlRecords(recordTypes, hdrRecord, ftrRecord),
+    sequenceFindings: analyzeRecordSequence(sequences),
+    // Use headers captured from first row, or fall back to the parser's fields, or the first DET record
+    headerFields: headerFields?.length ? headerFields : fields?.length ? fields : firstDetFields || []
+  });
+
+  return { addRow, takeRows, finish };
+}
+
+/**
+ * Processes CSV file content asynchronously
+ * Handles HDR, DET, and FTR record types
+ * Only processes DET records for employee data; HDR and FTR are parsed and reconciled against them
+ * @param fileContent CSV file content as string
+ * @param onProgress Optional progress callback (characters read)
+ * @returns Promise with parsed and processed rows
+ */
+export async function processCSV(
+  fileContent: string,
+  onProgress?: ProgressCallback
+): Promise<ParsedCSV> {
+  return new Promise((resolve, reject) => {
+    const ingestor = createRowIngestor();
+
+    Papa.parse<Record<string, string>>(fileContent, {
+      ...CSV_PARSE_OPTIONS,
+      step: (result) => {
+        ingestor.addRow(result.data);
+        if (onProgress) {
+          onProgress({ current: result.meta.cursor, total: fileContent.length });
+        }
+      },
+      complete: (results) => {
+        resolve({ ...ingestor.takeRows(), ...ingestor.finish(results.meta.fields) });
       },
       error: (error: Error) => {
         reject(new Error(`CSV parsing failed: ${error.message}`));
@@ -297,38 +355,54 @@ export async function processCSV(
 
 /**
  * Parses CSV file from File object
+ * The file is streamed in chunks inside a Web Worker so large files do not block the page;
+ * rows are posted back as they are parsed and progress is reported from bytes read
  * @param file File object from input
- * @param onProgress Optional progress callback
+ * @param onProgress Optional progress callback (bytes read)
  * @returns Promise with parsed rows
  */
 export async function parseCSVFile(
   file: File,
   onProgress?: ProgressCallback
-): Promise<{
-  rows: EmployeeRecord[];
-  detRecords: DETRecord[];
-  warnings: ProcessingWarning[];
-  errors: Array<{ message: string; row?: number }>;
-  headerFields?: string[];
-}> {
+): Promise<ParsedCSV> {
+  // No worker support (e.g., outside the browser): parse on this thread
+  if (typeof Worker === 'undefined') {
+    return processCSV(await file.text(), onProgress);
+  }
+
   return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-
-    reader.onload = async (event) => {
-      try {
-        const content = event.target?.result as string;
-        const result = await processCSV(content, onProgress);
-        resolve(result);
-      } catch (error) {
-        reject(error);
+    const worker = new Worker(new URL('../workers/csvParser.worker.ts', import.meta.url), { type: 'module' });
+    const parsed: ParsedRows = { rows: [], detRecords: [], warnings: [] };
+
+    worker.onmessage = (event: MessageEvent<CsvWorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'rows':
+          // Push one by one - spreading a large chunk into push() can overflow the call stack
+          message.rows.forEach(row => parsed.rows.push(row));
+          message.detRecords.forEach(record => parsed.detRecords.push(record));
+          message.warnings.forEach(warning => parsed.warnings.push(warning));
+          break;
+        case 'progress':
+          onProgress?.({ current: message.bytesRead, total: message.totalBytes });
+          break;
+        case 'complete':
+          worker.terminate();
+          resolve({ ...parsed, ...message.summary });
+          break;
+        case 'error':
+          worker.terminate();
+          reject(new Error(`CSV parsing failed: ${message.message}`));
+          break;
       }
     };
 
-    reader.onerror = () => {
-      reject(new Error('Failed to read file'));
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(`CSV parsing failed: ${event.message || 'Worker error'}`));
     };
 
-    reader.readAsText(file);
+    const request: CsvWorkerRequest = { file };
+    worker.postMessage(request);
   });
 }
-
@@ -0,0 +1,149 @@
+/**
+ * Deductions Service
+ * Normalizes an employee's deductions into a list and assigns them to provider deduction slots
+ */
+
+import type { Deduction, DeductionRules, DeductionType, EmployeeRecord } from '../types';
+
+/**
+ * All deduction types in their natural order
+ */
+export const DEDUCTION_TYPES: DeductionType[] = [
+  'health',
+  'retirement',
+  'retirement_loan',
+  'garnishment',
+  'union_dues',
+  'disability'
+];
+
+/**
+ * Parses a money/percent string, treating blanks and invalid values as 0
+ */
+function parseAmount(value?: string): number {
+  const parsed = parseFloat((value || '').replace(/[$,%]/g, ''));
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Trims an optional employee field
+ */
+function text(value?: string): string {
+  return (value || '').trim();
+}
+
+/**
+ * Derives the normalized deduction list from an employee record
+ * @param employee Employee record
+ * @returns Deductions in natural order (health, retirement, loan, garnishment, union dues, disability)
+ */
+export function normalizeDeductions(employee: EmployeeRecord): Deduction[] {
+  const deductions: Deduction[] = [];
+  const startDate = text(employee.hire_date) || undefined;
+
+  if (text(employee.health_plan_name)) {
+    deductions.push({
+      type: 'health',
+      code: text(employee.health_plan_name),
+      amount: text(employee.health_deduction_per_paycheck),
+      taxTreatment: 'pre-tax',
+      startDate,
+      sourceField: 'health_plan_name'
+    });
+  }
+
+  if (text(employee.retirement_plan_type)) {
+    const code = text(employee.retirement_plan_type);
+    deductions.push({
+      type: 'retirement',
+      code,
+      percent: text(employee.retirement_contribution_percent),
+      taxTreatment: /roth/i.test(code) ? 'post-tax' : 'pre-tax',
+      startDate,
+      sourceField: 'retirement_plan_type'
+    });
+  }
+
+  if (parseAmount(employee.retirement_loan_repayment) > 0) {
+    deductions.push({
+      type: 'retirement_loan',
+      code: '401k Loan',
+      amount: text(employee.retirement_loan_repayment),
+      taxTreatment: 'post-tax',
+      startDate,
+      sourceField: 'retirement_loan_repayment'
+    });
+  }
+
+  if (text(employee.garnishment_type)) {
+    deductions.push({
+      type: 'garnishment',
+      code: text(employee.garnishment_type),
+      amount: text(employee.garnishment_amount_per_paycheck),
+      taxTreatment: 'post-tax',
+      startDate,
+      sourceField: 'garnishment_type'
+    });
+  }
+
+  if (parseAmount(employee.union_dues_amount_per_paycheck) > 0) {
+    deductions.push({
+      type: 'union_dues',
+      code: 'Union Dues',
+      amount: text(employee.union_dues_amount_per_paycheck),
+      taxTreatment: 'post-tax',
+      startDate: text(employee.union_start_date) || startDate,
+      sourceField: 'union_dues_amount_per_paycheck'
+    });
+  }
+
+  if (text(employee.disability_plan_code)) {
+    deductions.push({
+      type: 'disability',
+      code: text(employee.disability_plan_code),
+      taxTreatment: 'post-tax',
+      startDate,
+      sourceField: 'disability_plan_code'
+    });
+  }
+
+  return deductions;
+}
+
+/**
+ * Result of assigning deductions to slots
+ */
+export interface SlotAssignment {
+  slots: (Deduction | null)[]; // Deduction placed in each slot (null when unused)
+  leftovers: Deduction[]; // Deductions that did not fit any slot
+}
+
+/**
+ * Places deductions into slots in priority order
+ * @param deductions Normalized deductions
+ * @param rules Provider deduction rules
+ * @returns Slot contents and leftover deductions
+ */
+export function assignDeductionSlots(deductions: Deduction[], rules: DeductionRules): SlotAssignment {
+  const rank = (type: DeductionType) => {
+    const index = rules.priority.indexOf(type);
+    return index >= 0 ? index : rules.priority.length + DEDUCTION_TYPES.indexOf(type);
+  };
+  const ordered = [...deductions].sort((a, b) => rank(a.type) - rank(b.type));
+
+  const slots: (Deduction | null)[] = rules.slots.map(() => null);
+  const leftovers: Deduction[] = [];
+
+  for (const deduction of ordered) {
+    const slotIndex = rules.slots.findIndex((slot, index) =>
+      slots[index] === null && (!slot.types || slot.types.length === 0 || slot.types.includes(deduction.type))
+    );
+    if (slotIndex >= 0) {
+      slots[slotIndex] = deduction;
+    } else {
+      leftovers.push(deduction);
+    }
+  }
+
+  return { slots, leftovers };
+}
@@ -0,0 +1,296 @@
+/**
+ * Duplicate Detection Service
+ * Finds employees that appear twice in an upload, or were already exported in an earlier run
+ */
+
+import type { EmployeeRecord, ErrorLink, ExportedEmployee, ExportHistory } from '../types';
+import { sha256Hex } from '../utils/sha256';
+
+/**
+ * How two records were matched
+ */
+export type DuplicateKind = 'employee_id' | 'ssn' | 'name_dob';
+
+/**
+ * Record that duplicates other rows of the upload or earlier exports
+ */
+export interface DuplicateMatch {
+  index: number; // Index of the duplicate in the employee list
+  kind: DuplicateKind;
+  field: keyof EmployeeRecord;
+  value: string;
+  links: ErrorLink[];
+  message: string;
+  suggestedFix: string;
+}
+
+/**
+ * Comparable identity of one uploaded employee
+ */
+interface Identity {
+  employeeId: string;
+  ssn: string; // 9 digits, blank when masked or invalid
+  firstName: string; // Lowercase letters only
+  lastName: string;
+  dob: string;
+  displayName: string;
+  ssnHash: string; // Hashed with the export history's salt, to compare against earlier exports
+  nameDobHash: string;
+}
+
+/**
+ * Hashed identity stored in the export history
+ */
+export interface IdentityHashes {
+  ssnHash: string;
+  nameDobHash: string;
+}
+
+/**
+ * Normalizes a full SSN to its digits (masked SSNs like XXX-XX-1234 cannot be compared and give '')
+ */
+function normalizeSsn(ssn: string | undefined): string {
+  const digits = (ssn || '').replace(/[\s-]/g, '');
+  return /^\d{9}$/.test(digits) ? digits : '';
+}
+
+/**
+ * Normalizes a name for fuzzy comparison
+ */
+function normalizeName(name: string | undefined): string {
+  return (name || '').toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Salted hashes of an employee's SSN and of their last name + date of birth
+ * Only exact matches can be found in hashed values, so names and dates are normalized first
+ * @param ssn Full SSN (masked or invalid SSNs give a blank hash)
+ * @param lastName Last name
+ * @param dob Date of birth
+ * @param salt Salt of the export history
+ */
+export function hashIdentity(ssn: string, lastName: string, dob: string, salt: string): IdentityHashes {
+  const normalizedSsn = normalizeSsn(ssn);
+  const normalizedLastName = normalizeName(lastName);
+  const normalizedDob = (dob || '').trim();
+  return {
+    ssnHash: normalizedSsn ? sha256Hex(`${salt}|${normalizedSsn}`) : '',
+    nameDobHash: normalizedLastName && normalizedDob ? sha256Hex(`${salt}|${normalizedLastName}|${normalizedDob}`) : ''
+  };
+}
+
+function toIdentity(employee: EmployeeRecord, salt: string): Identity {
+  return {
+    employeeId: (employee.employee_id || '').trim(),
+    ssn: normalizeSsn(employee.ssn),
+    firstName: normalizeName(employee.first_name),
+    lastName: normalizeName(employee.last_name),
+    dob: (employee.dob || '').trim(),
+    displayName: `${employee.first_name || ''} ${employee.last_name || ''}`.trim(),
+    ...hashIdentity(employee.ssn, employee.last_name, employee.dob, salt)
+  };
+}
+
+/**
+ * Levenshtein distance, capped: returns max + 1 as soon as the distance is known to exceed max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Checks whether two first names could be the same person (typo, or a short form like "Jon"/"Jonathan")
+ */
+function similarFirstNames(a: string, b: string): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a.length >= 3 && b.length >= 3 && (a.startsWith(b) || b.startsWith(a))) {
+    return true;
+  }
+  return editDistance(a, b, 1) <= 1;
+}
+
+/**
+ * Fuzzy name + date of birth match (same DOB, last names within one typo, similar first names, or first/last swapped)
+ */
+function isNameDobMatch(a: Identity, b: Identity): boolean {
+  if (!a.dob || a.dob !== b.dob || !a.lastName || !b.lastName) {
+    return false;
+  }
+  const sameOrder = editDistance(a.lastName, b.lastName, 1) <= 1 && similarFirstNames(a.firstName, b.firstName);
+  const swapped = a.firstName === b.lastName && a.lastName === b.firstName;
+  return sameOrder || swapped;
+}
+
+const KIND_FIELDS: Record<DuplicateKind, keyof EmployeeRecord> = {
+  employee_id: 'employee_id',
+  ssn: 'ssn',
+  name_dob: 'last_name'
+};
+
+const KIND_LABELS: Record<DuplicateKind, string> = {
+  employee_id: 'employee_id',
+  ssn: 'SSN',
+  name_dob: 'name and date of birth'
+};
+
+/**
+ * Finds duplicate employees within an upload and against previously exported employees
+ * Exact employee_id and SSN matches are reported first; a name + DOB match is only reported for
+ * records not already matched on employee_id or SSN. Masked SSNs are not compared.
+ * Rows of the upload are compared by fuzzy name + DOB; earlier exports keep only hashes, so they
+ * match on the exact (normalized) last name and DOB.
+ * @param employees Employees of the upload, in row order (row = index + 1)
+ * @param history Employees exported in earlier runs
+ * @returns One match per duplicate record and kind
+ */
+export function findDuplicateEmployees(employees: EmployeeRecord[], history: ExportHistory): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = [];
+  const identities = employees.map(employee => toIdentity(employee, history.salt));
+
+  const rowLink = (index: number): ErrorLink => ({
+    employeeId: identities[index].employeeId,
+    label: `Row ${index + 1}: ${identities[index].employeeId || 'no id'} ${identities[index].displayName}`.trim(),
+    row: index + 1
+  });
+  const exportLink = (entry: ExportedEmployee): ErrorLink => ({
+    employeeId: entry.employeeId,
+    label: `Batch ${entry.batchId} (${entry.exportedAt.slice(0, 10)}, ${entry.providers.join(', ')}): employee ${entry.employeeId}`,
+    batchId: entry.batchId,
+    exportedAt: entry.exportedAt
+  });
+
+  const keyOf: Record<'employee_id' | 'ssn', (identity: Identity) => string> = {
+    employee_id: identity => identity.employeeId,
+    ssn: identity => identity.ssn
+  };
+  const exportKeyOf: Record<'employee_id' | 'ssn', (identity: IdentityHashes & { employeeId: string }) => string> = {
+    employee_id: identity => identity.employeeId,
+    ssn: identity => identity.ssnHash
+  };
+  // Pairs already reported (by exact match), so fuzzy matching does not repeat them
+  const matchedRows = new Set<string>();
+  const matchedExports = new Set<string>();
+
+  for (const kind of ['employee_id', 'ssn'] as const) {
+    const rowsByKey = new Map<string, number[]>();
+    identities.forEach((identity, index) => {
+      const key = keyOf[kind](identity);
+      if (key) {
+        rowsByKey.set(key, [...(rowsByKey.get(key) || []), index]);
+      }
+    });
+    const exportsByKey = new Map<string, ExportedEmployee[]>();
+    history.employees.forEach(entry => {
+      const key = exportKeyOf[kind](entry);
+      if (key) {
+        exportsByKey.set(key, [...(exportsByKey.get(key) || []), entry]);
+      }
+    });
+
+    identities.forEach((identity, index) => {
+      const key = keyOf[kind](identity);
+      if (!key) {
+        return;
+      }
+      const value = String(employees[index][KIND_FIELDS[kind]] ?? '');
+
+      // Within the upload: every copy after the first is reported, linked to the other copies
+      const rows = rowsByKey.get(key) || [];
+      if (rows.length > 1 && rows[0] !== index) {
+        rows.forEach(other => {
+          matchedRows.add(`${Math.min(index, other)}:${Math.max(index, other)}`);
+        });
+        matches.push({
+          index,
+          kind,
+          field: KIND_FIELDS[kind],
+          value,
+          links: rows.filter(other => other !== index).map(rowLink),
+          message: `Duplicate ${KIND_LABELS[kind]} '${value}': also on ${rows.filter(other => other !== index).map(other => `row ${other + 1}`).join(', ')} of this file`,
+          suggestedFix: 'Remove the repeated row, or correct the value if these are different people'
+        });
+      }
+
+      // Against earlier exports
+      const exported = exportsByKey.get(exportKeyOf[kind](identity)) || [];
+      if (exported.length > 0) {
+        exported.forEach(entry => matchedExports.add(`${index}:${entry.employeeId}`));
+        matches.push({
+          index,
+          kind,
+          field: KIND_FIELDS[kind],
+          value,
+          links: exported.map(exportLink),
+          message: `${kind === 'ssn' ? 'SSN' : `Employee ${value}`} was already exported in batch ${exported.map(entry => entry.batchId).join(', ')} - sending it again creates a duplicate employee at the provider`,
+          suggestedFix: 'Remove the employee from this upload, or clear the export history in Settings if the earlier export was never loaded'
+        });
+      }
+    });
+  }
+
+  // Fuzzy name + DOB, grouped by DOB to keep the comparison small
+  const byDob = new Map<string, number[]>();
+  identities.forEach((identity, index) => {
+    if (identity.dob) {
+      byDob.set(identity.dob, [...(byDob.get(identity.dob) || []), index]);
+    }
+  });
+  const exportsByNameDob = new Map<string, ExportedEmployee[]>();
+  history.employees.forEach(entry => {
+    if (entry.nameDobHash) {
+      exportsByNameDob.set(entry.nameDobHash, [...(exportsByNameDob.get(entry.nameDobHash) || []), entry]);
+    }
+  });
+  identities.forEach((identity, index) => {
+    const earlierRows = (byDob.get(identity.dob) || []).filter(other =>
+      other < index &&
+      !matchedRows.has(`${other}:${index}`) &&
+      isNameDobMatch(identity, identities[other])
+    );
+    if (earlierRows.length > 0) {
+      matches.push({
+        index,
+        kind: 'name_dob',
+        field: 'last_name',
+        value: identity.displayName,
+        links: earlierRows.map(rowLink),
+        message: `Possible duplicate: ${identity.displayName} (born ${identity.dob}) looks like ${earlierRows.map(other => `row ${other + 1}`).join(', ')} of this file`,
+        suggestedFix: 'Check whether these rows are the same person; remove the repeated row or correct the name or date of birth'
+      });
+    }
+
+    const exported = (identity.nameDobHash ? exportsByNameDob.get(identity.nameDobHash) || [] : [])
+      .filter(entry => !matchedExports.has(`${index}:${entry.employeeId}`));
+    if (exported.length > 0) {
+      matches.push({
+        index,
+        kind: 'name_dob',
+        field: 'last_name',
+        value: identity.displayName,
+        links: exported.map(exportLink),
+        message: `Possible duplicate: ${identity.displayName} (born ${identity.dob}) has the same last name and date of birth as employee ${exported.map(entry => entry.employeeId).join(', ')} exported in an earlier run`,
+        suggestedFix: 'Check whether this is the same person under a new employee_id; remove the row or correct the name or date of birth'
+      });
+    }
+  });
+
+  return matches.sort((a, b) => a.index - b.index);
+}
@@ -0,0 +1,103 @@
+/**
+ * Envelope Service
+ * Evaluates provider file header/trailer records and their control totals
+ */
+
+import type { BatchInfo, EnvelopeField, MoneySettings, ProviderRecord } from '../types';
+import { evaluateExpression } from './expressionEngine';
+import type { ExpressionScope } from './expressionEngine';
+import { toNumber, toText } from './expressionValues';
+import { createMoneyFunctions } from './expressionFunctions';
+import { DEFAULT_MONEY_SETTINGS, ZERO, addDecimals, decimalToString, parseDecimal } from './money';
+
+/**
+ * Variables available to envelope expressions
+ */
+export const ENVELOPE_VARIABLES = ['batch_id', 'employer_id', 'created_at', 'record_count'];
+
+/**
+ * Reads a column from every record, rejecting columns the file does not contain
+ */
+function columnValues(records: ProviderRecord[], column: string): string[] {
+  if (records.length > 0 && !(column in records[0])) {
+    throw new Error(`unknown column '${column}'`);
+  }
+  return records.map(record => record[column] ?? '');
+}
+
+/**
+ * Sums a numeric column exactly (amounts such as "$1,234.50" are accepted, blanks count as 0)
+ * @returns Decimal string of the total
+ */
+export function sumColumn(records: ProviderRecord[], column: string): string {
+  const total = columnValues(records, column).reduce((sum, value) => addDecimals(sum, parseDecimal(value) ?? ZERO), ZERO);
+  return decimalToString(total);
+}
+
+/**
+ * Hash total of an identifier column (e.g., routing numbers)
+ * Non-digits are ignored and only the rightmost `digits` digits of the sum are kept,
+ * matching the usual bank file convention so the total never overflows its field
+ */
+export function hashTotalColumn(records: ProviderRecord[], column: string, digits = 10): string {
+  const total = columnValues(records, column).reduce((sum, value) => {
+    const numeric = value.replace(/\D/g, '');
+    return numeric ? sum + BigInt(numeric) : sum;
+  }, BigInt(0));
+  const text = total.toString();
+  return text.length > digits ? text.slice(text.length - digits) : text;
+}
+
+/**
+ * Builds the expression scope for envelope fields
+ */
+function createEnvelopeScope(records: ProviderRecord[], batch: BatchInfo, money: MoneySettings): ExpressionScope {
+  const variables: Record<string, string | number> = {
+    batch_id: batch.batchId,
+    employer_id: batch.employerId,
+    created_at: batch.createdAt,
+    record_count: records.length
+  };
+
+  return {
+    resolve: (name: string) => {
+      if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+        throw new Error(`unknown variable '${name}' (available: ${ENVELOPE_VARIABLES.join(', ')})`);
+      }
+      return variables[name];
+    },
+    functions: {
+      ...createMoneyFunctions(money),
+      sum: ([column]) => sumColumn(records, toText(column)),
+      hashTotal: ([column, digits]) => hashTotalColumn(records, toText(column), digits === undefined ? 10 : toNumber(digits))
+    }
+  };
+}
+
+/**
+ * Evaluates a header or trailer record
+ * @param fields Envelope field definitions
+ * @param records Detail records in the file (control totals are computed over these)
+ * @param batch Batch identity for the processing run
+ * @param money Money settings of the provider mapping (rounding and formatting of totals)
+ * @returns Record keyed by envelope field name
+ */
+export function evaluateEnvelopeRecord(
+  fields: EnvelopeField[],
+  records: ProviderRecord[],
+  batch: BatchInfo,
+  money: MoneySettings = DEFAULT_MONEY_SETTINGS
+): ProviderRecord {
+  const scope = createEnvelopeScope(records, batch, money);
+  const record: ProviderRecord = {};
+
+  for (const field of fields) {
+    try {
+      record[field.name] = toText(evaluateExpression(field.expression, scope));
+    } catch (error) {
+      throw new Error(`Envelope field '${field.name}' failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return record;
+}
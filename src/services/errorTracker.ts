@@ -3,11 +3,30 @@
  * Manages error tracking, corrections, and audit trails
  */
 
-import type { ProcessingError, ErrorCorrection } from '../types';
+import type { CsvDialect, ProcessingError, ErrorCorrection } from '../types';
+import { arrayToCSV, DEFAULT_CSV_DIALECT } from '../utils/csvWriter';
+import { createWorkbook } from '../utils/xlsxWriter';
 
 const ERROR_STORAGE_KEY = 'payroll_errors';
 const CORRECTION_STORAGE_KEY = 'payroll_corrections';
 
+/**
+ * Error report columns (written even when there are no errors)
+ */
+const ERROR_REPORT_HEADERS = [
+  'Error ID',
+  'Row',
+  'Field',
+  'Original Value',
+  'Error Type',
+  'Error Message',
+  'Suggested Fix',
+  'Conflicts With',
+  'Corrected Value',
+  'Corrected At',
+  'Timestamp'
+];
+
 /**
  * Generates a unique error ID
  */
@@ -105,10 +124,10 @@ export function clearStoredCorrections(): void {
 }
 
 /**
- * Generates an error report CSV content
+ * Builds error report rows (one per error, with its latest correction)
  */
-export function generateErrorReport(errors: ProcessingError[], corrections: ErrorCorrection[]): string {
-  const report = errors.map(error => {
+function buildErrorReportRows(errors: ProcessingError[], corrections: ErrorCorrection[]) {
+  return errors.map(error => {
     const errorCorrections = corrections.filter(c => c.errorId === error.id);
     const latestCorrection = errorCorrections.length > 0 
       ? errorCorrections[errorCorrections.length - 1]
@@ -122,22 +141,41 @@ export function generateErrorReport(errors: ProcessingError[], corrections: Erro
       'Error Type': error.errorType,
       'Error Message': error.message,
       'Suggested Fix': error.suggestedFix || '',
+      'Conflicts With': (error.links || []).map(link => link.label).join('; '),
       'Corrected Value': latestCorrection?.correctedValue || '',
       'Corrected At': latestCorrection?.correctedAt || '',
       'Timestamp': error.timestamp
     };
   });
+}
 
-  // Convert to CSV
-  const headers = Object.keys(report[0] || {});
-  const rows = report.map(row => 
-    headers.map(header => {
-      const value = row[header as keyof typeof row];
-      return value?.toString().includes(',') ? `"${value}"` : value;
-    }).join(',')
-  );
+/**
+ * Generates an error report CSV content
+ * @param errors Errors to report
+ * @param corrections Recorded corrections (the latest correction per error is included)
+ * @param dialect Delimited file dialect (defaults to plain CSV)
+ */
+export function generateErrorReport(
+  errors: ProcessingError[],
+  corrections: ErrorCorrection[],
+  dialect: CsvDialect = DEFAULT_CSV_DIALECT
+): string {
+  return arrayToCSV(buildErrorReportRows(errors, corrections), ERROR_REPORT_HEADERS, dialect);
+}
 
-  return [headers.join(','), ...rows].join('\n');
+/**
+ * Generates an error report workbook (original values are kept as text so leading zeros survive)
+ * @param errors Errors to report
+ * @param corrections Recorded corrections (the latest correction per error is included)
+ * @returns Workbook bytes
+ */
+export function generateErrorReportWorkbook(errors: ProcessingError[], corrections: ErrorCorrection[]): Uint8Array<ArrayBuffer> {
+  return createWorkbook([{
+    name: 'Errors',
+    headers: ERROR_REPORT_HEADERS,
+    rows: buildErrorReportRows(errors, corrections),
+    textColumns: ['Original Value', 'Corrected Value']
+  }]);
 }
 
 export { generateErrorId };
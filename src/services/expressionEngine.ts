@@ -0,0 +1,413 @@
+/**
+ * Expression Engine Service
+ * Parses and evaluates the JSON-safe transformation expression language used by field mappings
+ *
+ * Syntax overview:
+ *   - Literals: "text", 'text', 123.45, true, false, null, {"Single": "S", "Married": "M"}
+ *   - Field references: bare identifiers resolve to employee fields (e.g., first_name);
+ *     `value` is the mapped source field value
+ *   - Operators: + - * / % (numeric), & (concatenation), == != < > <= >=, && || !, cond ? a : b
+ *   - Function calls: name(arg, ...) from the built-in library (see expressionFunctions)
+ */
+
+import { expressionFunctions } from './expressionFunctions';
+import type { ExpressionFunction } from './expressionFunctions';
+import { toNumber, toText, isTruthy } from './expressionValues';
+import type { ExpressionValue } from './expressionValues';
+
+export type { ExpressionValue } from './expressionValues';
+
+/**
+ * Parsed expression node
+ */
+export type ExpressionNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'object'; entries: { key: string; value: ExpressionNode }[] }
+  | { type: 'identifier'; name: string }
+  | { type: 'unary'; operator: '!' | '-'; operand: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+/**
+ * Evaluation scope - resolves identifiers to values
+ * `functions` can add context-bound functions (e.g., crosswalk) on top of the built-in library
+ */
+export interface ExpressionScope {
+  resolve: (name: string) => ExpressionValue | undefined;
+  functions?: Record<string, ExpressionFunction>;
+}
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'eof';
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '&', '!', '?', ':'];
+const PUNCTUATION = ['(', ')', ',', '{', '}'];
+
+/**
+ * Splits an expression string into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/\d/.test(char) || (char === '.' && /\d/.test(source[i + 1] || ''))) {
+      const match = source.slice(i).match(/^\d*\.?\d+(?:[eE][+-]?\d+)?|^\d+\.?/);
+      const value = match ? match[0] : char;
+      tokens.push({ type: 'number', value, position: i });
+      i += value.length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          const escaped = source[j + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          j += 2;
+        } else {
+          value += source[j];
+          j++;
+        }
+      }
+      if (j >= source.length) {
+        throw new Error(`Expression error at position ${i}: unterminated string`);
+      }
+      tokens.push({ type: 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = source.slice(i).match(/^[A-Za-z_$][\w$]*/);
+      const value = match ? match[0] : char;
+      tokens.push({ type: 'identifier', value, position: i });
+      i += value.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    throw new Error(`Expression error at position ${i}: unexpected character '${char}'`);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser producing an expression tree
+ */
+function parseTokens(tokens: Token[]): ExpressionNode {
+  let index = 0;
+
+  const peek = (): Token => tokens[index];
+  const next = (): Token => tokens[index++];
+  const isOperator = (...values: string[]) => peek().type === 'operator' && values.includes(peek().value);
+  const isPunctuation = (value: string) => peek().type === 'punctuation' && peek().value === value;
+  const expect = (value: string) => {
+    const token = next();
+    if ((token.type !== 'punctuation' && token.type !== 'operator') || token.value !== value) {
+      throw new Error(`Expression error at position ${token.position}: expected '${value}'`);
+    }
+  };
+
+  const parseBinary = (operators: string[], parseOperand: () => ExpressionNode) => (): ExpressionNode => {
+    let left = parseOperand();
+    while (isOperator(...operators)) {
+      const operator = next().value;
+      const right = parseOperand();
+      left = { type: 'binary', operator, left, right };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+
+    if (token.type === 'number') {
+      return { type: 'literal', value: parseFloat(token.value) };
+    }
+    if (token.type === 'string') {
+      return { type: 'literal', value: token.value };
+    }
+    if (token.type === 'identifier') {
+      if (token.value === 'true' || token.value === 'false') {
+        return { type: 'literal', value: token.value === 'true' };
+      }
+      if (token.value === 'null') {
+        return { type: 'literal', value: null };
+      }
+      if (isPunctuation('(')) {
+        next();
+        const args: ExpressionNode[] = [];
+        if (!isPunctuation(')')) {
+          args.push(parseExpression());
+          while (isPunctuation(',')) {
+            next();
+            args.push(parseExpression());
+          }
+        }
+        expect(')');
+        return { type: 'call', name: token.value, args };
+      }
+      return { type: 'identifier', name: token.value };
+    }
+    if (token.type === 'punctuation' && token.value === '(') {
+      const inner = parseExpression();
+      expect(')');
+      return inner;
+    }
+    if (token.type === 'punctuation' && token.value === '{') {
+      const entries: { key: string; value: ExpressionNode }[] = [];
+      if (!isPunctuation('}')) {
+        do {
+          if (isPunctuation(',')) {
+            next();
+          }
+          const keyToken = next();
+          if (keyToken.type !== 'string' && keyToken.type !== 'identifier' && keyToken.type !== 'number') {
+            throw new Error(`Expression error at position ${keyToken.position}: expected object key`);
+          }
+          expect(':');
+          entries.push({ key: keyToken.value, value: parseExpression() });
+        } while (isPunctuation(','));
+      }
+      expect('}');
+      return { type: 'object', entries };
+    }
+
+    throw new Error(
+      token.type === 'eof'
+        ? 'Expression error: unexpected end of expression'
+        : `Expression error at position ${token.position}: unexpected '${token.value}'`
+    );
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isOperator('!', '-')) {
+      const operator = next().value as '!' | '-';
+      return { type: 'unary', operator, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parseMultiplicative = parseBinary(['*', '/', '%'], parseUnary);
+  const parseAdditive = parseBinary(['+', '-'], parseMultiplicative);
+  const parseConcat = parseBinary(['&'], parseAdditive);
+  const parseComparison = parseBinary(['<', '>', '<=', '>='], parseConcat);
+  const parseEquality = parseBinary(['==', '!='], parseComparison);
+  const parseAnd = parseBinary(['&&'], parseEquality);
+  const parseOr = parseBinary(['||'], parseAnd);
+
+  function parseExpression(): ExpressionNode {
+    const test = parseOr();
+    if (isOperator('?')) {
+      next();
+      const consequent = parseExpression();
+      expect(':');
+      const alternate = parseExpression();
+      return { type: 'conditional', test, consequent, alternate };
+    }
+    return test;
+  }
+
+  const root = parseExpression();
+  if (peek().type !== 'eof') {
+    throw new Error(`Expression error at position ${peek().position}: unexpected '${peek().value}'`);
+  }
+  return root;
+}
+
+const compiledCache = new Map<string, ExpressionNode>();
+
+/**
+ * Parses an expression string (results are cached per source string)
+ * @param source Expression source
+ * @returns Parsed expression tree
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const cached = compiledCache.get(source);
+  if (cached) {
+    return cached;
+  }
+  const node = parseTokens(tokenize(source));
+  compiledCache.set(source, node);
+  return node;
+}
+
+/**
+ * Compares two values for equality (numerically when both sides are numeric)
+ */
+function areEqual(left: ExpressionValue, right: ExpressionValue): boolean {
+  const numericPattern = /^-?\d+(\.\d+)?$/;
+  const leftText = toText(left);
+  const rightText = toText(right);
+  if (numericPattern.test(leftText) && numericPattern.test(rightText)) {
+    return parseFloat(leftText) === parseFloat(rightText);
+  }
+  return leftText === rightText;
+}
+
+/**
+ * Finds a function by name: scope functions first, then the built-in library
+ * Only own entries count, so names like `constructor` or `toString` stay unknown
+ */
+function lookupFunction(name: string, scope: ExpressionScope): ExpressionFunction | undefined {
+  if (scope.functions && Object.prototype.hasOwnProperty.call(scope.functions, name)) {
+    return scope.functions[name];
+  }
+  return Object.prototype.hasOwnProperty.call(expressionFunctions, name) ? expressionFunctions[name] : undefined;
+}
+
+/**
+ * Evaluates a parsed expression tree
+ * @param node Expression tree
+ * @param scope Identifier scope
+ * @returns Expression value
+ */
+export function evaluateNode(node: ExpressionNode, scope: ExpressionScope): ExpressionValue {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'object': {
+      const result: { [key: string]: ExpressionValue } = {};
+      for (const entry of node.entries) {
+        result[entry.key] = evaluateNode(entry.value, scope);
+      }
+      return result;
+    }
+    case 'identifier': {
+      const resolved = scope.resolve(node.name);
+      return resolved === undefined ? '' : resolved;
+    }
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope);
+      return node.operator === '!' ? !isTruthy(operand) : -toNumber(operand);
+    }
+    case 'conditional':
+      return isTruthy(evaluateNode(node.test, scope))
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+    case 'binary': {
+      // Logical operators short-circuit and return booleans
+      if (node.operator === '&&') {
+        return isTruthy(evaluateNode(node.left, scope)) && isTruthy(evaluateNode(node.right, scope));
+      }
+      if (node.operator === '||') {
+        return isTruthy(evaluateNode(node.left, scope)) || isTruthy(evaluateNode(node.right, scope));
+      }
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      switch (node.operator) {
+        case '&': return toText(left) + toText(right);
+        case '+': return toNumber(left) + toNumber(right);
+        case '-': return toNumber(left) - toNumber(right);
+        case '*': return toNumber(left) * toNumber(right);
+        case '/': return toNumber(right) === 0 ? 0 : toNumber(left) / toNumber(right);
+        case '%': return toNumber(right) === 0 ? 0 : toNumber(left) % toNumber(right);
+        case '==': return areEqual(left, right);
+        case '!=': return !areEqual(left, right);
+        case '<': return toNumber(left) < toNumber(right);
+        case '>': return toNumber(left) > toNumber(right);
+        case '<=': return toNumber(left) <= toNumber(right);
+        case '>=': return toNumber(left) >= toNumber(right);
+        default:
+          throw new Error(`Expression error: unsupported operator '${node.operator}'`);
+      }
+    }
+    case 'call': {
+      // `if` is evaluated lazily so only the taken branch runs
+      if (node.name === 'if') {
+        if (node.args.length < 2 || node.args.length > 3) {
+          throw new Error('Expression error: if() expects 2 or 3 arguments');
+        }
+        if (isTruthy(evaluateNode(node.args[0], scope))) {
+          return evaluateNode(node.args[1], scope);
+        }
+        return node.args[2] ? evaluateNode(node.args[2], scope) : '';
+      }
+      const fn = lookupFunction(node.name, scope);
+      if (!fn) {
+        throw new Error(`Expression error: unknown function '${node.name}'`);
+      }
+      return fn(node.args.map(arg => evaluateNode(arg, scope)));
+    }
+  }
+}
+
+/**
+ * Parses and evaluates an expression
+ * @param source Expression source
+ * @param scope Identifier scope
+ * @returns Expression value
+ */
+export function evaluateExpression(source: string, scope: ExpressionScope): ExpressionValue {
+  return evaluateNode(parseExpression(source), scope);
+}
+
+/**
+ * Collects identifiers and function names referenced by an expression
+ * @param source Expression source
+ * @returns Referenced identifiers and function names
+ */
+export function collectReferences(source: string): { identifiers: string[]; functions: string[] } {
+  const identifiers = new Set<string>();
+  const functions = new Set<string>();
+
+  const visit = (node: ExpressionNode) => {
+    switch (node.type) {
+      case 'identifier':
+        identifiers.add(node.name);
+        break;
+      case 'object':
+        node.entries.forEach(entry => visit(entry.value));
+        break;
+      case 'unary':
+        visit(node.operand);
+        break;
+      case 'binary':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'conditional':
+        visit(node.test);
+        visit(node.consequent);
+        visit(node.alternate);
+        break;
+      case 'call':
+        functions.add(node.name);
+        node.args.forEach(visit);
+        break;
+      default:
+        break;
+    }
+  };
+
+  visit(parseExpression(source));
+  return { identifiers: Array.from(identifiers), functions: Array.from(functions) };
+}
@@ -0,0 +1,207 @@
+/**
+ * Expression Function Library
+ * Safe built-in functions available to transformation expressions
+ * Functions are pure: they only see their arguments, never the DOM, storage or network
+ */
+
+import type { MoneySettings } from '../types';
+import type { ExpressionValue } from './expressionValues';
+import { toNumber, toText, isTruthy } from './expressionValues';
+import type { Decimal } from './money';
+import {
+  DEFAULT_MONEY_SETTINGS,
+  ZERO,
+  parseDecimal,
+  decimalFromInteger,
+  multiplyDecimals,
+  divideDecimals,
+  roundDecimal,
+  decimalToString,
+  formatMoney,
+  periodAmount
+} from './money';
+
+export type ExpressionFunction = (args: ExpressionValue[]) => ExpressionValue;
+
+/**
+ * Pay periods per year for each supported pay frequency
+ */
+export const PAY_PERIODS_PER_YEAR: Record<string, number> = {
+  'Weekly': 52,
+  'Bi-weekly': 26,
+  'Semi-monthly': 24,
+  'Monthly': 12
+};
+
+/**
+ * Converts a value to an exact decimal (empty/invalid values become 0)
+ */
+function toDecimal(value: ExpressionValue | undefined): Decimal {
+  if (typeof value === 'number' || typeof value === 'string') {
+    return parseDecimal(value) ?? ZERO;
+  }
+  return typeof value === 'boolean' && value ? decimalFromInteger(1) : ZERO;
+}
+
+const ONE_PERCENT: Decimal = { units: 1n, scale: 2 };
+
+/**
+ * Most decimals a rounding or formatting function accepts
+ */
+const MAX_DECIMALS = 20;
+
+/**
+ * Reads the decimals argument of round, fixed and formatNumber (a whole number from 0 to 20)
+ */
+function toDecimals(name: string, value: ExpressionValue | undefined, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const decimals = toNumber(value);
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+    throw new Error(`Expression error: ${name}() decimals must be a whole number from 0 to ${MAX_DECIMALS}, got ${toText(value)}`);
+  }
+  return decimals;
+}
+
+/**
+ * Pay periods per year for a pay frequency (defaults to bi-weekly)
+ */
+function periodsPerYear(payFrequency: ExpressionValue): number {
+  return PAY_PERIODS_PER_YEAR[toText(payFrequency)] ?? 26;
+}
+
+/**
+ * Standard hours per pay period from weekly hours (e.g., 40 hours weekly is 80 hours bi-weekly)
+ */
+function calculateStandardHours(hoursPerWeek: ExpressionValue, payFrequency: ExpressionValue): string {
+  const annualHours = multiplyDecimals(toDecimal(hoursPerWeek), decimalFromInteger(52));
+  return decimalToString(divideDecimals(annualHours, decimalFromInteger(periodsPerYear(payFrequency)), 4, 'half-up'));
+}
+
+/**
+ * Annual pay for either rate type (hourly pay is annualized from standard weekly hours)
+ */
+function calculateAnnualPay(
+  payRateType: ExpressionValue,
+  annualSalary: ExpressionValue,
+  hourlyRate: ExpressionValue,
+  hoursPerWeek: ExpressionValue
+): string {
+  if (toText(payRateType) === 'Hourly') {
+    const weekly = multiplyDecimals(toDecimal(hourlyRate), toDecimal(hoursPerWeek));
+    return decimalToString(multiplyDecimals(weekly, decimalFromInteger(52)));
+  }
+  return decimalToString(toDecimal(annualSalary));
+}
+
+/**
+ * Formats a YYYY-MM-DD date using a pattern of YYYY, YY, MM, M, DD and D tokens
+ */
+function formatDate(value: ExpressionValue, pattern: ExpressionValue): string {
+  const text = toText(value).trim();
+  const match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) {
+    return text;
+  }
+  const [, year, month, day] = match;
+  return toText(pattern).replace(/YYYY|YY|MM|M|DD|D/g, token => {
+    switch (token) {
+      case 'YYYY': return year;
+      case 'YY': return year.slice(2);
+      case 'MM': return month;
+      case 'M': return String(parseInt(month, 10));
+      case 'DD': return day;
+      default: return String(parseInt(day, 10));
+    }
+  });
+}
+
+/**
+ * Formats a number with fixed decimals and an optional thousands separator
+ */
+function formatNumber(value: ExpressionValue, decimals: ExpressionValue, separator: ExpressionValue): string {
+  const places = toDecimals('formatNumber', decimals, 2);
+  const fixed = decimalToString(roundDecimal(toDecimal(value), places, DEFAULT_MONEY_SETTINGS.rounding));
+  const sep = toText(separator);
+  if (!sep) {
+    return fixed;
+  }
+  const [whole, fraction] = fixed.split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, sep);
+  return fraction !== undefined ? `${grouped}.${fraction}` : grouped;
+}
+
+/**
+ * Rounding and money functions bound to a provider's money settings
+ * Amounts are computed exactly and returned as decimal strings, so chained calls never drift
+ * @param settings Money settings (the transformer passes the mapping's own settings)
+ */
+export function createMoneyFunctions(settings: MoneySettings): Record<string, ExpressionFunction> {
+  return {
+    round: ([value, decimals]) =>
+      Number(decimalToString(roundDecimal(toDecimal(value), toDecimals('round', decimals, 0), settings.rounding))),
+    fixed: ([value, decimals]) =>
+      decimalToString(roundDecimal(toDecimal(value), toDecimals('fixed', decimals, 2), settings.rounding)),
+    money: ([value]) => (toText(value).trim() === '' ? '' : formatMoney(toDecimal(value), settings)),
+    percentOf: ([amount, percent]) =>
+      decimalToString(multiplyDecimals(multiplyDecimals(toDecimal(amount), toDecimal(percent)), ONE_PERCENT)),
+    perPaycheck: ([annualAmount, payFrequency, period]) =>
+      decimalToString(periodAmount(
+        toDecimal(annualAmount),
+        periodsPerYear(payFrequency),
+        settings,
+        period === undefined ? undefined : toNumber(period)
+      ))
+  };
+}
+
+/**
+ * Built-in function library keyed by function name
+ * (`if` is handled by the engine so that only the taken branch is evaluated)
+ */
+export const expressionFunctions: Record<string, ExpressionFunction> = {
+  // Text
+  concat: (args) => args.map(toText).join(''),
+  join: ([separator, ...values]) => values.map(toText).filter(v => v.trim() !== '').join(toText(separator)),
+  upper: ([value]) => toText(value).toUpperCase(),
+  lower: ([value]) => toText(value).toLowerCase(),
+  trim: ([value]) => toText(value).trim(),
+  substr: ([value, start, length]) => {
+    const text = toText(value);
+    const from = toNumber(start);
+    return length === undefined ? text.substr(from) : text.substr(from, toNumber(length));
+  },
+  replace: ([value, search, replacement]) => toText(value).split(toText(search)).join(toText(replacement)),
+  snakeCase: ([value]) => toText(value).toLowerCase().replace(/\s+/g, '_'),
+
+  // Values and lookups
+  coalesce: (args) => args.find(isTruthy) ?? '',
+  isEmpty: ([value]) => !isTruthy(value),
+  lookup: ([value, table, fallback]) => {
+    const key = toText(value);
+    if (table && typeof table === 'object' && Object.prototype.hasOwnProperty.call(table, key)) {
+      return table[key];
+    }
+    return fallback === undefined ? '' : fallback;
+  },
+
+  // Numbers
+  number: ([value]) => toNumber(value),
+  abs: ([value]) => Math.abs(toNumber(value)),
+  min: (args) => Math.min(...args.map(toNumber)),
+  max: (args) => Math.max(...args.map(toNumber)),
+
+  // Formatting
+  formatDate: ([value, pattern]) => formatDate(value, pattern),
+  formatNumber: ([value, decimals, separator]) => formatNumber(value, decimals, separator),
+
+  // Rounding and money (default settings; mappings override these with their own)
+  ...createMoneyFunctions(DEFAULT_MONEY_SETTINGS),
+
+  // Payroll
+  periodsPerYear: ([payFrequency]) => periodsPerYear(payFrequency),
+  standardHours: ([hoursPerWeek, payFrequency]) => calculateStandardHours(hoursPerWeek, payFrequency),
+  annualPay: ([payRateType, annualSalary, hourlyRate, hoursPerWeek]) =>
+    calculateAnnualPay(payRateType, annualSalary, hourlyRate, hoursPerWeek)
+};
@@ -0,0 +1,54 @@
+/**
+ * Expression Values
+ * Runtime value type and conversions shared by the expression engine and its function library
+ */
+
+/**
+ * Runtime value produced by an expression
+ */
+export type ExpressionValue =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: ExpressionValue };
+
+/**
+ * Converts a value to a number (empty/invalid values become 0)
+ */
+export function toNumber(value: ExpressionValue | undefined): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/[$,]/g, ''));
+    return isNaN(parsed) ? 0 : parsed;
+  }
+  return 0;
+}
+
+/**
+ * Converts a value to its output string form
+ */
+export function toText(value: ExpressionValue | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Truthiness used by conditionals: null, '', false and 0 are false
+ */
+export function isTruthy(value: ExpressionValue | undefined): boolean {
+  if (typeof value === 'string') {
+    return value.trim() !== '';
+  }
+  return Boolean(value);
+}
@@ -0,0 +1,89 @@
+/**
+ * Mapping Diff Service
+ * Compares two provider mappings setting by setting
+ */
+
+import type { MappingDiffEntry, ProviderMapping } from '../types';
+
+/**
+ * Properties that identify list items, in order of preference
+ * (field mappings by target column, crosswalk tables by name, layout columns by field, crosswalk entries by source)
+ */
+const ITEM_KEYS = ['targetField', 'name', 'field', 'source'];
+
+/**
+ * Finds the property that uniquely identifies every item of a list, if any
+ */
+function findItemKey(items: unknown[]): string | null {
+  for (const key of ITEM_KEYS) {
+    const values = items.map(item =>
+      item !== null && typeof item === 'object' ? (item as Record<string, unknown>)[key] : undefined
+    );
+    if (values.every(value => typeof value === 'string' && value !== '') && new Set(values).size === values.length) {
+      return key;
+    }
+  }
+  return null;
+}
+
+/**
+ * Flattens a value into path -> display text pairs
+ */
+function flatten(value: unknown, path: string, out: Map<string, string>): void {
+  if (value === undefined) {
+    return;
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      out.set(path, '[]');
+      return;
+    }
+    const key = findItemKey(value);
+    value.forEach((item, index) => {
+      const label = key ? String((item as Record<string, unknown>)[key]) : String(index + 1);
+      flatten(item, `${path}[${label}]`, out);
+    });
+    return;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).filter(([, child]) => child !== undefined);
+    if (entries.length === 0) {
+      out.set(path, '{}');
+      return;
+    }
+    for (const [key, child] of entries) {
+      flatten(child, path ? `${path}.${key}` : key, out);
+    }
+    return;
+  }
+  out.set(path, typeof value === 'string' ? value : JSON.stringify(value));
+}
+
+/**
+ * Lists the differences between two mappings
+ * @param before Older mapping
+ * @param after Newer mapping
+ * @returns Changed and removed settings in the older mapping's order, followed by added settings
+ */
+export function diffMappings(before: ProviderMapping, after: ProviderMapping): MappingDiffEntry[] {
+  const beforeValues = new Map<string, string>();
+  const afterValues = new Map<string, string>();
+  flatten(before, '', beforeValues);
+  flatten(after, '', afterValues);
+
+  const diff: MappingDiffEntry[] = [];
+  for (const [path, beforeValue] of beforeValues) {
+    const afterValue = afterValues.get(path);
+    if (afterValue === undefined) {
+      diff.push({ path, change: 'removed', before: beforeValue });
+    } else if (afterValue !== beforeValue) {
+      diff.push({ path, change: 'changed', before: beforeValue, after: afterValue });
+    }
+  }
+  for (const [path, afterValue] of afterValues) {
+    if (!beforeValues.has(path)) {
+      diff.push({ path, change: 'added', after: afterValue });
+    }
+  }
+  return diff;
+}
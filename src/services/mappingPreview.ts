@@ -0,0 +1,110 @@
+/**
+ * Mapping Preview Service
+ * Runs a mapping (saved or not) against one employee and explains every provider column
+ */
+
+import type { EmployeeRecord, MappingPreview, MappingPreviewRow, OutputColumn, ProviderMapping } from '../types';
+import { evaluateFieldMapping, applyDeductionRules } from './transformer';
+import type { TransformIssue } from './transformer';
+import { normalizeDeductions, assignDeductionSlots } from './deductions';
+import { checkOutputValue } from './outputSchema';
+
+/**
+ * Converts transformation issues to preview problems
+ */
+function toProblems(issues: TransformIssue[]): MappingPreviewRow['problems'] {
+  return issues.map(issue => ({ severity: issue.severity, message: issue.message }));
+}
+
+/**
+ * Previews a mapping for one employee
+ * Failures are reported on the column they affect instead of stopping the preview
+ * @param employee Employee to transform
+ * @param mapping Mapping to apply (may be an unsaved edit)
+ * @param schema Provider output columns
+ * @returns One row per output column (plus any extra mapped columns) and problems not tied to a column
+ */
+export function previewMapping(employee: EmployeeRecord, mapping: ProviderMapping, schema: OutputColumn[]): MappingPreview {
+  const rows = new Map<string, MappingPreviewRow>();
+  const problems: MappingPreview['problems'] = [];
+
+  for (const column of schema) {
+    rows.set(column.name, { column: column.name, sourceField: '', sourceValue: '', transformation: '', output: '', problems: [] });
+  }
+
+  const conditioned = new Set<string>();
+
+  // Field mappings, one at a time so a failing expression only affects its own column
+  for (const fieldMapping of mapping.fieldMappings) {
+    if (!fieldMapping.targetField) {
+      continue;
+    }
+    const rawValue = fieldMapping.sourceField ? employee[fieldMapping.sourceField as keyof EmployeeRecord] : '';
+    const row: MappingPreviewRow = {
+      column: fieldMapping.targetField,
+      sourceField: fieldMapping.sourceField,
+      sourceValue: rawValue === undefined || rawValue === null ? '' : String(rawValue),
+      transformation: fieldMapping.transformation?.trim() || '',
+      output: '',
+      problems: []
+    };
+    const issues: TransformIssue[] = [];
+    try {
+      const result = evaluateFieldMapping(employee, fieldMapping, mapping, issues);
+      row.output = result.value;
+      if (result.branch >= 0) {
+        const branch = (fieldMapping.conditions || [])[result.branch];
+        row.condition = `${result.branch + 1}: ${branch.when}`;
+        row.transformation = branch.then;
+        conditioned.add(row.column);
+      }
+    } catch (error) {
+      row.problems.push({ severity: 'error', message: error instanceof Error ? error.message : 'Transformation failed' });
+    }
+    row.problems.push(...toProblems(issues));
+    rows.set(row.column, row);
+  }
+
+  // Deduction slots take precedence over field mappings for the same column, unless a conditional branch matched
+  if (mapping.deductions) {
+    const { slots } = assignDeductionSlots(normalizeDeductions(employee), mapping.deductions);
+    const issues: TransformIssue[] = [];
+    let slotOutput: Record<string, string> = {};
+    try {
+      slotOutput = applyDeductionRules(employee, mapping, issues);
+    } catch (error) {
+      problems.push({ severity: 'error', message: error instanceof Error ? error.message : 'Deduction slots failed' });
+    }
+    mapping.deductions.slots.forEach((slot, index) => {
+      const deduction = slots[index];
+      for (const [column, expression] of Object.entries(slot.columns)) {
+        if (conditioned.has(column)) {
+          continue;
+        }
+        rows.set(column, {
+          column,
+          sourceField: deduction?.sourceField ?? '',
+          sourceValue: deduction ? `${deduction.type}: ${deduction.code}` : '',
+          transformation: expression,
+          output: slotOutput[column] ?? '',
+          problems: toProblems(issues.filter(issue => issue.targetField === column))
+        });
+      }
+    });
+    problems.push(...toProblems(issues.filter(issue => !issue.targetField)));
+  }
+
+  // Output schema: the same checks processing runs on the transformed record
+  for (const column of schema) {
+    const row = rows.get(column.name);
+    if (!row || row.problems.some(problem => problem.severity === 'error')) {
+      continue;
+    }
+    const violation = checkOutputValue(column, row.output);
+    if (violation) {
+      row.problems.push({ severity: 'error', message: violation.message });
+    }
+  }
+
+  return { rows: Array.from(rows.values()), problems };
+}
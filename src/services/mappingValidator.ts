@@ -0,0 +1,337 @@
+/**
+ * Mapping Validator Service
+ * Semantic checks run before a provider mapping is saved or imported
+ */
+
+import type { MappingValidationIssue, ProviderDescriptor, ProviderMapping } from '../types';
+import { isEmployeeField } from '../config/employeeFields';
+import { collectReferences } from './expressionEngine';
+import { expressionFunctions } from './expressionFunctions';
+import { DEDUCTION_VARIABLES } from './transformer';
+import { ENVELOPE_VARIABLES } from './envelope';
+import { MAX_MONEY_DECIMALS, ROUNDING_MODES } from './money';
+import { validateFixedWidthLayout } from '../utils/fixedWidthWriter';
+
+/**
+ * Mapping file format version written on export
+ * Files without a version predate versioning and are read as version 1
+ */
+export const MAPPING_SCHEMA_VERSION = 1;
+
+/**
+ * Functions every mapping expression may call besides the built-in library
+ */
+const MAPPING_FUNCTIONS = ['crosswalk'];
+
+/**
+ * Checks an expression's syntax and references
+ * @param expression Expression source
+ * @param allowedIdentifiers Whether a variable name is available in the expression's scope
+ * @param extraFunctions Functions the expression's scope adds to the built-in library
+ * @returns Problems found (empty when the expression is valid)
+ */
+function checkExpressionReferences(
+  expression: string,
+  allowedIdentifiers: (name: string) => boolean,
+  extraFunctions: string[]
+): string[] {
+  let references: { identifiers: string[]; functions: string[] };
+  try {
+    references = collectReferences(expression);
+  } catch (error) {
+    return [error instanceof Error ? error.message : 'Invalid expression'];
+  }
+  const problems: string[] = [];
+  for (const name of references.identifiers) {
+    if (!allowedIdentifiers(name)) {
+      problems.push(`refers to unknown field '${name}'`);
+    }
+  }
+  for (const name of references.functions) {
+    if (!Object.prototype.hasOwnProperty.call(expressionFunctions, name) && !extraFunctions.includes(name)) {
+      problems.push(`calls unknown function '${name}'`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Crosswalk table names referenced with a literal name, e.g. crosswalk("health_plan_codes", value)
+ */
+function referencedCrosswalks(expression: string): string[] {
+  return Array.from(expression.matchAll(/crosswalk\(\s*"([^"]*)"/g), match => match[1]);
+}
+
+/**
+ * Validates a mapping against the standard employee schema and the provider's output schema
+ * @param mapping Mapping to check
+ * @param descriptor Provider the mapping is for
+ * @returns Itemized errors and warnings (errors block saving)
+ */
+export function validateMapping(mapping: ProviderMapping, descriptor: ProviderDescriptor): MappingValidationIssue[] {
+  const issues: MappingValidationIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+  const warning = (path: string, message: string) => issues.push({ severity: 'warning', path, message });
+
+  const outputColumns = new Set(descriptor.outputSchema.map(column => column.name));
+  const crosswalkNames = new Set<string>();
+  const expressions: { path: string; label: string; expression: string }[] = [];
+
+  if (mapping.provider !== descriptor.id) {
+    error('provider', `Mapping is for provider '${mapping.provider}', not ${descriptor.id}`);
+  }
+  if (mapping.schemaVersion !== undefined && mapping.schemaVersion !== MAPPING_SCHEMA_VERSION) {
+    error('schemaVersion', `Schema version ${mapping.schemaVersion} is not supported (this engine reads version ${MAPPING_SCHEMA_VERSION})`);
+  }
+
+  (mapping.crosswalks || []).forEach((table, index) => {
+    if (crosswalkNames.has(table.name)) {
+      error(`crosswalks[${index + 1}].name`, `Crosswalk table '${table.name}' is defined more than once`);
+    }
+    crosswalkNames.add(table.name);
+  });
+
+  // Field mappings: known source fields, known and unique target columns
+  const targetRows = new Map<string, number>();
+  mapping.fieldMappings.forEach((fieldMapping, index) => {
+    const path = `fieldMappings[${index + 1}]`;
+    const target = fieldMapping.targetField;
+    if (!target) {
+      error(`${path}.targetField`, `Row ${index + 1} has no target field`);
+    } else if (!outputColumns.has(target)) {
+      error(`${path}.targetField`, `'${target}' is not a ${descriptor.displayName} output column`);
+    } else if (targetRows.has(target)) {
+      error(`${path}.targetField`, `'${target}' is mapped more than once (rows ${targetRows.get(target)} and ${index + 1})`);
+    } else {
+      targetRows.set(target, index + 1);
+    }
+
+    const transformation = fieldMapping.transformation?.trim() || '';
+    if (fieldMapping.sourceField && !isEmployeeField(fieldMapping.sourceField)) {
+      error(`${path}.sourceField`, `'${fieldMapping.sourceField}' (mapped to '${target}') is not a standard employee field`);
+    } else if (!fieldMapping.sourceField && !transformation && !fieldMapping.defaultValue && !fieldMapping.conditions?.length) {
+      error(path, `'${target}' has no source field, transformation, default value or condition`);
+    }
+    const fieldExpressions = [
+      ...(transformation ? [{ path: `${path}.transformation`, label: `Transformation for '${target}'`, expression: transformation }] : []),
+      ...(fieldMapping.conditions || []).flatMap((branch, branchIndex) => [
+        { path: `${path}.conditions[${branchIndex + 1}].when`, label: `Condition ${branchIndex + 1} for '${target}'`, expression: branch.when },
+        { path: `${path}.conditions[${branchIndex + 1}].then`, label: `Condition ${branchIndex + 1} value for '${target}'`, expression: branch.then }
+      ])
+    ];
+    for (const { path: expressionPath, label, expression } of fieldExpressions) {
+      if (expression.trim() === '') {
+        error(expressionPath, `${label} is empty`);
+        continue;
+      }
+      expressions.push({ path: expressionPath, label, expression });
+      for (const problem of checkExpressionReferences(expression, name => name === 'value' || isEmployeeField(name), MAPPING_FUNCTIONS)) {
+        error(expressionPath, `${label} ${problem}`);
+      }
+    }
+  });
+
+  // Deduction slots: columns must be provider columns, expressions must be valid
+  const slotColumns = new Set<string>();
+  (mapping.deductions?.slots || []).forEach((slot, index) => {
+    for (const [column, expression] of Object.entries(slot.columns)) {
+      const path = `deductions.slots[${index + 1}].columns[${column}]`;
+      slotColumns.add(column);
+      if (!outputColumns.has(column)) {
+        error(path, `Deduction slot ${index + 1} writes '${column}', which is not a ${descriptor.displayName} output column`);
+      }
+      expressions.push({ path, label: `Deduction slot ${index + 1} column '${column}'`, expression });
+      const allowed = (name: string) => DEDUCTION_VARIABLES.includes(name) || name === 'value' || isEmployeeField(name);
+      for (const problem of checkExpressionReferences(expression, allowed, MAPPING_FUNCTIONS)) {
+        error(path, `Deduction slot ${index + 1} column '${column}' ${problem}`);
+      }
+    }
+  });
+
+  // Crosswalk references in transformations and slot columns
+  for (const { path, label, expression } of expressions) {
+    for (const name of referencedCrosswalks(expression)) {
+      if (!crosswalkNames.has(name)) {
+        error(path, `${label} uses crosswalk table '${name}', which is not defined`);
+      }
+    }
+  }
+
+  // Provider columns nothing writes to
+  for (const column of descriptor.outputSchema) {
+    if (!targetRows.has(column.name) && !slotColumns.has(column.name)) {
+      warning(`output[${column.name}]`, `${descriptor.displayName} column '${column.name}' has no mapping or transformation and will be blank`);
+    }
+  }
+
+  // Header/trailer records
+  const envelopeFields = [
+    ...(mapping.envelope?.header || []).map(field => ({ field, path: `envelope.header[${field.name}]` })),
+    ...(mapping.envelope?.trailer || []).map(field => ({ field, path: `envelope.trailer[${field.name}]` }))
+  ];
+  for (const { field, path } of envelopeFields) {
+    for (const problem of checkExpressionReferences(field.expression, name => ENVELOPE_VARIABLES.includes(name), ['sum', 'hashTotal'])) {
+      error(path, `Header/trailer field '${field.name}' ${problem}`);
+    }
+  }
+
+  // Money settings
+  if (mapping.money) {
+    const { decimals, rounding } = mapping.money;
+    if (typeof decimals !== 'number' || !Number.isInteger(decimals) || decimals < 0 || decimals > MAX_MONEY_DECIMALS) {
+      error('money.decimals', `Money decimals must be a whole number from 0 to ${MAX_MONEY_DECIMALS} (got '${String(decimals)}')`);
+    }
+    if (!ROUNDING_MODES.includes(rounding)) {
+      error('money.rounding', `Rounding mode '${String(rounding)}' is not one of ${ROUNDING_MODES.join(', ')}`);
+    }
+  }
+
+  // Fixed-width layout
+  if (mapping.output?.format === 'fixed-width') {
+    const columns = mapping.output.fixedWidthColumns || [];
+    if (columns.length === 0) {
+      error('output.fixedWidthColumns', 'Fixed-width output defines no columns');
+    }
+    try {
+      validateFixedWidthLayout(columns);
+    } catch (layoutError) {
+      error('output.fixedWidthColumns', layoutError instanceof Error ? layoutError.message : 'Invalid layout');
+    }
+    columns.forEach(column => {
+      if (!outputColumns.has(column.field)) {
+        error(`output.fixedWidthColumns[${column.field}]`, `Fixed-width column '${column.field}' is not a ${descriptor.displayName} output column`);
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Validates an imported mapping file: its structure and schema version, then its contents
+ * @param json Mapping file content
+ * @param descriptor Provider the file is imported for
+ * @returns Parsed mapping (when its structure is usable) and itemized issues
+ */
+export function validateMappingFile(
+  json: string,
+  descriptor: ProviderDescriptor
+): { mapping?: ProviderMapping; issues: MappingValidationIssue[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (parseError) {
+    return {
+      issues: [{ severity: 'error', path: '', message: `File is not valid JSON: ${parseError instanceof Error ? parseError.message : 'parse error'}` }]
+    };
+  }
+
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { issues: [{ severity: 'error', path: '', message: 'File does not contain a mapping object' }] };
+  }
+  const candidate = parsed as Record<string, unknown>;
+  const structure: MappingValidationIssue[] = [];
+  if (typeof candidate.provider !== 'string') {
+    structure.push({ severity: 'error', path: 'provider', message: 'Mapping has no provider' });
+  }
+  if (!Array.isArray(candidate.fieldMappings)) {
+    structure.push({ severity: 'error', path: 'fieldMappings', message: 'Mapping has no fieldMappings list' });
+  } else {
+    candidate.fieldMappings.forEach((fieldMapping, index) => {
+      const row = fieldMapping as Record<string, unknown> | null;
+      if (!row || typeof row !== 'object' || typeof row.targetField !== 'string' || (row.sourceField !== undefined && typeof row.sourceField !== 'string')) {
+        structure.push({ severity: 'error', path: `fieldMappings[${index + 1}]`, message: `Row ${index + 1} needs a text targetField and sourceField` });
+      } else if (row.transformation !== undefined && typeof row.transformation !== 'string') {
+        structure.push({ severity: 'error', path: `fieldMappings[${index + 1}].transformation`, message: `Row ${index + 1} transformation must be text` });
+      } else if (
+        row.conditions !== undefined &&
+        (!Array.isArray(row.conditions) ||
+          !row.conditions.every(branch => branch && typeof branch === 'object' && typeof branch.when === 'string' && typeof branch.then === 'string'))
+      ) {
+        structure.push({ severity: 'error', path: `fieldMappings[${index + 1}].conditions`, message: `Row ${index + 1} conditions must be a list of text when/then branches` });
+      }
+    });
+  }
+  if (candidate.crosswalks !== undefined) {
+    if (!Array.isArray(candidate.crosswalks)) {
+      structure.push({ severity: 'error', path: 'crosswalks', message: 'Crosswalks must be a list of tables' });
+    } else {
+      candidate.crosswalks.forEach((table, index) => {
+        if (!table || typeof table !== 'object' || typeof table.name !== 'string') {
+          structure.push({ severity: 'error', path: `crosswalks[${index + 1}]`, message: `Crosswalk table ${index + 1} needs a text name` });
+        }
+      });
+    }
+  }
+  if (candidate.deductions !== undefined) {
+    const deductions = candidate.deductions as Record<string, unknown> | null;
+    if (!deductions || typeof deductions !== 'object' || !Array.isArray(deductions.slots)) {
+      structure.push({ severity: 'error', path: 'deductions.slots', message: 'Deduction rules need a list of slots' });
+    } else {
+      deductions.slots.forEach((slot, index) => {
+        const columns = (slot as Record<string, unknown> | null)?.columns;
+        if (!columns || typeof columns !== 'object' || Array.isArray(columns) || !Object.values(columns).every(expression => typeof expression === 'string')) {
+          structure.push({ severity: 'error', path: `deductions.slots[${index + 1}].columns`, message: `Deduction slot ${index + 1} columns must be an object of text column expressions` });
+        }
+      });
+    }
+  }
+  if (candidate.envelope !== undefined) {
+    const envelope = candidate.envelope as Record<string, unknown> | null;
+    if (!envelope || typeof envelope !== 'object') {
+      structure.push({ severity: 'error', path: 'envelope', message: 'Envelope must be an object with header and trailer fields' });
+    } else {
+      for (const record of ['header', 'trailer']) {
+        const fields = envelope[record];
+        if (fields === undefined) {
+          continue;
+        }
+        if (!Array.isArray(fields)) {
+          structure.push({ severity: 'error', path: `envelope.${record}`, message: `Envelope ${record} must be a list of fields` });
+          continue;
+        }
+        fields.forEach((field, index) => {
+          if (!field || typeof field !== 'object' || typeof field.expression !== 'string') {
+            structure.push({ severity: 'error', path: `envelope.${record}[${index + 1}].expression`, message: `Envelope ${record} field ${index + 1} needs a text expression` });
+          }
+        });
+      }
+    }
+  }
+  if (candidate.output !== undefined) {
+    const output = candidate.output as Record<string, unknown> | null;
+    if (!output || typeof output !== 'object' || Array.isArray(output)) {
+      structure.push({ severity: 'error', path: 'output', message: 'Output must be an object' });
+    } else if (output.fixedWidthColumns !== undefined && !Array.isArray(output.fixedWidthColumns)) {
+      structure.push({ severity: 'error', path: 'output.fixedWidthColumns', message: 'Fixed-width columns must be a list' });
+    }
+  }
+  if (candidate.money !== undefined && (candidate.money === null || typeof candidate.money !== 'object' || Array.isArray(candidate.money))) {
+    structure.push({ severity: 'error', path: 'money', message: 'Money settings must be an object' });
+  }
+  if (candidate.schemaVersion !== undefined && (typeof candidate.schemaVersion !== 'number' || !Number.isInteger(candidate.schemaVersion))) {
+    structure.push({ severity: 'error', path: 'schemaVersion', message: `Schema version '${String(candidate.schemaVersion)}' is not a whole number` });
+  }
+  if (structure.length > 0) {
+    return { issues: structure };
+  }
+
+  const mapping = candidate as unknown as ProviderMapping;
+  const issues = validateMapping(mapping, descriptor);
+  if (mapping.schemaVersion === undefined) {
+    issues.unshift({
+      severity: 'warning',
+      path: 'schemaVersion',
+      message: `File has no schema version - it is read as version ${MAPPING_SCHEMA_VERSION}`
+    });
+  }
+  return { mapping, issues };
+}
+
+/**
+ * Formats error issues as one message (used when a save or import is rejected)
+ */
+export function formatMappingErrors(provider: string, issues: MappingValidationIssue[]): string {
+  const errors = issues.filter(issue => issue.severity === 'error');
+  return `${provider} mapping has ${errors.length} problem(s):\n${errors.map(issue => `- ${issue.message}`).join('\n')}`;
+}
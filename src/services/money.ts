@@ -0,0 +1,218 @@
+/**
+ * Money Service
+ * Exact decimal arithmetic for monetary amounts (no floating point), with configurable rounding,
+ * final-period true-up and per-provider output formatting
+ */
+
+import type { MoneySettings, RoundingMode } from '../types';
+
+/**
+ * Exact decimal value: units / 10^scale (e.g., 1234.50 is { units: 123450n, scale: 2 })
+ */
+export interface Decimal {
+  units: bigint;
+  scale: number;
+}
+
+/**
+ * Money settings used when a mapping does not define its own
+ */
+export const DEFAULT_MONEY_SETTINGS: MoneySettings = {
+  rounding: 'half-up',
+  trueUpFinalPeriod: false,
+  decimals: 2
+};
+
+/**
+ * Rounding modes a mapping may choose
+ */
+export const ROUNDING_MODES: RoundingMode[] = ['half-up', 'half-even'];
+
+/**
+ * Most decimal places a provider file may be written with
+ */
+export const MAX_MONEY_DECIMALS = 6;
+
+export const ZERO: Decimal = { units: 0n, scale: 0 };
+
+/**
+ * Largest exponent accepted in scientific notation (1e999999999 would take minutes to expand)
+ */
+const MAX_EXPONENT = 50;
+
+/**
+ * 10^exponent as a bigint
+ */
+function pow10(exponent: number): bigint {
+  return 10n ** BigInt(exponent);
+}
+
+/**
+ * Expresses a decimal at a larger scale without changing its value
+ */
+function rescale(value: Decimal, scale: number): Decimal {
+  return scale <= value.scale ? value : { units: value.units * pow10(scale - value.scale), scale };
+}
+
+/**
+ * Divides two integers, rounding the quotient with the given mode
+ */
+function divideRounded(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  if (denominator === 0n) {
+    throw new Error('division by zero');
+  }
+  if (denominator < 0n) {
+    numerator = -numerator;
+    denominator = -denominator;
+  }
+  const quotient = numerator / denominator; // Truncates toward zero
+  const remainder = numerator % denominator;
+  const twiceRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+  const awayFromZero = numerator < 0n ? quotient - 1n : quotient + 1n;
+
+  if (twiceRemainder > denominator) {
+    return awayFromZero;
+  }
+  if (twiceRemainder === denominator) {
+    if (mode === 'half-up') {
+      return awayFromZero;
+    }
+    return quotient % 2n === 0n ? quotient : awayFromZero;
+  }
+  return quotient;
+}
+
+/**
+ * Parses a number or money string ("1,234.50", "$99", "(12.00)", "1e-7") into an exact decimal
+ * @returns Decimal, or null when the value is blank, not a number, or has an exponent beyond ±50
+ */
+export function parseDecimal(value: string | number): Decimal | null {
+  if (typeof value === 'number' && !isFinite(value)) {
+    return null;
+  }
+  let text = String(value).trim().replace(/[$,\s]/g, '');
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+
+  const match = text.match(/^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i);
+  if (!match || (!match[2] && !match[3])) {
+    return null;
+  }
+  const [, sign, whole, fraction = '', exponent = '0'] = match;
+  const power = parseInt(exponent, 10);
+  if (Math.abs(power) > MAX_EXPONENT) {
+    return null;
+  }
+  if (sign === '-') {
+    negative = !negative;
+  }
+
+  let units = BigInt(`${whole}${fraction}` || '0');
+  let scale = fraction.length - power;
+  if (scale < 0) {
+    units *= pow10(-scale);
+    scale = 0;
+  }
+  return { units: negative ? -units : units, scale };
+}
+
+/**
+ * Converts an integer count (e.g., pay periods) to a decimal
+ */
+export function decimalFromInteger(value: number): Decimal {
+  return { units: BigInt(Math.trunc(value)), scale: 0 };
+}
+
+export function addDecimals(a: Decimal, b: Decimal): Decimal {
+  const scale = Math.max(a.scale, b.scale);
+  return { units: rescale(a, scale).units + rescale(b, scale).units, scale };
+}
+
+export function subtractDecimals(a: Decimal, b: Decimal): Decimal {
+  return addDecimals(a, { units: -b.units, scale: b.scale });
+}
+
+export function multiplyDecimals(a: Decimal, b: Decimal): Decimal {
+  return { units: a.units * b.units, scale: a.scale + b.scale };
+}
+
+/**
+ * Divides a by b, rounding the quotient once to the given number of decimals
+ */
+export function divideDecimals(a: Decimal, b: Decimal, decimals: number, mode: RoundingMode): Decimal {
+  // a / b = (a.units * 10^b.scale) / (b.units * 10^a.scale); scale the numerator for the wanted decimals
+  const numerator = a.units * pow10(b.scale + decimals);
+  const denominator = b.units * pow10(a.scale);
+  return { units: divideRounded(numerator, denominator, mode), scale: decimals };
+}
+
+/**
+ * Rounds a decimal to the given number of decimals
+ */
+export function roundDecimal(value: Decimal, decimals: number, mode: RoundingMode): Decimal {
+  if (decimals >= value.scale) {
+    return rescale(value, decimals);
+  }
+  return { units: divideRounded(value.units, pow10(value.scale - decimals), mode), scale: decimals };
+}
+
+/**
+ * Compares two decimals
+ * @returns -1 when a < b, 0 when equal, 1 when a > b
+ */
+export function compareDecimals(a: Decimal, b: Decimal): number {
+  const scale = Math.max(a.scale, b.scale);
+  const difference = rescale(a, scale).units - rescale(b, scale).units;
+  return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+}
+
+/**
+ * Plain decimal string with all of the value's decimals (e.g., "-1234.50")
+ */
+export function decimalToString(value: Decimal): string {
+  const negative = value.units < 0n;
+  const digits = (negative ? -value.units : value.units).toString().padStart(value.scale + 1, '0');
+  const whole = digits.slice(0, digits.length - value.scale);
+  const fraction = digits.slice(digits.length - value.scale);
+  return `${negative ? '-' : ''}${whole}${value.scale > 0 ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Formats an amount for a provider file: rounded to the provider's decimals, with its
+ * thousands separator, currency symbol and negative style
+ */
+export function formatMoney(value: Decimal, settings: MoneySettings): string {
+  const rounded = roundDecimal(value, settings.decimals, settings.rounding);
+  const negative = rounded.units < 0n;
+  const [whole, fraction] = decimalToString({ units: negative ? -rounded.units : rounded.units, scale: rounded.scale }).split('.');
+  const grouped = settings.thousandsSeparator
+    ? whole.replace(/\B(?=(\d{3})+(?!\d))/g, settings.thousandsSeparator)
+    : whole;
+  const amount = `${settings.currencySymbol || ''}${grouped}${fraction !== undefined ? `.${fraction}` : ''}`;
+
+  if (!negative) {
+    return amount;
+  }
+  return settings.negativeStyle === 'parentheses' ? `(${amount})` : `-${amount}`;
+}
+
+/**
+ * Amount paid in one pay period of an annual amount
+ * Every period gets the annual amount divided by the number of periods, rounded once to the
+ * provider's decimals; with true-up enabled the final period instead gets whatever is left,
+ * so the periods always sum exactly to the annual amount
+ * @param annual Annual amount
+ * @param periods Pay periods per year
+ * @param settings Money settings (rounding mode, decimals, true-up)
+ * @param period 1-based pay period (the regular amount is returned when omitted)
+ */
+export function periodAmount(annual: Decimal, periods: number, settings: MoneySettings, period?: number): Decimal {
+  const regular = divideDecimals(annual, decimalFromInteger(periods), settings.decimals, settings.rounding);
+  if (!settings.trueUpFinalPeriod || period !== periods) {
+    return regular;
+  }
+  return subtractDecimals(annual, multiplyDecimals(regular, decimalFromInteger(periods - 1)));
+}
@@ -0,0 +1,351 @@
+/**
+ * NACHA Generator Service
+ * Builds NACHA ACH prenote files (zero-dollar PPD entries) from employee direct deposit data
+ * Records are laid out with the fixed-width writer; every record is 94 characters
+ */
+
+import type { EmployeeRecord, FixedWidthColumn, NachaSettings, ProviderRecord } from '../types';
+import { formatFixedWidthRecord } from '../utils/fixedWidthWriter';
+import type { FixedWidthWarning } from '../utils/fixedWidthWriter';
+
+const RECORD_SIZE = 94;
+const BLOCKING_FACTOR = 10;
+const SERVICE_CLASS_CREDITS = '220';
+
+/**
+ * Prenote transaction codes (zero-dollar credits)
+ */
+export const PRENOTE_TRANSACTION_CODES: Record<'Checking' | 'Savings', string> = {
+  Checking: '23',
+  Savings: '33'
+};
+
+/**
+ * Direct deposit account that could not be prenoted
+ */
+export interface NachaSkippedAccount {
+  employeeId: string;
+  account: 'dd1' | 'dd2';
+  reason: string;
+}
+
+/**
+ * Generated NACHA file
+ */
+export interface NachaFile {
+  fileName: string;
+  content: string;
+  entryCount: number;
+  skipped: NachaSkippedAccount[];
+}
+
+export interface NachaOptions {
+  createdAt?: Date; // Defaults to now
+  effectiveDate?: Date; // Defaults to the next business day
+}
+
+const column = (field: string, start: number, length: number, numeric = false): FixedWidthColumn => ({
+  field,
+  start,
+  length,
+  ...(numeric ? { justify: 'right' as const, padChar: '0' } : {})
+});
+
+const FILE_HEADER_LAYOUT: FixedWidthColumn[] = [
+  column('recordType', 1, 1),
+  column('priorityCode', 2, 2),
+  column('immediateDestination', 4, 10),
+  column('immediateOrigin', 14, 10),
+  column('fileCreationDate', 24, 6),
+  column('fileCreationTime', 30, 4),
+  column('fileIdModifier', 34, 1),
+  column('recordSize', 35, 3),
+  column('blockingFactor', 38, 2),
+  column('formatCode', 40, 1),
+  column('immediateDestinationName', 41, 23),
+  column('immediateOriginName', 64, 23),
+  column('referenceCode', 87, 8)
+];
+
+const BATCH_HEADER_LAYOUT: FixedWidthColumn[] = [
+  column('recordType', 1, 1),
+  column('serviceClassCode', 2, 3),
+  column('companyName', 5, 16),
+  column('companyDiscretionaryData', 21, 20),
+  column('companyIdentification', 41, 10),
+  column('standardEntryClassCode', 51, 3),
+  column('companyEntryDescription', 54, 10),
+  column('companyDescriptiveDate', 64, 6),
+  column('effectiveEntryDate', 70, 6),
+  column('settlementDate', 76, 3),
+  column('originatorStatusCode', 79, 1),
+  column('originatingDfiId', 80, 8),
+  column('batchNumber', 88, 7, true)
+];
+
+const ENTRY_DETAIL_LAYOUT: FixedWidthColumn[] = [
+  column('recordType', 1, 1),
+  column('transactionCode', 2, 2),
+  column('receivingDfiId', 4, 8),
+  column('checkDigit', 12, 1),
+  column('dfiAccountNumber', 13, 17),
+  column('amount', 30, 10, true),
+  column('individualIdNumber', 40, 15),
+  column('individualName', 55, 22),
+  column('discretionaryData', 77, 2),
+  column('addendaRecordIndicator', 79, 1),
+  column('traceNumber', 80, 15, true)
+];
+
+const BATCH_CONTROL_LAYOUT: FixedWidthColumn[] = [
+  column('recordType', 1, 1),
+  column('serviceClassCode', 2, 3),
+  column('entryAddendaCount', 5, 6, true),
+  column('entryHash', 11, 10, true),
+  column('totalDebitAmount', 21, 12, true),
+  column('totalCreditAmount', 33, 12, true),
+  column('companyIdentification', 45, 10),
+  column('messageAuthenticationCode', 55, 19),
+  column('reserved', 74, 6),
+  column('originatingDfiId', 80, 8),
+  column('batchNumber', 88, 7, true)
+];
+
+const FILE_CONTROL_LAYOUT: FixedWidthColumn[] = [
+  column('recordType', 1, 1),
+  column('batchCount', 2, 6, true),
+  column('blockCount', 8, 6, true),
+  column('entryAddendaCount', 14, 8, true),
+  column('entryHash', 22, 10, true),
+  column('totalDebitAmount', 32, 12, true),
+  column('totalCreditAmount', 44, 12, true),
+  column('reserved', 56, 39)
+];
+
+/**
+ * Checks a routing number's ABA check digit (3-7-1 weighting)
+ */
+export function isValidAbaRoutingNumber(routing: string): boolean {
+  if (!/^\d{9}$/.test(routing)) {
+    return false;
+  }
+  const d = routing.split('').map(Number);
+  const sum = 3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8]);
+  return sum % 10 === 0;
+}
+
+/**
+ * Converts text to the NACHA character set (upper-case printable ASCII)
+ */
+function toNachaText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7E]/g, ' ')
+    .toUpperCase();
+}
+
+/**
+ * Formats a date as YYMMDD
+ */
+function formatYYMMDD(date: Date): string {
+  const yy = String(date.getFullYear()).slice(2);
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const dd = String(date.getDate()).padStart(2, '0');
+  return `${yy}${mm}${dd}`;
+}
+
+/**
+ * Next business day (skips weekends; bank holidays are the ODFI's responsibility)
+ */
+function nextBusinessDay(date: Date): Date {
+  const next = new Date(date);
+  do {
+    next.setDate(next.getDate() + 1);
+  } while (next.getDay() === 0 || next.getDay() === 6);
+  return next;
+}
+
+/**
+ * Validates NACHA settings
+ * @returns List of problems (empty when the settings are complete)
+ */
+export function validateNachaSettings(settings: NachaSettings): string[] {
+  const problems: string[] = [];
+  if (!isValidAbaRoutingNumber(settings.immediateDestination)) {
+    problems.push('Immediate destination must be a valid 9-digit routing number');
+  }
+  if (!settings.immediateOrigin.trim()) {
+    problems.push('Immediate origin is required');
+  }
+  if (!settings.companyName.trim()) {
+    problems.push('Company name is required');
+  }
+  if (!settings.companyIdentification.trim()) {
+    problems.push('Company identification is required');
+  }
+  if (!/^\d{8}$/.test(settings.originatingDfiId)) {
+    problems.push('Originating DFI id must be the first 8 digits of the ODFI routing number');
+  }
+  if (!/^[A-Z0-9]$/.test(settings.fileIdModifier)) {
+    problems.push('File id modifier must be a single character A-Z or 0-9');
+  }
+  return problems;
+}
+
+/**
+ * Formats one 94-character record
+ */
+function formatRecord(layout: FixedWidthColumn[], values: ProviderRecord): string {
+  const warnings: FixedWidthWarning[] = []; // Long names/descriptions are truncated by design
+  const sanitized: ProviderRecord = {};
+  for (const [key, value] of Object.entries(values)) {
+    sanitized[key] = toNachaText(value);
+  }
+  return formatFixedWidthRecord(sanitized, layout, 0, warnings).padEnd(RECORD_SIZE, ' ');
+}
+
+/**
+ * Generates a NACHA prenote file for employees' direct deposit accounts
+ * @param employees Employees to prenote (typically the processed employees of a run)
+ * @param settings Company and ODFI settings
+ * @param options Creation and effective dates
+ * @returns NACHA file content and accounts that could not be included
+ */
+export function generatePrenoteFile(
+  employees: EmployeeRecord[],
+  settings: NachaSettings,
+  options: NachaOptions = {}
+): NachaFile {
+  const problems = validateNachaSettings(settings);
+  if (problems.length > 0) {
+    throw new Error(`NACHA settings are incomplete: ${problems.join('; ')}`);
+  }
+
+  const createdAt = options.createdAt || new Date();
+  const effectiveDate = options.effectiveDate || nextBusinessDay(createdAt);
+  const batchNumber = '1';
+  const skipped: NachaSkippedAccount[] = [];
+  const entries: string[] = [];
+  let entryHash = 0;
+
+  for (const employee of employees) {
+    const accounts = [
+      { account: 'dd1' as const, routing: employee.dd1_routing_number, number: employee.dd1_account_number, type: employee.dd1_account_type },
+      { account: 'dd2' as const, routing: employee.dd2_routing_number, number: employee.dd2_account_number, type: employee.dd2_account_type }
+    ];
+
+    for (const { account, routing, number, type } of accounts) {
+      const routingNumber = (routing || '').trim();
+      const accountNumber = (number || '').trim();
+      if (!routingNumber && !accountNumber) {
+        continue;
+      }
+
+      const skip = (reason: string) => skipped.push({ employeeId: employee.employee_id, account, reason });
+      if (!isValidAbaRoutingNumber(routingNumber)) {
+        skip(`Routing number '${routingNumber}' is not a valid ABA routing number`);
+        continue;
+      }
+      if (!accountNumber || accountNumber.length > 17) {
+        skip(`Account number must be 1-17 characters, got '${accountNumber}'`);
+        continue;
+      }
+      const transactionCode = type ? PRENOTE_TRANSACTION_CODES[type] : undefined;
+      if (!transactionCode) {
+        skip(`Account type must be Checking or Savings, got '${type || ''}'`);
+        continue;
+      }
+
+      entryHash += parseInt(routingNumber.slice(0, 8), 10);
+      entries.push(formatRecord(ENTRY_DETAIL_LAYOUT, {
+        recordType: '6',
+        transactionCode,
+        receivingDfiId: routingNumber.slice(0, 8),
+        checkDigit: routingNumber.charAt(8),
+        dfiAccountNumber: accountNumber,
+        amount: '0',
+        individualIdNumber: employee.employee_id,
+        individualName: `${employee.first_name} ${employee.last_name}`.trim(),
+        discretionaryData: '',
+        addendaRecordIndicator: '0',
+        traceNumber: `${settings.originatingDfiId}${String(entries.length + 1).padStart(7, '0')}`
+      }));
+    }
+  }
+
+  if (entries.length === 0) {
+    throw new Error('No valid direct deposit accounts to prenote');
+  }
+
+  const hash = String(entryHash).slice(-10);
+  const lines: string[] = [
+    formatRecord(FILE_HEADER_LAYOUT, {
+      recordType: '1',
+      priorityCode: '01',
+      immediateDestination: ` ${settings.immediateDestination}`,
+      immediateOrigin: settings.immediateOrigin.padStart(10, ' '),
+      fileCreationDate: formatYYMMDD(createdAt),
+      fileCreationTime: `${String(createdAt.getHours()).padStart(2, '0')}${String(createdAt.getMinutes()).padStart(2, '0')}`,
+      fileIdModifier: settings.fileIdModifier,
+      recordSize: String(RECORD_SIZE).padStart(3, '0'),
+      blockingFactor: String(BLOCKING_FACTOR),
+      formatCode: '1',
+      immediateDestinationName: settings.immediateDestinationName,
+      immediateOriginName: settings.immediateOriginName,
+      referenceCode: ''
+    }),
+    formatRecord(BATCH_HEADER_LAYOUT, {
+      recordType: '5',
+      serviceClassCode: SERVICE_CLASS_CREDITS,
+      companyName: settings.companyName,
+      companyDiscretionaryData: '',
+      companyIdentification: settings.companyIdentification,
+      standardEntryClassCode: 'PPD',
+      companyEntryDescription: settings.companyEntryDescription || 'PRENOTE',
+      companyDescriptiveDate: '',
+      effectiveEntryDate: formatYYMMDD(effectiveDate),
+      settlementDate: '',
+      originatorStatusCode: '1',
+      originatingDfiId: settings.originatingDfiId,
+      batchNumber
+    }),
+    ...entries,
+    formatRecord(BATCH_CONTROL_LAYOUT, {
+      recordType: '8',
+      serviceClassCode: SERVICE_CLASS_CREDITS,
+      entryAddendaCount: String(entries.length),
+      entryHash: hash,
+      totalDebitAmount: '0',
+      totalCreditAmount: '0',
+      companyIdentification: settings.companyIdentification,
+      messageAuthenticationCode: '',
+      reserved: '',
+      originatingDfiId: settings.originatingDfiId,
+      batchNumber
+    })
+  ];
+
+  // File control counts itself; the file is padded to whole blocks of 10 records with 9-filled lines
+  const blockCount = Math.ceil((lines.length + 1) / BLOCKING_FACTOR);
+  lines.push(formatRecord(FILE_CONTROL_LAYOUT, {
+    recordType: '9',
+    batchCount: '1',
+    blockCount: String(blockCount),
+    entryAddendaCount: String(entries.length),
+    entryHash: hash,
+    totalDebitAmount: '0',
+    totalCreditAmount: '0',
+    reserved: ''
+  }));
+  while (lines.length < blockCount * BLOCKING_FACTOR) {
+    lines.push('9'.repeat(RECORD_SIZE));
+  }
+
+  return {
+    fileName: `ach_prenote_${formatYYMMDD(createdAt)}.txt`,
+    content: lines.join('\r\n') + '\r\n',
+    entryCount: entries.length,
+    skipped
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * Output Bundle Service
+ * Splits provider files per company, names them from a template and packages them
+ * in a single ZIP archive with a manifest
+ */
+
+import type { BatchInfo, HDRRecord, OutputBundleSettings, ProviderId, ProviderMapping, ProviderRecord } from '../types';
+import { getProvider } from './providerRegistry';
+import { renderProviderFile } from './providerFileWriter';
+import type { FixedWidthWarning } from '../utils/fixedWidthWriter';
+import { encodeText } from '../utils/csvWriter';
+import { crc32, createZip } from '../utils/zipWriter';
+
+/**
+ * Values available to file name templates
+ */
+export interface FileNameContext {
+  provider: string; // Provider file base name (e.g., "adp_hires")
+  provider_id: ProviderId;
+  employer_id: string;
+  upload_id: string;
+  processing_date: string; // YYYY-MM-DD
+  file_name: string; // Source file name from the HDR record, without extension
+  company_id: string; // Blank when files are not split per company
+  sequence: string; // 3-digit position of the file in the bundle (001, 002, ...)
+  batch_id: string;
+}
+
+/**
+ * Tokens a file name template can use
+ */
+export const FILE_NAME_TOKENS = [
+  'provider',
+  'provider_id',
+  'employer_id',
+  'upload_id',
+  'processing_date',
+  'file_name',
+  'company_id',
+  'sequence',
+  'batch_id'
+] as const;
+
+/**
+ * Detail records of one employee for a provider, tagged with the employee's company
+ */
+export interface CompanyRecord {
+  companyId: string;
+  record: ProviderRecord;
+}
+
+/**
+ * Records and mapping of one provider to bundle
+ */
+export interface BundleProviderRecords {
+  providerId: ProviderId;
+  mapping: ProviderMapping;
+  mappingVersion?: number | null; // Mapping version the records were produced with (null = built-in default)
+  records: CompanyRecord[];
+}
+
+/**
+ * File in a bundle
+ */
+export interface BundleFile {
+  fileName: string;
+  providerId: ProviderId;
+  companyId: string; // Blank when files are not split per company
+  mappingVersion: number | null;
+  recordCount: number;
+  content: Uint8Array<ArrayBuffer>; // Encoded file bytes
+  warnings: FixedWidthWarning[];
+}
+
+/**
+ * Manifest entry describing one bundled file
+ */
+export interface BundleManifestFile {
+  fileName: string;
+  provider: ProviderId;
+  companyId: string;
+  mappingVersion: number | null; // null = built-in default mapping
+  records: number;
+  bytes: number;
+  crc32: string; // Hex checksum of the file bytes
+}
+
+/**
+ * Manifest written to manifest.json in the archive
+ */
+export interface BundleManifest {
+  batchId: string;
+  employerId: string;
+  uploadId: string;
+  processingDate: string;
+  sourceFileName: string;
+  createdAt: string;
+  totalFiles: number;
+  totalRecords: number;
+  files: BundleManifestFile[];
+}
+
+/**
+ * Bundle of provider files
+ */
+export interface OutputBundle {
+  fileName: string; // Archive file name
+  files: BundleFile[];
+  manifest: BundleManifest;
+}
+
+/**
+ * Removes the extension of a file name
+ */
+function withoutExtension(fileName: string): string {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName;
+}
+
+/**
+ * Extension of a file name including the dot (blank when there is none)
+ */
+function extensionOf(fileName: string): string {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > 0 ? fileName.slice(dotIndex) : '';
+}
+
+/**
+ * Renders a file name template
+ * Characters that are unsafe in file names become underscores; separators left around blank tokens are collapsed
+ * @param template Template such as "{provider}_{company_id}_{processing_date}"
+ * @param context Token values
+ * @returns File name without extension
+ */
+export function renderFileNameTemplate(template: string, context: FileNameContext): string {
+  const rendered = template.replace(/\{([^{}]*)\}/g, (_, token: string) => {
+    const name = token.trim();
+    if (!(FILE_NAME_TOKENS as readonly string[]).includes(name)) {
+      throw new Error(`Unknown file name token '{${name}}' (available: ${FILE_NAME_TOKENS.map(t => `{${t}}`).join(', ')})`);
+    }
+    return context[name as keyof FileNameContext];
+  });
+
+  const fileName = rendered
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/([_-])[_-]+/g, '$1')
+    .replace(/^[._-]+|[._-]+$/g, '');
+  if (fileName === '') {
+    throw new Error(`File name template '${template}' produced an empty file name`);
+  }
+  return fileName;
+}
+
+/**
+ * Builds the template context shared by every file of a batch
+ * Falls back to batch values when the upload had no HDR record
+ */
+function createBaseContext(batch: BatchInfo, header?: HDRRecord): Omit<FileNameContext, 'provider' | 'provider_id' | 'company_id' | 'sequence'> {
+  return {
+    employer_id: header?.employer_id || batch.employerId,
+    upload_id: header?.upload_id || batch.batchId,
+    processing_date: header?.processing_date || batch.createdAt.slice(0, 10),
+    file_name: header?.file_name ? withoutExtension(header.file_name) : '',
+    batch_id: batch.batchId
+  };
+}
+
+/**
+ * Groups a provider's records by company, keeping first-seen company order
+ */
+function groupByCompany(records: CompanyRecord[]): Map<string, ProviderRecord[]> {
+  const groups = new Map<string, ProviderRecord[]>();
+  for (const { companyId, record } of records) {
+    const group = groups.get(companyId);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(companyId, [record]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Builds the provider files of a batch
+ * Each company file gets its own header/trailer, so control totals cover only that company's records
+ * @param providers Records and mapping of each provider, in file order
+ * @param batch Batch the records were processed in
+ * @param header HDR record of the upload (supplies template values)
+ * @param settings Split and naming settings
+ * @returns Bundle with the rendered files and manifest
+ */
+export function buildOutputBundle(
+  providers: BundleProviderRecords[],
+  batch: BatchInfo,
+  header: HDRRecord | undefined,
+  settings: OutputBundleSettings
+): OutputBundle {
+  const baseContext = createBaseContext(batch, header);
+  const files: BundleFile[] = [];
+  const usedNames = new Set<string>();
+
+  for (const { providerId, mapping, mappingVersion, records } of providers) {
+    const descriptor = getProvider(providerId);
+    const groups = settings.splitByCompany
+      ? groupByCompany(records)
+      : new Map([['', records.map(({ record }) => record)]]);
+
+    for (const [companyId, companyRecords] of groups) {
+      const file = renderProviderFile(providerId, companyRecords, mapping, batch);
+      const baseName = renderFileNameTemplate(settings.fileNameTemplate, {
+        ...baseContext,
+        provider: withoutExtension(descriptor.fileName),
+        provider_id: providerId,
+        company_id: companyId,
+        sequence: String(files.length + 1).padStart(3, '0')
+      });
+      const fileName = baseName + extensionOf(file.fileName);
+      if (usedNames.has(fileName.toLowerCase())) {
+        throw new Error(
+          `File name template '${settings.fileNameTemplate}' produces '${fileName}' more than once - include {provider}, {company_id} or {sequence}`
+        );
+      }
+      usedNames.add(fileName.toLowerCase());
+
+      files.push({
+        fileName,
+        providerId,
+        companyId,
+        mappingVersion: mappingVersion ?? null,
+        recordCount: companyRecords.length,
+        content: file.dialect ? encodeText(file.content, file.dialect.encoding, file.dialect.bom) : encodeText(file.content, 'utf-8'),
+        warnings: file.warnings
+      });
+    }
+  }
+
+  const manifest: BundleManifest = {
+    batchId: batch.batchId,
+    employerId: baseContext.employer_id,
+    uploadId: baseContext.upload_id,
+    processingDate: baseContext.processing_date,
+    sourceFileName: header?.file_name || '',
+    createdAt: batch.createdAt,
+    totalFiles: files.length,
+    totalRecords: files.reduce((sum, file) => sum + file.recordCount, 0),
+    files: files.map(file => ({
+      fileName: file.fileName,
+      provider: file.providerId,
+      companyId: file.companyId,
+      mappingVersion: file.mappingVersion,
+      records: file.recordCount,
+      bytes: file.content.length,
+      crc32: crc32(file.content).toString(16).padStart(8, '0')
+    }))
+  };
+
+  return {
+    fileName: `provider_files_${batch.batchId}.zip`,
+    files,
+    manifest
+  };
+}
+
+/**
+ * Packages a bundle as a ZIP archive with manifest.json first
+ * @param bundle Bundle from buildOutputBundle
+ * @returns Archive bytes
+ */
+export function createBundleArchive(bundle: OutputBundle): Uint8Array<ArrayBuffer> {
+  return createZip(
+    [
+      { name: 'manifest.json', data: encodeText(JSON.stringify(bundle.manifest, null, 2), 'utf-8') },
+      ...bundle.files.map(file => ({ name: file.fileName, data: file.content }))
+    ],
+    new Date(bundle.manifest.createdAt)
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * Output Schema Service
+ * Checks transformed provider records against the column constraints the provider declares
+ */
+
+import type { OutputColumn, ProviderRecord } from '../types';
+
+/**
+ * Constraint an output value broke
+ */
+export type OutputSchemaRule = 'required' | 'maxLength' | 'allowedValues' | 'pattern' | 'numeric' | 'range';
+
+/**
+ * Output value that breaks its column's constraints
+ */
+export interface OutputSchemaViolation {
+  column: string;
+  value: string;
+  rule: OutputSchemaRule;
+  message: string;
+  suggestedFix: string;
+}
+
+/**
+ * Plain decimal number accepted by numeric columns (no currency symbols or separators)
+ */
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Compiled column patterns, keyed by pattern source
+ */
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Compiles a column pattern so it must match the whole value
+ */
+function compilePattern(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    regex = new RegExp(`^(?:${pattern})$`);
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+/**
+ * Checks one value against its column's constraints
+ * @param column Output column definition
+ * @param value Transformed value
+ * @returns The first constraint the value breaks, or null when it is valid
+ */
+export function checkOutputValue(column: OutputColumn, value: string): OutputSchemaViolation | null {
+  const violation = (rule: OutputSchemaRule, message: string, suggestedFix: string): OutputSchemaViolation => ({
+    column: column.name,
+    value,
+    rule,
+    message,
+    suggestedFix
+  });
+
+  if (value.trim() === '') {
+    return column.required
+      ? violation('required', `'${column.name}' is required but the mapping produced a blank value`, 'Fill in the source field, or give the column a default value in the Mapping Configuration')
+      : null;
+  }
+  if (column.maxLength !== undefined && value.length > column.maxLength) {
+    return violation(
+      'maxLength',
+      `'${column.name}' is ${value.length} characters long (maximum ${column.maxLength})`,
+      `Shorten the value to ${column.maxLength} characters or fewer`
+    );
+  }
+  if (column.allowedValues && !column.allowedValues.includes(value)) {
+    return violation(
+      'allowedValues',
+      `'${column.name}' value '${value}' is not an accepted code (expected one of: ${column.allowedValues.join(', ')})`,
+      'Correct the source value, or translate it with a crosswalk in the Mapping Configuration'
+    );
+  }
+  if (column.pattern && !compilePattern(column.pattern).test(value)) {
+    const expected = column.patternDescription || `pattern ${column.pattern}`;
+    return violation('pattern', `'${column.name}' value '${value}' does not match the expected format (${expected})`, `Use the format ${expected}`);
+  }
+  if (column.numeric || column.min !== undefined || column.max !== undefined) {
+    if (!NUMBER_PATTERN.test(value)) {
+      return violation('numeric', `'${column.name}' value '${value}' is not a number`, 'Use a plain number without currency symbols or separators');
+    }
+    const number = Number(value);
+    if ((column.min !== undefined && number < column.min) || (column.max !== undefined && number > column.max)) {
+      const range = column.max === undefined
+        ? `at least ${column.min}`
+        : column.min === undefined
+          ? `at most ${column.max}`
+          : `between ${column.min} and ${column.max}`;
+      return violation('range', `'${column.name}' value ${value} is out of range (must be ${range})`, `Use a value ${range}`);
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates a transformed record against a provider's output schema
+ * @param record Provider record from the transformer
+ * @param schema Provider output columns
+ * @returns One violation per column that breaks its constraints, in column order
+ */
+export function validateProviderRecord(record: ProviderRecord, schema: OutputColumn[]): OutputSchemaViolation[] {
+  const violations: OutputSchemaViolation[] = [];
+  for (const column of schema) {
+    const violation = checkOutputValue(column, record[column.name] ?? '');
+    if (violation) {
+      violations.push(violation);
+    }
+  }
+  return violations;
+}
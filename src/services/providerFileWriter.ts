@@ -0,0 +1,164 @@
+/**
+ * Provider File Writer Service
+ * Renders transformed records into the output format chosen by a provider mapping,
+ * wrapped in the mapping's header/trailer envelope
+ */
+
+import type { BatchInfo, CsvDialect, EnvelopeField, ProviderId, ProviderMapping, ProviderRecord } from '../types';
+import { getProvider } from './providerRegistry';
+import { evaluateEnvelopeRecord } from './envelope';
+import { arrayToFixedWidth, formatFixedWidthRecord } from '../utils/fixedWidthWriter';
+import type { FixedWidthWarning } from '../utils/fixedWidthWriter';
+import { DEFAULT_CSV_DIALECT, toCSVRow } from '../utils/csvWriter';
+import { createWorkbook } from '../utils/xlsxWriter';
+import type { WorksheetData } from '../utils/xlsxWriter';
+
+/**
+ * Rendered provider file
+ */
+export interface ProviderFile {
+  fileName: string;
+  content: string;
+  warnings: FixedWidthWarning[];
+  dialect?: CsvDialect; // Delimited files only (its encoding and BOM apply when downloading)
+}
+
+/**
+ * Replaces the extension of a file name
+ */
+function withExtension(fileName: string, extension: string): string {
+  const dotIndex = fileName.lastIndexOf('.');
+  return `${dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName}.${extension}`;
+}
+
+/**
+ * Renders an envelope record as a fixed-width line
+ * Fields are laid out left to right; a field without a length takes its value's length
+ */
+function formatEnvelopeLine(
+  fields: EnvelopeField[],
+  values: ProviderRecord,
+  rowNumber: number,
+  warnings: FixedWidthWarning[]
+): string {
+  let start = 1;
+  const columns = fields.map(field => {
+    const length = field.length || Math.max(values[field.name].length, 1);
+    const column = { field: field.name, start, length, justify: field.justify, padChar: field.padChar };
+    start += length;
+    return column;
+  });
+  return formatFixedWidthRecord(values, columns, rowNumber, warnings);
+}
+
+/**
+ * Renders a provider file
+ * @param providerId Registered provider id
+ * @param records Transformed provider records
+ * @param mapping Mapping the records were produced with (selects the output format and envelope)
+ * @param batch Batch identity used by header/trailer records (required when the mapping has an envelope)
+ * @returns File name, content and any formatting warnings
+ */
+export function renderProviderFile(
+  providerId: ProviderId,
+  records: ProviderRecord[],
+  mapping?: ProviderMapping,
+  batch?: BatchInfo
+): ProviderFile {
+  const descriptor = getProvider(providerId);
+  const output = mapping?.output;
+  const envelope = mapping?.envelope;
+  const headerFields = envelope?.header || [];
+  const trailerFields = envelope?.trailer || [];
+
+  if ((headerFields.length > 0 || trailerFields.length > 0) && !batch) {
+    throw new Error(`${descriptor.displayName} file has a header/trailer but no batch information was provided`);
+  }
+
+  const header = headerFields.length > 0 && batch ? evaluateEnvelopeRecord(headerFields, records, batch, mapping?.money) : null;
+  const trailer = trailerFields.length > 0 && batch ? evaluateEnvelopeRecord(trailerFields, records, batch, mapping?.money) : null;
+
+  if (output?.format === 'fixed-width') {
+    if (!output.fixedWidthColumns || output.fixedWidthColumns.length === 0) {
+      throw new Error(`${descriptor.displayName} mapping uses fixed-width output but defines no columns`);
+    }
+    const lineTerminator = '\r\n';
+    const { content, warnings } = arrayToFixedWidth(records, output.fixedWidthColumns, lineTerminator);
+    const headerLine = header ? formatEnvelopeLine(headerFields, header, 0, warnings) + lineTerminator : '';
+    const trailerLine = trailer ? formatEnvelopeLine(trailerFields, trailer, records.length + 1, warnings) + lineTerminator : '';
+    return {
+      fileName: withExtension(descriptor.fileName, 'txt'),
+      content: headerLine + content + trailerLine,
+      warnings
+    };
+  }
+
+  const columns = records.length > 0
+    ? Object.keys(records[0])
+    : descriptor.outputSchema.map(column => column.name);
+  const dialect = output?.dialect || DEFAULT_CSV_DIALECT;
+  const lines = [descriptor.writeFile(records, columns, dialect)];
+  if (header) {
+    lines.unshift(toCSVRow(headerFields.map(field => header[field.name]), dialect));
+  }
+  if (trailer) {
+    lines.push(toCSVRow(trailerFields.map(field => trailer[field.name]), dialect));
+  }
+  return {
+    fileName: dialect.delimiter === ',' ? descriptor.fileName : withExtension(descriptor.fileName, 'txt'),
+    content: lines.filter(line => line !== '').join(dialect.lineTerminator),
+    warnings: [],
+    dialect
+  };
+}
+
+/**
+ * Provider records to place on a workbook sheet
+ */
+export interface WorkbookProviderRecords {
+  providerId: ProviderId;
+  records: ProviderRecord[];
+}
+
+/**
+ * Rendered provider workbook
+ */
+export interface ProviderWorkbook {
+  fileName: string;
+  content: Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Renders an Excel workbook with one sheet per provider plus a summary sheet
+ * Identifier columns (routing/account numbers, ZIPs, employee numbers) are written as text
+ * @param providers Records of each provider, in sheet order
+ * @param batch Batch identity shown on the summary sheet
+ * @returns Workbook file name and bytes
+ */
+export function renderProviderWorkbook(providers: WorkbookProviderRecords[], batch?: BatchInfo): ProviderWorkbook {
+  const summary: WorksheetData = {
+    name: 'Summary',
+    headers: ['Provider', 'Records', 'Batch ID', 'Employer ID', 'Created At'],
+    rows: providers.map(({ providerId, records }) => ({
+      'Provider': getProvider(providerId).displayName,
+      'Records': records.length,
+      'Batch ID': batch?.batchId ?? '',
+      'Employer ID': batch?.employerId ?? '',
+      'Created At': batch?.createdAt ?? ''
+    }))
+  };
+
+  const sheets = providers.map(({ providerId, records }): WorksheetData => {
+    const descriptor = getProvider(providerId);
+    return {
+      name: descriptor.displayName,
+      headers: records.length > 0 ? Object.keys(records[0]) : descriptor.outputSchema.map(column => column.name),
+      rows: records
+    };
+  });
+
+  return {
+    fileName: `provider_files${batch ? `_${batch.batchId}` : ''}.xlsx`,
+    content: createWorkbook([summary, ...sheets])
+  };
+}
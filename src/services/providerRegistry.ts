@@ -0,0 +1,94 @@
+/**
+ * Provider Registry Service
+ * Central registry of payroll provider descriptors and their enabled state
+ */
+
+import type { ProviderDescriptor, ProviderId } from '../types';
+import { builtInProviders } from '../config/providers';
+
+const ENABLED_PROVIDERS_STORAGE_KEY = 'payroll_enabled_providers';
+
+const registry = new Map<ProviderId, ProviderDescriptor>();
+
+for (const descriptor of builtInProviders) {
+  registry.set(descriptor.id, descriptor);
+}
+
+/**
+ * Registers a provider descriptor
+ * Registering an existing id replaces the previous descriptor
+ * @param descriptor Provider descriptor
+ */
+export function registerProvider(descriptor: ProviderDescriptor): void {
+  if (!descriptor.id || descriptor.id.trim() === '') {
+    throw new Error('Provider descriptor must have a non-empty id');
+  }
+  registry.set(descriptor.id, descriptor);
+}
+
+/**
+ * Gets a registered provider descriptor
+ * @param providerId Provider id
+ * @returns Provider descriptor
+ */
+export function getProvider(providerId: ProviderId): ProviderDescriptor {
+  const descriptor = registry.get(providerId);
+  if (!descriptor) {
+    throw new Error(`Unknown provider: ${providerId}`);
+  }
+  return descriptor;
+}
+
+/**
+ * Lists all registered providers in registration order
+ */
+export function getProviders(): ProviderDescriptor[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Reads enabled-state overrides from localStorage
+ */
+function getEnabledOverrides(): Record<ProviderId, boolean> {
+  try {
+    const stored = localStorage.getItem(ENABLED_PROVIDERS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn('Failed to load enabled providers, using defaults');
+    return {};
+  }
+}
+
+/**
+ * Checks whether a provider is enabled for processing
+ * @param providerId Provider id
+ */
+export function isProviderEnabled(providerId: ProviderId): boolean {
+  const overrides = getEnabledOverrides();
+  if (providerId in overrides) {
+    return overrides[providerId];
+  }
+  return getProvider(providerId).enabledByDefault !== false;
+}
+
+/**
+ * Enables or disables a provider for processing
+ * @param providerId Provider id
+ * @param enabled Whether the provider should receive files
+ */
+export function setProviderEnabled(providerId: ProviderId, enabled: boolean): void {
+  getProvider(providerId); // Throws for unknown providers
+  const overrides = { ...getEnabledOverrides(), [providerId]: enabled };
+  try {
+    localStorage.setItem(ENABLED_PROVIDERS_STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    throw new Error(`Failed to update provider ${providerId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Lists providers that are enabled for processing
+ */
+export function getEnabledProviders(): ProviderDescriptor[] {
+  return getProviders().filter(descriptor => isProviderEnabled(descriptor.id));
+}
@@ -0,0 +1,114 @@
+/**
+ * Routing Service
+ * Decides which payroll provider(s) each employee is sent to using employer routing rules
+ */
+
+import type { EmployeeRecord, ProviderId, RoutingConfig } from '../types';
+import { isEmployeeField } from '../config/employeeFields';
+import { collectReferences, evaluateExpression } from './expressionEngine';
+import type { ExpressionScope } from './expressionEngine';
+import { isTruthy } from './expressionValues';
+
+/**
+ * Routing outcome for one employee
+ */
+export interface RoutingDecision {
+  providers: ProviderId[]; // Enabled providers the employee is sent to (empty when unrouted)
+  matchedRules: string[]; // Names of the rules that matched
+  disabledProviders: ProviderId[]; // Providers a matching rule named that are not enabled for the run
+}
+
+/**
+ * Whether a rule condition can refer to a name: company_id or a standard employee field
+ */
+function isRoutingVariable(name: string): boolean {
+  return name === 'company_id' || isEmployeeField(name);
+}
+
+/**
+ * Builds the scope for a rule condition: company_id plus every employee field
+ */
+function createRoutingScope(employee: EmployeeRecord, companyId: string): ExpressionScope {
+  return {
+    resolve: (name: string) => {
+      if (!isRoutingVariable(name)) {
+        throw new Error(`unknown variable '${name}' (use company_id or an employee field)`);
+      }
+      if (name === 'company_id') {
+        return companyId;
+      }
+      const fieldValue = employee[name as keyof EmployeeRecord];
+      return fieldValue === undefined || fieldValue === null ? '' : String(fieldValue);
+    }
+  };
+}
+
+/**
+ * Checks a rule condition before any employee is routed
+ * Every referenced name must be known (short-circuited branches included), and the condition
+ * must evaluate against the sample employee, which catches errors that parsing alone misses
+ * @param when Rule condition (blank matches every employee)
+ * @param sample Employee to evaluate the condition against (blank fields when omitted)
+ * @param companyId Sample employee's company
+ * @returns Error message, or null when the condition is valid
+ */
+export function checkRoutingCondition(when: string, sample: Partial<EmployeeRecord> = {}, companyId = ''): string | null {
+  if (when.trim() === '') {
+    return null;
+  }
+  try {
+    const unknown = collectReferences(when).identifiers.filter(name => !isRoutingVariable(name));
+    if (unknown.length > 0) {
+      return `unknown variable '${unknown[0]}' (use company_id or an employee field)`;
+    }
+    evaluateExpression(when, createRoutingScope(sample as EmployeeRecord, companyId));
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid condition';
+  }
+}
+
+/**
+ * Routes an employee to providers
+ * With routing disabled every enabled provider receives the employee
+ * @param employee Employee record
+ * @param companyId Company the employee belongs to (DET record company_id, blank when unknown)
+ * @param config Employer routing configuration
+ * @param enabledProviders Providers enabled for the run
+ * @returns Routing decision
+ */
+export function routeEmployee(
+  employee: EmployeeRecord,
+  companyId: string,
+  config: RoutingConfig,
+  enabledProviders: ProviderId[]
+): RoutingDecision {
+  if (!config.enabled) {
+    return { providers: [...enabledProviders], matchedRules: [], disabledProviders: [] };
+  }
+
+  const scope = createRoutingScope(employee, companyId);
+  const named = new Set<ProviderId>();
+  const matchedRules: string[] = [];
+
+  for (const rule of config.rules) {
+    let matches: boolean;
+    try {
+      matches = rule.when.trim() === '' || isTruthy(evaluateExpression(rule.when, scope));
+    } catch (error) {
+      throw new Error(`Routing rule '${rule.name}' failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (!matches) {
+      continue;
+    }
+    matchedRules.push(rule.name);
+    rule.providers.forEach(providerId => named.add(providerId));
+    if (config.mode === 'first-match') {
+      break;
+    }
+  }
+
+  const providers = enabledProviders.filter(providerId => named.has(providerId));
+  const disabledProviders = Array.from(named).filter(providerId => !enabledProviders.includes(providerId));
+  return { providers, matchedRules, disabledProviders };
+}
@@ -0,0 +1,150 @@
+/**
+ * Sequence Integrity Service
+ * Checks DET record_sequence numbers across the whole file for gaps, duplicates, resets and out-of-order rows,
+ * the usual signs of a partially transferred or concatenated SFTP file
+ */
+
+/**
+ * Kind of sequence problem
+ */
+export type SequenceIssueKind = 'gap' | 'duplicate' | 'reset' | 'out_of_order';
+
+/**
+ * File-level sequence problem with the rows it affects
+ */
+export interface SequenceFinding {
+  kind: SequenceIssueKind;
+  firstRow: number;
+  lastRow: number;
+  sequences: string; // Sequence numbers involved (e.g., "4-6")
+  message: string;
+}
+
+/**
+ * record_sequence value of one DET row
+ */
+export interface SequenceEntry {
+  row: number; // File row number
+  sequence: string;
+}
+
+/**
+ * Formats a number range as "a" or "a-b"
+ */
+function formatRange(first: number, last: number): string {
+  return first === last ? String(first) : `${first}-${last}`;
+}
+
+/**
+ * Formats a row range as "Row a" or "Rows a-b"
+ */
+function formatRows(first: number, last: number): string {
+  return first === last ? `Row ${first}` : `Rows ${first}-${last}`;
+}
+
+/**
+ * Analyzes the record_sequence numbers of a file's DET rows
+ * A drop back to 1 starts a new run (reset); each run is then checked for duplicates, out-of-order rows and gaps.
+ * Non-numeric sequences are skipped (the record validator reports them).
+ * @param entries DET rows in file order
+ * @returns Findings in file order
+ */
+export function analyzeRecordSequence(entries: SequenceEntry[]): SequenceFinding[] {
+  const findings: SequenceFinding[] = [];
+  const numbered = entries
+    .filter(entry => /^\d+$/.test(entry.sequence.trim()))
+    .map(entry => ({ row: entry.row, value: Number(entry.sequence.trim()) }));
+
+  // Split into runs at every reset to 1
+  const runs: { row: number; value: number }[][] = [];
+  for (const entry of numbered) {
+    const run = runs[runs.length - 1];
+    if (!run || (entry.value === 1 && run.length > 0)) {
+      if (run) {
+        const previous = run[run.length - 1];
+        findings.push({
+          kind: 'reset',
+          firstRow: previous.row,
+          lastRow: entry.row,
+          sequences: `${previous.value} -> 1`,
+          message: `${formatRows(previous.row, entry.row)}: record_sequence restarts at 1 after ${previous.value} (rows ${run[0].row}-${previous.row} and the rows from ${entry.row} look like separate files joined together)`
+        });
+      }
+      runs.push([entry]);
+    } else {
+      run.push(entry);
+    }
+  }
+
+  for (const run of runs) {
+    const rowsByValue = new Map<number, number[]>();
+    let highest = 0;
+    let outOfOrder: { row: number; value: number }[] = [];
+
+    const flushOutOfOrder = () => {
+      if (outOfOrder.length === 0) {
+        return;
+      }
+      const first = outOfOrder[0];
+      const last = outOfOrder[outOfOrder.length - 1];
+      findings.push({
+        kind: 'out_of_order',
+        firstRow: first.row,
+        lastRow: last.row,
+        sequences: outOfOrder.map(entry => entry.value).join(', '),
+        message: `${formatRows(first.row, last.row)}: record_sequence ${outOfOrder.map(entry => entry.value).join(', ')} ${outOfOrder.length === 1 ? 'is' : 'are'} out of order (after ${highest})`
+      });
+      outOfOrder = [];
+    };
+
+    for (const entry of run) {
+      const rows = rowsByValue.get(entry.value);
+      if (rows) {
+        rows.push(entry.row);
+      } else {
+        rowsByValue.set(entry.value, [entry.row]);
+      }
+      if (entry.value < highest && !rows) {
+        outOfOrder.push(entry);
+        continue;
+      }
+      flushOutOfOrder();
+      highest = Math.max(highest, entry.value);
+    }
+    flushOutOfOrder();
+
+    // Duplicates, one finding per repeated number
+    for (const [value, rows] of rowsByValue) {
+      if (rows.length > 1) {
+        findings.push({
+          kind: 'duplicate',
+          firstRow: rows[0],
+          lastRow: rows[rows.length - 1],
+          sequences: String(value),
+          message: `${formatRows(rows[0], rows[rows.length - 1])}: record_sequence ${value} appears ${rows.length} times (rows ${rows.join(', ')})`
+        });
+      }
+    }
+
+    // Gaps: numbers missing between 1 and the highest number of the run
+    let previous = 0;
+    for (const value of [...rowsByValue.keys()].sort((a, b) => a - b)) {
+      if (value > previous + 1) {
+        const missing = formatRange(previous + 1, value - 1);
+        const before = rowsByValue.get(previous)?.[0] ?? run[0].row;
+        const after = rowsByValue.get(value)?.[0] ?? run[run.length - 1].row;
+        const [firstRow, lastRow] = before <= after ? [before, after] : [after, before];
+        findings.push({
+          kind: 'gap',
+          firstRow,
+          lastRow,
+          sequences: missing,
+          message: `${formatRows(firstRow, lastRow)}: record_sequence ${missing} ${value - 1 === previous + 1 ? 'is' : 'are'} missing`
+        });
+      }
+      previous = value;
+    }
+  }
+
+  return findings.sort((a, b) => a.firstRow - b.firstRow);
+}
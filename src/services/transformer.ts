@@ -1,116 +1,324 @@
 /**
  * Transformer Service
- * Transforms employee records to provider-specific formats (ADP, QuickBooks)
+ * Transforms employee records to provider-specific formats using registered provider descriptors
  */
 
-import type { EmployeeRecord, ADPRecord, QuickBooksRecord, ProviderMapping } from '../types';
-import { adpMapping, quickBooksMapping } from '../config/defaultMappings';
+import type { Deduction, EmployeeRecord, FieldMapping, ProviderId, ProviderMapping, ProviderRecord, ErrorType } from '../types';
+import { getProvider } from './providerRegistry';
+import { evaluateExpression } from './expressionEngine';
+import type { ExpressionScope } from './expressionEngine';
+import { isTruthy, toText } from './expressionValues';
+import { createMoneyFunctions } from './expressionFunctions';
+import { DEFAULT_MONEY_SETTINGS } from './money';
+import { findCrosswalk, translateCode } from './crosswalk';
+import { normalizeDeductions, assignDeductionSlots } from './deductions';
 
 /**
- * Gets mapping configuration for a provider
- * Supports loading custom mappings from localStorage
+ * Issue raised while transforming a record (e.g., a value missing from a crosswalk)
  */
-function getProviderMapping(provider: 'ADP' | 'QuickBooks'): ProviderMapping {
-  // Try to load custom mapping from localStorage
-  const customMappingKey = `payroll_mapping_${provider}`;
-  try {
-    const stored = localStorage.getItem(customMappingKey);
-    if (stored) {
-      return JSON.parse(stored) as ProviderMapping;
+export interface TransformIssue {
+  severity: 'error' | 'warning';
+  targetField: string;
+  sourceField: string;
+  value: string;
+  message: string;
+  errorType?: ErrorType; // Defaults to UNMAPPED_VALUE
+  suggestedFix?: string;
+}
+
+/**
+ * Builds the expression scope for a field mapping
+ * `value` is the mapped source value; every other identifier is an employee field
+ * crosswalk("<table>", value) translates codes and records unmapped values as issues;
+ * money functions (fixed, money, perPaycheck, ...) use the mapping's money settings
+ */
+function createScope(
+  employee: EmployeeRecord,
+  sourceValue: string,
+  fieldMapping: FieldMapping,
+  mapping: ProviderMapping,
+  issues?: TransformIssue[]
+): ExpressionScope {
+  return {
+    resolve: (name: string) => {
+      if (name === 'value') {
+        return sourceValue;
+      }
+      if (!Object.prototype.hasOwnProperty.call(employee, name)) {
+        return '';
+      }
+      const fieldValue = employee[name as keyof EmployeeRecord];
+      return fieldValue === undefined || fieldValue === null ? '' : String(fieldValue);
+    },
+    functions: {
+      ...createMoneyFunctions(mapping.money ?? DEFAULT_MONEY_SETTINGS),
+      crosswalk: ([tableName, value]) => {
+        const table = findCrosswalk(mapping.crosswalks, toText(tableName));
+        if (!table) {
+          throw new Error(`unknown crosswalk table '${toText(tableName)}'`);
+        }
+        const rawValue = toText(value);
+        const result = translateCode(table, rawValue);
+        if (!result.mapped && table.unmappedPolicy !== 'passthrough' && issues) {
+          issues.push({
+            severity: table.unmappedPolicy === 'error' ? 'error' : 'warning',
+            targetField: fieldMapping.targetField,
+            sourceField: fieldMapping.sourceField,
+            value: rawValue,
+            message: `Value '${rawValue}' has no ${mapping.provider} code in crosswalk '${table.name}' (${fieldMapping.targetField})${table.defaultCode ? ` - default code '${table.defaultCode}' used` : ''}`
+          });
+        }
+        return result.code;
+      }
     }
-  } catch (error) {
-    console.warn(`Failed to load custom mapping for ${provider}, using default`);
-  }
+  };
+}
 
-  // Return default mapping
-  return provider === 'ADP' ? adpMapping : quickBooksMapping;
+/**
+ * Output of one field mapping and the branch that produced it
+ */
+export interface FieldMappingResult {
+  value: string;
+  branch: number; // Index of the conditional branch whose condition held (-1 = else: source field, transformation, default)
 }
 
 /**
- * Transforms an employee record to ADP format
+ * Evaluates one field mapping: the first conditional branch whose condition holds, otherwise
+ * source value -> transformation -> default value
  * @param employee Employee record
- * @returns ADP-formatted record
+ * @param fieldMapping Field mapping (conditions, source field, transformation, default)
+ * @param mapping Mapping the field belongs to (provides crosswalk tables)
+ * @param issues Optional collector for transformation issues
+ * @returns Output value and the branch used
  */
-export function transformToADP(employee: EmployeeRecord): ADPRecord {
-  const mapping = getProviderMapping('ADP');
-  const adpRecord: Partial<ADPRecord> = {};
+export function evaluateFieldMapping(
+  employee: EmployeeRecord,
+  fieldMapping: FieldMapping,
+  mapping: ProviderMapping,
+  issues?: TransformIssue[]
+): FieldMappingResult {
+  const rawValue = fieldMapping.sourceField
+    ? employee[fieldMapping.sourceField as keyof EmployeeRecord]
+    : '';
+  const sourceValue = rawValue === undefined || rawValue === null ? '' : String(rawValue);
+  const scope = createScope(employee, sourceValue, fieldMapping, mapping, issues);
 
-  // Apply field mappings
-  for (const fieldMapping of mapping.fieldMappings) {
-    const sourceValue = employee[fieldMapping.sourceField as keyof EmployeeRecord];
-    
-    // Apply transformation if exists
-    const targetField = fieldMapping.targetField;
-    if (mapping.transformations[targetField]) {
-      adpRecord[targetField as keyof ADPRecord] = mapping.transformations[targetField](
-        String(sourceValue || ''),
-        employee
-      ) as any;
-    } else {
-      adpRecord[targetField as keyof ADPRecord] = String(sourceValue || '') as any;
+  const branches = fieldMapping.conditions || [];
+  for (let index = 0; index < branches.length; index++) {
+    const branch = branches[index];
+    let matches: boolean;
+    try {
+      matches = isTruthy(evaluateExpression(branch.when, scope));
+    } catch (error) {
+      throw new Error(
+        `Condition ${index + 1} for '${fieldMapping.targetField}' failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    if (!matches) {
+      continue;
+    }
+    try {
+      return { value: toText(evaluateExpression(branch.then, scope)), branch: index };
+    } catch (error) {
+      throw new Error(
+        `Condition ${index + 1} value for '${fieldMapping.targetField}' failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
   }
 
-  // Apply transformations for fields that don't have direct mappings
-  for (const [targetField, transformFn] of Object.entries(mapping.transformations)) {
-    if (!adpRecord[targetField as keyof ADPRecord]) {
-      adpRecord[targetField as keyof ADPRecord] = transformFn('', employee) as any;
+  let output = sourceValue;
+  if (fieldMapping.transformation && fieldMapping.transformation.trim() !== '') {
+    try {
+      output = toText(evaluateExpression(fieldMapping.transformation, scope));
+    } catch (error) {
+      throw new Error(
+        `Transformation for '${fieldMapping.targetField}' failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
   }
 
-  return adpRecord as ADPRecord;
+  if (output === '' && fieldMapping.defaultValue !== undefined) {
+    return { value: fieldMapping.defaultValue, branch: -1 };
+  }
+  return { value: output, branch: -1 };
 }
 
 /**
- * Transforms an employee record to QuickBooks format
+ * Computes the output value for one field mapping
  * @param employee Employee record
- * @returns QuickBooks-formatted record
+ * @param fieldMapping Field mapping (conditions, source field, transformation, default)
+ * @param mapping Mapping the field belongs to (provides crosswalk tables)
+ * @param issues Optional collector for transformation issues
+ * @returns Output value
  */
-export function transformToQuickBooks(employee: EmployeeRecord): QuickBooksRecord {
-  const mapping = getProviderMapping('QuickBooks');
-  const qbRecord: Partial<QuickBooksRecord> = {};
+export function applyFieldMapping(
+  employee: EmployeeRecord,
+  fieldMapping: FieldMapping,
+  mapping: ProviderMapping,
+  issues?: TransformIssue[]
+): string {
+  return evaluateFieldMapping(employee, fieldMapping, mapping, issues).value;
+}
+
+/**
+ * Variables a deduction exposes to slot column expressions
+ */
+function deductionVariables(deduction: Deduction | null): Record<string, string> {
+  return {
+    type: deduction?.type ?? '',
+    code: deduction?.code ?? '',
+    amount: deduction?.amount ?? '',
+    percent: deduction?.percent ?? '',
+    tax_treatment: deduction?.taxTreatment ?? '',
+    start_date: deduction?.startDate ?? ''
+  };
+}
 
-  // Apply field mappings
+/**
+ * Variables available to deduction slot column expressions (besides employee fields)
+ */
+export const DEDUCTION_VARIABLES = Object.keys(deductionVariables(null));
+
+/**
+ * Fills a mapping's deduction slots from the employee's normalized deductions
+ * Deductions that do not fit a slot are reported as issues with the mapping's overflow severity
+ * @param employee Employee record
+ * @param mapping Provider mapping (must define deduction rules to produce any columns)
+ * @param issues Optional collector for transformation issues
+ * @returns Slot output columns
+ */
+export function applyDeductionRules(
+  employee: EmployeeRecord,
+  mapping: ProviderMapping,
+  issues?: TransformIssue[]
+): ProviderRecord {
+  const rules = mapping.deductions;
+  const output: ProviderRecord = {};
+  if (!rules) {
+    return output;
+  }
+
+  const { slots, leftovers } = assignDeductionSlots(normalizeDeductions(employee), rules);
+
+  rules.slots.forEach((slot, index) => {
+    const deduction = slots[index];
+    const variables = deductionVariables(deduction);
+    for (const [column, expression] of Object.entries(slot.columns)) {
+      const fieldMapping: FieldMapping = { sourceField: deduction?.sourceField ?? '', targetField: column };
+      const scope = createScope(employee, variables.code, fieldMapping, mapping, issues);
+      const resolveEmployee = scope.resolve;
+      scope.resolve = (name: string) => (Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : resolveEmployee(name));
+      try {
+        output[column] = toText(evaluateExpression(expression, scope));
+      } catch (error) {
+        throw new Error(
+          `Deduction slot ${index + 1} column '${column}' failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  });
+
+  if (issues) {
+    for (const deduction of leftovers) {
+      issues.push({
+        severity: rules.overflow === 'error' ? 'error' : 'warning',
+        targetField: '',
+        sourceField: deduction.sourceField,
+        value: deduction.code,
+        message: `${mapping.provider} has no free deduction slot for ${deduction.type} deduction '${deduction.code}'${deduction.amount ? ` (${deduction.amount})` : ''} - it is not in the provider file`,
+        errorType: 'DEDUCTION_OVERFLOW',
+        suggestedFix: `Add a deduction slot or change the deduction priority for ${mapping.provider} in the Mapping Configuration`
+      });
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Applies a mapping to an employee record
+ * @param employee Employee record
+ * @param mapping Provider mapping configuration
+ * @param columns Output columns in file order (missing columns are emitted empty)
+ * @param issues Optional collector for transformation issues (unmapped crosswalk values, deduction overflow)
+ * @returns Provider record keyed by output column
+ */
+export function transformRecord(
+  employee: EmployeeRecord,
+  mapping: ProviderMapping,
+  columns: string[],
+  issues?: TransformIssue[]
+): ProviderRecord {
+  const mapped: ProviderRecord = {};
+  const conditioned = new Set<string>();
+
+  // Apply field mappings (matching conditional branch, else source value -> transformation expression -> default value)
   for (const fieldMapping of mapping.fieldMappings) {
-    const sourceValue = employee[fieldMapping.sourceField as keyof EmployeeRecord];
-    
-    // Apply transformation if exists
-    const targetField = fieldMapping.targetField;
-    if (mapping.transformations[targetField]) {
-      qbRecord[targetField as keyof QuickBooksRecord] = mapping.transformations[targetField](
-        String(sourceValue || ''),
-        employee
-      ) as any;
-    } else {
-      qbRecord[targetField as keyof QuickBooksRecord] = String(sourceValue || '') as any;
+    if (!fieldMapping.targetField) {
+      continue;
+    }
+    const result = evaluateFieldMapping(employee, fieldMapping, mapping, issues);
+    mapped[fieldMapping.targetField] = result.value;
+    if (result.branch >= 0) {
+      conditioned.add(fieldMapping.targetField);
     }
   }
 
-  // Apply transformations for fields that don't have direct mappings
-  for (const [targetField, transformFn] of Object.entries(mapping.transformations)) {
-    if (!qbRecord[targetField as keyof QuickBooksRecord]) {
-      qbRecord[targetField as keyof QuickBooksRecord] = transformFn('', employee) as any;
+  // Deduction slots take precedence over field mappings for the same column, unless a conditional branch matched
+  for (const [column, value] of Object.entries(applyDeductionRules(employee, mapping, issues))) {
+    if (!conditioned.has(column)) {
+      mapped[column] = value;
     }
   }
 
-  return qbRecord as QuickBooksRecord;
+  // Order output by the provider schema, keeping any extra mapped columns at the end
+  const record: ProviderRecord = {};
+  for (const column of columns) {
+    record[column] = mapped[column] ?? '';
+  }
+  for (const [column, value] of Object.entries(mapped)) {
+    if (!Object.prototype.hasOwnProperty.call(record, column)) {
+      record[column] = value;
+    }
+  }
+
+  return record;
 }
 
 /**
- * Transforms multiple employee records to ADP format
- * @param employees Array of employee records
- * @returns Array of ADP-formatted records
+ * Transforms an employee record to a provider's format
+ * @param providerId Registered provider id
+ * @param employee Employee record
+ * @param mapping Mapping to apply (defaults to the provider's default mapping)
+ * @param issues Optional collector for transformation issues
+ * @returns Provider-formatted record
  */
-export function transformEmployeesToADP(employees: EmployeeRecord[]): ADPRecord[] {
-  return employees.map(transformToADP);
+export function transformForProvider(
+  providerId: ProviderId,
+  employee: EmployeeRecord,
+  mapping?: ProviderMapping,
+  issues?: TransformIssue[]
+): ProviderRecord {
+  const descriptor = getProvider(providerId);
+  return transformRecord(
+    employee,
+    mapping || descriptor.defaultMapping,
+    descriptor.outputSchema.map(column => column.name),
+    issues
+  );
 }
 
 /**
- * Transforms multiple employee records to QuickBooks format
+ * Transforms multiple employee records to a provider's format
+ * @param providerId Registered provider id
  * @param employees Array of employee records
- * @returns Array of QuickBooks-formatted records
+ * @param mapping Mapping to apply (defaults to the provider's default mapping)
+ * @returns Array of provider-formatted records
  */
-export function transformEmployeesToQuickBooks(employees: EmployeeRecord[]): QuickBooksRecord[] {
-  return employees.map(transformToQuickBooks);
+export function transformEmployeesForProvider(
+  providerId: ProviderId,
+  employees: EmployeeRecord[],
+  mapping?: ProviderMapping
+): ProviderRecord[] {
+  return employees.map(employee => transformForProvider(providerId, employee, mapping));
 }
-
@@ -5,6 +5,9 @@
 
 import type { EmployeeRecord, DETRecord, ProcessingError, ErrorType } from '../types';
 import { generateErrorId } from './errorTracker';
+import { ZERO, addDecimals, compareDecimals, decimalFromInteger, decimalToString, parseDecimal } from './money';
+
+const ONE_HUNDRED = decimalFromInteger(100);
 
 /**
  * Required fields for DET records - record tracking fields
@@ -32,7 +35,6 @@ const REQUIRED_EMPLOYEE_FIELDS: (keyof EmployeeRecord)[] = [
   'hire_date',
   'job_title',
   'flsa_status',
-  'annual_salary',
   'pay_frequency',
   'fed_status',
   'fed_allowances',
@@ -48,6 +50,32 @@ const REQUIRED_EMPLOYEE_FIELDS: (keyof EmployeeRecord)[] = [
   'dd1_split_value'
 ];
 
+/**
+ * Required fields for contractors (1099) - replaces the W-2 field set
+ */
+const REQUIRED_CONTRACTOR_FIELDS: (keyof EmployeeRecord)[] = [
+  'employee_id',
+  'first_name',
+  'last_name',
+  'home_street',
+  'home_city',
+  'home_state',
+  'home_zip',
+  'hire_date',
+  'contractor_tin',
+  'contractor_tin_type',
+  'contractor_payment_method'
+];
+
+/**
+ * Bank account fields required for contractors paid by ACH
+ */
+const CONTRACTOR_ACH_FIELDS: (keyof EmployeeRecord)[] = [
+  'dd1_routing_number',
+  'dd1_account_number',
+  'dd1_account_type'
+];
+
 /**
  * Validates date format (YYYY-MM-DD)
  */
@@ -75,10 +103,10 @@ function isValidEmail(email: string): boolean {
 }
 
 /**
- * Validates numeric string
+ * Validates numeric string (it must also parse as an exact decimal, which rejects huge exponents)
  */
 function isNumeric(value: string): boolean {
-  return !isNaN(parseFloat(value)) && isFinite(parseFloat(value));
+  return !isNaN(parseFloat(value)) && isFinite(parseFloat(value)) && parseDecimal(value) !== null;
 }
 
 /**
@@ -104,6 +132,114 @@ function isValidStateCode(state: string): boolean {
 
 
 
+/**
+ * Compensation problem found by checkCompensation
+ */
+interface CompensationIssue {
+  field: keyof EmployeeRecord;
+  value: string;
+  errorType: ErrorType;
+  message: string;
+  suggestedFix: string;
+}
+
+/**
+ * Checks that pay rate type, rate fields, FLSA status and weekly hours agree with each other
+ * Salary workers need annual_salary; Hourly workers need hourly_rate and hours_per_week;
+ * Exempt workers must be salaried and Non-Exempt workers need standard weekly hours for overtime
+ */
+function checkCompensation(record: Partial<EmployeeRecord>): CompensationIssue[] {
+  const issues: CompensationIssue[] = [];
+  const rateType = record.pay_rate_type || 'Salary';
+  const annualSalary = (record.annual_salary || '').trim();
+  const hourlyRate = (record.hourly_rate || '').trim();
+  const hoursPerWeek = (record.hours_per_week || '').trim();
+
+  if (record.pay_rate_type && !['Salary', 'Hourly'].includes(record.pay_rate_type)) {
+    issues.push({
+      field: 'pay_rate_type',
+      value: record.pay_rate_type,
+      errorType: 'INVALID_FORMAT',
+      message: `Pay rate type must be 'Salary' or 'Hourly', got: ${record.pay_rate_type}`,
+      suggestedFix: 'Use "Salary" or "Hourly"'
+    });
+    return issues;
+  }
+
+  if (rateType === 'Salary' && !annualSalary) {
+    issues.push({
+      field: 'annual_salary',
+      value: '',
+      errorType: 'REQUIRED_FIELD_MISSING',
+      message: `Required employee field 'annual_salary' is missing or empty`,
+      suggestedFix: 'Provide the annual salary, or set pay_rate_type to Hourly and provide hourly_rate'
+    });
+  }
+
+  if (hourlyRate && (!isNumeric(hourlyRate) || parseFloat(hourlyRate) <= 0)) {
+    issues.push({
+      field: 'hourly_rate',
+      value: hourlyRate,
+      errorType: 'INVALID_FORMAT',
+      message: `Hourly rate must be a positive number, got: ${hourlyRate}`,
+      suggestedFix: 'Provide the rate per hour (e.g., 22.50)'
+    });
+  }
+
+  if (rateType === 'Hourly' && !hourlyRate) {
+    issues.push({
+      field: 'hourly_rate',
+      value: '',
+      errorType: 'REQUIRED_FIELD_MISSING',
+      message: 'Hourly workers need an hourly_rate',
+      suggestedFix: 'Provide the rate per hour (e.g., 22.50)'
+    });
+  }
+
+  if (rateType === 'Salary' && hourlyRate) {
+    issues.push({
+      field: 'pay_rate_type',
+      value: record.pay_rate_type || '',
+      errorType: 'BUSINESS_LOGIC_ERROR',
+      message: `hourly_rate is set but pay_rate_type is '${rateType}'`,
+      suggestedFix: 'Set pay_rate_type to Hourly, or clear hourly_rate for salaried workers'
+    });
+  }
+
+  if (hoursPerWeek) {
+    const hours = parseFloat(hoursPerWeek);
+    if (!isNumeric(hoursPerWeek) || hours <= 0 || hours > 168) {
+      issues.push({
+        field: 'hours_per_week',
+        value: hoursPerWeek,
+        errorType: 'INVALID_FORMAT',
+        message: `Hours per week must be a number between 0 and 168, got: ${hoursPerWeek}`,
+        suggestedFix: 'Provide standard weekly hours (e.g., 40 or 20)'
+      });
+    }
+  } else if (rateType === 'Hourly' || record.flsa_status === 'Non-Exempt') {
+    issues.push({
+      field: 'hours_per_week',
+      value: '',
+      errorType: 'BUSINESS_LOGIC_ERROR',
+      message: `${rateType === 'Hourly' ? 'Hourly' : 'Non-Exempt'} workers need standard hours_per_week`,
+      suggestedFix: 'Provide standard weekly hours (used for hours per pay period and overtime)'
+    });
+  }
+
+  if (rateType === 'Hourly' && record.flsa_status === 'Exempt') {
+    issues.push({
+      field: 'flsa_status',
+      value: record.flsa_status,
+      errorType: 'BUSINESS_LOGIC_ERROR',
+      message: 'FLSA Exempt workers must be paid on a salary basis, but pay_rate_type is Hourly',
+      suggestedFix: 'Set flsa_status to Non-Exempt, or pay_rate_type to Salary with an annual_salary'
+    });
+  }
+
+  return issues;
+}
+
 /**
  * Validates a DET (Detail) record
  * @param record DET record to validate
@@ -345,6 +481,17 @@ export function validateDETRecord(
     });
   }
 
+  // Validate pay rate type, rates, FLSA status and hours agree
+  for (const issue of checkCompensation(record)) {
+    errors.push({
+      id: generateErrorId(),
+      rowId,
+      row: rowIndex + 1,
+      ...issue,
+      timestamp: new Date().toISOString()
+    });
+  }
+
   // Validate FLSA status
   if (record.flsa_status && !['Exempt', 'Non-Exempt'].includes(record.flsa_status)) {
     errors.push({
@@ -378,8 +525,8 @@ export function validateDETRecord(
 
   // Business logic: Validate direct deposit split percentages
   if (record.dd1_split_type === 'Percent' && record.dd1_split_value) {
-    const percent = parseFloat(record.dd1_split_value);
-    if (isNaN(percent) || percent < 0 || percent > 100) {
+    const percent = parseDecimal(record.dd1_split_value);
+    if (!percent || compareDecimals(percent, ZERO) < 0 || compareDecimals(percent, ONE_HUNDRED) > 0) {
       errors.push({
         id: generateErrorId(),
         rowId,
@@ -395,10 +542,10 @@ export function validateDETRecord(
 
     // If DD2 also uses Percent, check that they sum to 100
     if (record.dd2_split_type === 'Percent' && record.dd2_split_value) {
-      const dd2Percent = parseFloat(record.dd2_split_value);
-      if (!isNaN(dd2Percent) && !isNaN(percent)) {
-        const total = percent + dd2Percent;
-        if (Math.abs(total - 100) > 0.01) { // Allow small floating point errors
+      const dd2Percent = parseDecimal(record.dd2_split_value);
+      if (dd2Percent && percent) {
+        const total = addDecimals(percent, dd2Percent);
+        if (compareDecimals(total, ONE_HUNDRED) !== 0) {
           errors.push({
             id: generateErrorId(),
             rowId,
@@ -406,7 +553,7 @@ export function validateDETRecord(
             field: 'dd1_split_value',
             value: `${record.dd1_split_value} + ${record.dd2_split_value}`,
             errorType: 'BUSINESS_LOGIC_ERROR',
-            message: `Direct deposit split percentages must sum to 100%, got: ${total}%`,
+            message: `Direct deposit split percentages must sum to 100%, got: ${decimalToString(total)}%`,
             suggestedFix: 'Adjust split values so they sum to 100%',
             timestamp: new Date().toISOString()
           });
@@ -419,20 +566,12 @@ export function validateDETRecord(
 }
 
 /**
- * Validates a single employee record (backwards compatibility)
- * Only validates employee fields, not DET-specific tracking fields
- * DET-specific fields (record_sequence, company_id) should be validated separately
- * @param record Employee record to validate
+ * Builds the error factory for one row, filling in the row id, row number and CSV column index
+ * @param record Record the errors are about
  * @param rowIndex Row number (0-based)
  * @param headerFields Optional array of CSV header field names to calculate column index
- * @returns Array of validation errors
  */
-export function validateEmployeeRecord(
-  record: EmployeeRecord,
-  rowIndex: number,
-  headerFields?: string[]
-): ProcessingError[] {
-  const errors: ProcessingError[] = [];
+function createErrorBuilder(record: EmployeeRecord, rowIndex: number, headerFields?: string[]) {
   const rowId = record.employee_id || `row_${rowIndex}`;
 
   // Helper to get column index from field name
@@ -445,8 +584,7 @@ export function validateEmployeeRecord(
     return index >= 0 ? index : undefined;
   };
 
-  // Helper to create error with columnIndex
-  const createError = (
+  return (
     field: string,
     value: string,
     errorType: ErrorType,
@@ -464,6 +602,24 @@ export function validateEmployeeRecord(
     suggestedFix,
     timestamp: new Date().toISOString()
   });
+}
+
+/**
+ * Validates a single employee record (backwards compatibility)
+ * Only validates employee fields, not DET-specific tracking fields
+ * DET-specific fields (record_sequence, company_id) should be validated separately
+ * @param record Employee record to validate
+ * @param rowIndex Row number (0-based)
+ * @param headerFields Optional array of CSV header field names to calculate column index
+ * @returns Array of validation errors
+ */
+export function validateEmployeeRecord(
+  record: EmployeeRecord,
+  rowIndex: number,
+  headerFields?: string[]
+): ProcessingError[] {
+  const errors: ProcessingError[] = [];
+  const createError = createErrorBuilder(record, rowIndex, headerFields);
 
   // Only validate employee fields, not DET-specific fields
   // Check required employee fields
@@ -597,6 +753,11 @@ export function validateEmployeeRecord(
     ));
   }
 
+  // Validate pay rate type, rates, FLSA status and hours agree
+  for (const issue of checkCompensation(record)) {
+    errors.push(createError(issue.field, issue.value, issue.errorType, issue.message, issue.suggestedFix));
+  }
+
   // Validate FLSA status
   if (record.flsa_status && !['Exempt', 'Non-Exempt'].includes(record.flsa_status)) {
     errors.push(createError(
@@ -622,8 +783,8 @@ export function validateEmployeeRecord(
 
   // Business logic: Validate direct deposit split percentages
   if (record.dd1_split_type === 'Percent' && record.dd1_split_value) {
-    const percent = parseFloat(record.dd1_split_value);
-    if (isNaN(percent) || percent < 0 || percent > 100) {
+    const percent = parseDecimal(record.dd1_split_value);
+    if (!percent || compareDecimals(percent, ZERO) < 0 || compareDecimals(percent, ONE_HUNDRED) > 0) {
       errors.push(createError(
         'dd1_split_value',
         record.dd1_split_value,
@@ -635,15 +796,15 @@ export function validateEmployeeRecord(
 
     // If DD2 also uses Percent, check that they sum to 100
     if (record.dd2_split_type === 'Percent' && record.dd2_split_value) {
-      const dd2Percent = parseFloat(record.dd2_split_value);
-      if (!isNaN(dd2Percent) && !isNaN(percent)) {
-        const total = percent + dd2Percent;
-        if (Math.abs(total - 100) > 0.01) { // Allow small floating point errors
+      const dd2Percent = parseDecimal(record.dd2_split_value);
+      if (dd2Percent && percent) {
+        const total = addDecimals(percent, dd2Percent);
+        if (compareDecimals(total, ONE_HUNDRED) !== 0) {
           errors.push(createError(
             'dd1_split_value',
             `${record.dd1_split_value} + ${record.dd2_split_value}`,
             'BUSINESS_LOGIC_ERROR',
-            `Direct deposit split percentages must sum to 100%, got: ${total}%`,
+            `Direct deposit split percentages must sum to 100%, got: ${decimalToString(total)}%`,
             'Adjust split values so they sum to 100%'
           ));
         }
@@ -654,6 +815,141 @@ export function validateEmployeeRecord(
   return errors;
 }
 
+/**
+ * Checks whether a worker is a 1099 contractor (sent to the vendor setup file, not to W-2 payroll providers)
+ */
+export function isContractor(record: EmployeeRecord): boolean {
+  return record.employment_type === 'Contractor';
+}
+
+/**
+ * Validates a contractor (1099) record
+ * Contractors need vendor setup data (TIN, payment method, remit-to address) instead of W-4, FLSA,
+ * I-9 and pay split fields
+ * @param record Contractor record to validate
+ * @param rowIndex Row number (0-based)
+ * @param headerFields Optional array of CSV header field names to calculate column index
+ * @returns Array of validation errors
+ */
+export function validateContractorRecord(
+  record: EmployeeRecord,
+  rowIndex: number,
+  headerFields?: string[]
+): ProcessingError[] {
+  const errors: ProcessingError[] = [];
+  const createError = createErrorBuilder(record, rowIndex, headerFields);
+
+  const required = [...REQUIRED_CONTRACTOR_FIELDS];
+  if (record.contractor_payment_method === 'ACH') {
+    required.push(...CONTRACTOR_ACH_FIELDS);
+  }
+  for (const field of required) {
+    const value = record[field];
+    if (!value || String(value).trim() === '') {
+      errors.push(createError(
+        field,
+        '',
+        'REQUIRED_FIELD_MISSING',
+        `Required contractor field '${field}' is missing or empty`,
+        field.startsWith('dd1_')
+          ? `Provide ${field} for ACH payments, or set contractor_payment_method to Check`
+          : `Please provide a value for ${field}`
+      ));
+    }
+  }
+
+  // Validate TIN type and format
+  if (record.contractor_tin_type && !['SSN', 'EIN'].includes(record.contractor_tin_type)) {
+    errors.push(createError(
+      'contractor_tin_type',
+      record.contractor_tin_type,
+      'INVALID_FORMAT',
+      `TIN type must be 'SSN' or 'EIN', got: ${record.contractor_tin_type}`,
+      'Use "SSN" for individuals or "EIN" for businesses'
+    ));
+  }
+  if (record.contractor_tin) {
+    const isEin = /^\d{2}-\d{7}$/.test(record.contractor_tin);
+    if (record.contractor_tin_type === 'EIN' && !isEin) {
+      errors.push(createError(
+        'contractor_tin',
+        record.contractor_tin,
+        'INVALID_FORMAT',
+        `EIN must be in XX-XXXXXXX format, got: ${record.contractor_tin}`,
+        'Format as XX-XXXXXXX (e.g., 12-3456789)'
+      ));
+    } else if (record.contractor_tin_type === 'SSN' && !isValidSSN(record.contractor_tin)) {
+      errors.push(createError(
+        'contractor_tin',
+        record.contractor_tin,
+        'INVALID_FORMAT',
+        `SSN must be in XXX-XX-XXXX format, got: ${record.contractor_tin}`,
+        'Format as XXX-XX-XXXX'
+      ));
+    }
+  }
+
+  // Validate payment method
+  if (record.contractor_payment_method && !['ACH', 'Check'].includes(record.contractor_payment_method)) {
+    errors.push(createError(
+      'contractor_payment_method',
+      record.contractor_payment_method,
+      'INVALID_FORMAT',
+      `Payment method must be 'ACH' or 'Check', got: ${record.contractor_payment_method}`,
+      'Use "ACH" (paid to the dd1 account) or "Check"'
+    ));
+  }
+  if (record.contractor_payment_method === 'ACH' && record.dd1_routing_number && !isValidRoutingNumber(record.dd1_routing_number)) {
+    errors.push(createError(
+      'dd1_routing_number',
+      record.dd1_routing_number,
+      'INVALID_FORMAT',
+      `Routing number must be 9 digits, got: ${record.dd1_routing_number}`,
+      'Provide a 9-digit routing number'
+    ));
+  }
+
+  // Validate dates, remit-to address and contact details
+  if (record.hire_date && !isValidDate(record.hire_date)) {
+    errors.push(createError(
+      'hire_date',
+      record.hire_date,
+      'INVALID_FORMAT',
+      `Hire date must be in YYYY-MM-DD format, got: ${record.hire_date}`,
+      'Format as YYYY-MM-DD (e.g., 2025-11-01)'
+    ));
+  }
+  if (record.home_state && !isValidStateCode(record.home_state)) {
+    errors.push(createError(
+      'home_state',
+      record.home_state,
+      'INVALID_FORMAT',
+      `State code must be 2 letters, got: ${record.home_state}`,
+      'Use 2-letter state code (e.g., SC, GA, NC)'
+    ));
+  }
+  if (record.home_zip && !isValidZip(record.home_zip)) {
+    errors.push(createError(
+      'home_zip',
+      record.home_zip,
+      'INVALID_FORMAT',
+      `ZIP code must be 5 or 9 digits, got: ${record.home_zip}`,
+      'Format as 12345 or 12345-6789'
+    ));
+  }
+  if (record.employee_email && !isValidEmail(record.employee_email)) {
+    errors.push(createError(
+      'employee_email',
+      record.employee_email,
+      'INVALID_FORMAT',
+      `Invalid email format: ${record.employee_email}`,
+      'Please provide a valid email address'
+    ));
+  }
+
+  return errors;
+}
+
 /**
  * Checks if employee is ready for payroll (compliance gate)
  * @param record Employee record or DET record
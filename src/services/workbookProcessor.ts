@@ -0,0 +1,238 @@
+/**
+ * Workbook Processor Service
+ * Reads standard-format uploads from Excel workbooks, converting number and date cells
+ * to the text formats the validator expects
+ */
+
+import type { ProcessingWarning } from '../types';
+import { excelSerialToIsoDate, listWorksheets, readWorksheet } from '../utils/xlsxReader';
+import type { WorksheetCell } from '../utils/xlsxReader';
+import { CSV_PARSE_OPTIONS, createRowIngestor } from './csvProcessor';
+import type { ParsedCSV, ProgressCallback } from './csvProcessor';
+import { generateErrorId } from './errorTracker';
+import { decimalFromInteger, decimalToString, multiplyDecimals, parseDecimal } from './money';
+
+/**
+ * Fields holding YYYY-MM-DD dates
+ */
+const DATE_FIELD_PATTERN = /^dob$|_date$/;
+
+/**
+ * Identifier fields that Excel turns into numbers, with the text format that restores them
+ * (the format gets the record so far, for fields whose layout depends on another column)
+ */
+const DIGIT_FIELDS: { pattern: RegExp; description: string; format: (digits: string, record: Record<string, string>) => string | null }[] = [
+  {
+    pattern: /^ssn$/,
+    description: 'XXX-XX-XXXX',
+    format: digits => (digits.length <= 9 ? digits.padStart(9, '0').replace(/^(\d{3})(\d{2})(\d{4})$/, '$1-$2-$3') : null)
+  },
+  {
+    pattern: /^contractor_tin$/,
+    description: 'SSN or EIN layout from contractor_tin_type',
+    format: (digits, record) => {
+      if (digits.length > 9) {
+        return null;
+      }
+      const padded = digits.padStart(9, '0');
+      return (record.contractor_tin_type || '').trim().toUpperCase() === 'EIN'
+        ? padded.replace(/^(\d{2})(\d{7})$/, '$1-$2')
+        : padded.replace(/^(\d{3})(\d{2})(\d{4})$/, '$1-$2-$3');
+    }
+  },
+  {
+    pattern: /_zip$/,
+    description: '5-digit ZIP or ZIP+4',
+    format: digits => {
+      if (digits.length <= 5) {
+        return digits.padStart(5, '0');
+      }
+      return digits.length <= 9 ? digits.padStart(9, '0').replace(/^(\d{5})(\d{4})$/, '$1-$2') : null;
+    }
+  },
+  {
+    pattern: /_routing_number$/,
+    description: '9 digits',
+    format: digits => (digits.length <= 9 ? digits.padStart(9, '0') : null)
+  }
+];
+
+/**
+ * Cell text for the upload, with the reason when the cell had to be converted
+ */
+interface CellConversion {
+  value: string;
+  note?: string;
+}
+
+/**
+ * Checks whether a file should be read as an Excel workbook
+ */
+export function isWorkbookFile(file: File): boolean {
+  return /\.xlsx$/i.test(file.name);
+}
+
+/**
+ * Text of a number cell as Excel shows it, without thousands separators
+ */
+function numberText(cell: WorksheetCell): string {
+  const number = Number(cell.value);
+  if (!isFinite(number)) {
+    return cell.value;
+  }
+  if (cell.fixedFormat) {
+    const [integerPart, decimalPart] = Math.abs(number).toFixed(cell.fixedFormat.decimals).split('.');
+    const digits = integerPart.padStart(cell.fixedFormat.integerDigits, '0');
+    return `${number < 0 ? '-' : ''}${decimalPart === undefined ? digits : `${digits}.${decimalPart}`}`;
+  }
+  // Excel shows 15 significant digits, which drops floating point noise such as 0.30000000000000004
+  return String(Number(number.toPrecision(15)));
+}
+
+/**
+ * Number of percent shown by a percentage cell's value, computed exactly (0.605 -> 60.5)
+ */
+function percentText(text: string): string {
+  const value = parseDecimal(text);
+  if (!value) {
+    return text;
+  }
+  const shifted = decimalToString(multiplyDecimals(value, decimalFromInteger(100)));
+  return shifted.includes('.') ? shifted.replace(/\.?0+$/, '') : shifted;
+}
+
+/**
+ * Converts one cell to upload text
+ * @param field Normalized column name (blank for HDR/FTR rows, whose columns are positional)
+ * @param cell Cell, or undefined when empty
+ * @param date1904 Whether the workbook uses the 1904 date system
+ * @param record Values converted so far for the row
+ */
+function convertCell(
+  field: string,
+  cell: WorksheetCell | undefined,
+  date1904: boolean,
+  record: Record<string, string>
+): CellConversion {
+  if (!cell) {
+    return { value: '' };
+  }
+  switch (cell.type) {
+    case 'text':
+      return { value: cell.value };
+    case 'boolean':
+      return { value: cell.value === 'TRUE' ? 'Yes' : 'No', note: `Excel ${cell.value} converted to ${cell.value === 'TRUE' ? 'Yes' : 'No'}` };
+    case 'error':
+      return { value: '', note: `Excel error ${cell.value} left blank` };
+    case 'date': {
+      if (!DATE_FIELD_PATTERN.test(field)) {
+        return { value: cell.value, note: `Excel date written as ${cell.value}` };
+      }
+      const date = cell.value.slice(0, 10);
+      return date === cell.value ? { value: date } : { value: date, note: `Excel date and time ${cell.value} converted to ${date} (time dropped)` };
+    }
+    case 'number': {
+      const text = numberText(cell);
+      if (DATE_FIELD_PATTERN.test(field)) {
+        const date = excelSerialToIsoDate(Number(cell.value), date1904)?.slice(0, 10);
+        return date ? { value: date, note: `Number ${text} read as an Excel date serial and converted to ${date}` } : { value: text };
+      }
+      if (cell.percentFormat) {
+        const percent = percentText(text);
+        return { value: percent, note: `Excel percentage ${text} (shown as ${percent}%) converted to ${percent}` };
+      }
+      const digitField = DIGIT_FIELDS.find(rule => rule.pattern.test(field));
+      if (digitField && /^\d+$/.test(text)) {
+        const formatted = digitField.format(text, record);
+        return formatted && formatted !== text
+          ? { value: formatted, note: `Excel stored ${field} as the number ${text}; converted to ${formatted} (${digitField.description})` }
+          : { value: text };
+      }
+      return !cell.fixedFormat && text !== cell.value
+        ? { value: text, note: `Excel number ${cell.value} converted to ${text}` }
+        : { value: text };
+    }
+  }
+}
+
+/**
+ * Lists the sheets of a workbook upload
+ * @param file Workbook file
+ * @returns Visible sheet names, in tab order
+ */
+export async function listWorkbookSheets(file: File): Promise<string[]> {
+  return listWorksheets(new Uint8Array(await file.arrayBuffer()));
+}
+
+/**
+ * Parses a standard-format upload from one sheet of a workbook
+ * The first row names the columns, like a CSV header line; every later row is an HDR, DET or FTR record.
+ * Number and date cells are converted to the validator's text formats, with a note whenever a value had to change
+ * (notes are informational: the conversions are deliberate, so they do not hold back downloads).
+ * @param file Workbook file
+ * @param sheetName Sheet to read (defaults to the first visible sheet)
+ * @param onProgress Optional progress callback (bytes read)
+ * @returns Parsed rows, as for a CSV upload
+ */
+export async function parseWorkbookFile(
+  file: File,
+  sheetName?: string,
+  onProgress?: ProgressCallback
+): Promise<ParsedCSV> {
+  const sheet = await readWorksheet(new Uint8Array(await file.arrayBuffer()), sheetName);
+  onProgress?.({ current: file.size, total: file.size });
+
+  const [headerRow, ...dataRows] = sheet.rows;
+  if (!headerRow) {
+    throw new Error(`Worksheet '${sheet.name}' is empty`);
+  }
+  const headers = Array.from(headerRow.cells, (cell, index) =>
+    CSV_PARSE_OPTIONS.transformHeader(cell?.value || '') || `column_${index + 1}`
+  );
+  // Digit fields go last so formats that depend on another column (contractor_tin) see it converted
+  const columnOrder = headers
+    .map((_, index) => index)
+    .sort((a, b) => Number(DIGIT_FIELDS.some(rule => rule.pattern.test(headers[a]))) - Number(DIGIT_FIELDS.some(rule => rule.pattern.test(headers[b]))));
+  const recordTypeColumn = Math.max(headers.indexOf('record_type'), 0);
+
+  const ingestor = createRowIngestor();
+  const conversionNotes: ProcessingWarning[] = [];
+  dataRows.forEach((sheetRow, index) => {
+    const rowNumber = index + 1; // Same numbering as CSV uploads: the header line is not counted
+    const recordType = (sheetRow.cells[recordTypeColumn]?.value || '').trim().toUpperCase();
+    const isControlRow = recordType === 'HDR' || recordType === 'FTR';
+    const record: Record<string, string> = {};
+    const notes: { field: string; cell: WorksheetCell; note: string }[] = [];
+
+    for (const column of columnOrder) {
+      const cell = sheetRow.cells[column];
+      const conversion = convertCell(isControlRow ? '' : headers[column], cell, sheet.date1904, record);
+      record[headers[column]] = conversion.value;
+      if (cell && conversion.note) {
+        notes.push({ field: headers[column], cell, note: conversion.note });
+      }
+    }
+
+    const rowId = record.employee_id || `row_${rowNumber}`;
+    for (const { field, cell, note } of notes) {
+      conversionNotes.push({
+        id: generateErrorId(),
+        rowId,
+        row: rowNumber,
+        field,
+        originalValue: cell.value,
+        message: `Cell ${cell.reference}: ${note}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Keys in column order: HDR/FTR values are read by position
+    ingestor.addRow(Object.fromEntries(headers.map(header => [header, record[header]])));
+  });
+
+  return {
+    ...ingestor.takeRows(),
+    ...ingestor.finish(headers),
+    notes: conversionNotes
+  };
+}
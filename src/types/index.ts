@@ -97,14 +97,21 @@ export interface EmployeeRecord {
   
   // REQUIRED - Compensation
   flsa_status: 'Exempt' | 'Non-Exempt';
-  annual_salary: string;
+  annual_salary: string; // Required for Salary workers
   pay_frequency: 'Weekly' | 'Bi-weekly' | 'Semi-monthly' | 'Monthly';
   
   // OPTIONAL - Employment details
   employment_type?: 'Full-time' | 'Part-time' | 'Contractor' | 'Seasonal' | 'Temporary';
   employee_status?: 'Active' | 'Inactive' | 'Leave of Absence' | 'Terminated';
-  pay_rate_type?: 'Salary' | 'Hourly';
-  hours_per_week?: string;
+  pay_rate_type?: 'Salary' | 'Hourly'; // Defaults to Salary
+  hourly_rate?: string; // Required for Hourly workers (annual_salary is then optional)
+  hours_per_week?: string; // Standard weekly hours (required for Hourly and Non-Exempt workers)
+
+  // OPTIONAL - Contractor (1099) vendor setup (required when employment_type is Contractor)
+  contractor_tin?: string; // XXX-XX-XXXX for an SSN, XX-XXXXXXX for an EIN
+  contractor_tin_type?: 'SSN' | 'EIN';
+  contractor_business_name?: string; // Legal business name (blank for individuals paid under their own name)
+  contractor_payment_method?: 'ACH' | 'Check'; // ACH pays to the dd1 account; checks go to the home address
   
   // REQUIRED - Tax
   fed_status: 'Single' | 'Married' | 'Married Filing Separately' | 'Head of Household';
@@ -163,84 +170,49 @@ export interface EmployeeRecord {
 }
 
 /**
- * ADP output format
- */
-export interface ADPRecord {
-  'Employee No': string;
-  'SSN': string;
-  'FName': string;
-  'LName': string;
-  'DOB': string;
-  'Home_Addr1': string;
-  'Home_City': string;
-  'Home_State': string;
-  'Home_Zip': string;
-  'Work_Addr1': string;
-  'Work_City': string;
-  'Work_State': string;
-  'Work_Zip': string;
-  'HiredDate': string;
-  'JobTitle': string;
-  'Dept': string;
-  'FLSA_Status': string;
-  'PayFreq': string;
-  'PayRate': string;
-  'Fed_W4_Status': string;
-  'Fed_W4_Allow': string;
-  'Fed_W4_Extra': string;
-  'State_Tax_Code': string;
-  'State_Extra_WH': string;
-  'Local_Tax_Code_1': string;
-  'DD1_Routing': string;
-  'DD1_Acct': string;
-  'DD1_Type': string;
-  'DD1_SplitType': string;
-  'DD1_SplitValue': string;
-  'DD2_Routing': string;
-  'DD2_Acct': string;
-  'DD2_Type': string;
-  'Deduct_Code_1': string;
-  'Deduct_Amt_1': string;
-  'Deduct_Code_2': string;
-  'Deduct_Amt_2': string;
-  'Deduct_Code_3': string;
-  'Deduct_Amt_3': string;
-  'Deduct_Code_4': string;
-  'Deduct_Amt_4': string;
-}
-
-/**
- * QuickBooks output format
- */
-export interface QuickBooksRecord {
-  'Employee #': string;
-  'Full Name': string;
-  'SSN': string;
-  'Date of Birth': string;
-  'Home Address': string;
-  'Work Location': string;
-  'Hire Date': string;
-  'Job Title': string;
-  'Department': string;
-  'FLSA Status': string;
-  'Pay Rate ($)': string;
-  'Per': string;
-  'Federal Filing Status': string;
-  'Federal Allowances': string;
-  'Federal Extra Withholding': string;
-  'State Tax (Work)': string;
-  'State Extra Withholding': string;
-  'Local Tax': string;
-  'I-9 Status': string;
-  'E-Verify Status': string;
-  'Direct Deposit 1': string;
-  'Direct Deposit 2': string;
-  'Health Deduction': string;
-  'Retirement Deduction': string;
-  'Retirement Loan': string;
-  'Garnishment': string;
-  'EEO Gender': string;
-  'EEO Ethnicity': string;
+ * Provider identifier (e.g., "ADP", "QuickBooks")
+ * Providers are registered at runtime - see services/providerRegistry
+ */
+export type ProviderId = string;
+
+/**
+ * Provider output record - one row of a provider file, keyed by output column
+ */
+export type ProviderRecord = Record<string, string>;
+
+/**
+ * Output column definition for a provider file
+ * Constraints describe what the provider accepts; all but `required` apply only to non-blank values
+ */
+export interface OutputColumn {
+  name: string;
+  required?: boolean; // Value must not be blank
+  maxLength?: number;
+  allowedValues?: string[]; // Codes the provider accepts
+  pattern?: string; // Regular expression the whole value must match
+  patternDescription?: string; // Expected format shown in error messages (e.g., "YYYY-MM-DD")
+  numeric?: boolean; // Value must be a plain decimal number (implied by min/max)
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Provider file writer - renders transformed records into file content
+ */
+export type ProviderFileWriter = (records: ProviderRecord[], columns: string[], dialect: CsvDialect) => string;
+
+/**
+ * Provider descriptor
+ * Everything the engine needs to know to produce files for a payroll vendor
+ */
+export interface ProviderDescriptor {
+  id: ProviderId;
+  displayName: string;
+  outputSchema: OutputColumn[];
+  defaultMapping: ProviderMapping;
+  fileName: string; // Default download filename (e.g., "adp_hires.csv")
+  writeFile: ProviderFileWriter;
+  enabledByDefault?: boolean;
 }
 
 /**
@@ -252,7 +224,12 @@ export type ErrorType =
   | 'REQUIRED_FIELD_MISSING'
   | 'INVALID_FORMAT'
   | 'BUSINESS_LOGIC_ERROR'
-  | 'COMPLIANCE_GATE_FAILED';
+  | 'COMPLIANCE_GATE_FAILED'
+  | 'UNMAPPED_VALUE'
+  | 'DEDUCTION_OVERFLOW'
+  | 'UNROUTED_EMPLOYEE'
+  | 'OUTPUT_SCHEMA_VIOLATION'
+  | 'DUPLICATE_EMPLOYEE';
 
 /**
  * Log entry types
@@ -272,9 +249,43 @@ export interface ProcessingError {
   errorType: ErrorType;
   message: string;
   suggestedFix?: string;
+  links?: ErrorLink[]; // Other rows or earlier exports the error conflicts with
   timestamp: string;
 }
 
+/**
+ * Row of the same upload, or earlier export, that an error points at (e.g., the other copy of a duplicate employee)
+ */
+export interface ErrorLink {
+  employeeId: string;
+  label: string; // e.g., "Row 4: 1002 Jane Doe" or "Batch B2025... (2025-01-15): 1002 Jane Doe"
+  row?: number; // Row in the same upload
+  batchId?: string; // Earlier processing run the employee was exported in
+  exportedAt?: string;
+}
+
+/**
+ * Employee sent to payroll providers in an earlier run (duplicate detection history)
+ * SSN, name and date of birth are kept only as salted hashes
+ */
+export interface ExportedEmployee {
+  employeeId: string;
+  ssnHash: string; // Salted SHA-256 of the 9-digit SSN (blank when the SSN was masked or invalid)
+  nameDobHash: string; // Salted SHA-256 of the normalized last name and date of birth (blank when either is missing)
+  companyId: string;
+  batchId: string;
+  exportedAt: string; // ISO 8601 timestamp of the download
+  providers: ProviderId[];
+}
+
+/**
+ * Export history with the salt its identity hashes were made with
+ */
+export interface ExportHistory {
+  salt: string;
+  employees: ExportedEmployee[];
+}
+
 /**
  * Processing warning (data manipulation)
  */
@@ -313,23 +324,345 @@ export interface ErrorCorrection {
   notes?: string;
 }
 
+/**
+ * Conditional branch of a field mapping
+ */
+export interface FieldMappingBranch {
+  when: string; // Condition expression over employee fields and `value`, e.g. 'employment_type == "Part-time"'
+  then: string; // Expression for the column value when the condition holds, e.g. '"W"' or 'home_street'
+}
+
 /**
  * Field mapping configuration
+ * With conditions, the first branch whose condition holds sets the value; when none holds, the
+ * source field, transformation and default value apply as the "else" branch
  */
 export interface FieldMapping {
-  sourceField: string;
+  sourceField: string; // Employee field exposed to the transformation as `value` (may be empty for computed columns)
   targetField: string;
-  transformation?: string; // e.g., 'uppercase', 'date_format', 'custom_function'
-  defaultValue?: string;
+  transformation?: string; // Expression, e.g. 'upper(value)' or 'first_name & " " & last_name'
+  defaultValue?: string; // Used when the mapped/transformed value is empty
+  conditions?: FieldMappingBranch[]; // Ordered when/then branches
+}
+
+/**
+ * What to do when a value has no crosswalk entry
+ * - error: report a ProcessingError and emit the default code (or empty)
+ * - warn: report a ProcessingWarning and emit the default code (or empty)
+ * - passthrough: emit the raw source value silently
+ */
+export type UnmappedValuePolicy = 'error' | 'warn' | 'passthrough';
+
+/**
+ * Single crosswalk translation (source value -> provider code)
+ */
+export interface CrosswalkEntry {
+  source: string;
+  code: string;
+}
+
+/**
+ * Code crosswalk table for enumerated values
+ * Referenced from transformations as crosswalk("<name>", value)
+ */
+export interface CrosswalkTable {
+  name: string;
+  description?: string;
+  entries: CrosswalkEntry[];
+  defaultCode?: string;
+  unmappedPolicy: UnmappedValuePolicy;
+}
+
+/**
+ * Kinds of payroll deduction carried on the employee record
+ */
+export type DeductionType =
+  | 'health'
+  | 'retirement'
+  | 'retirement_loan'
+  | 'garnishment'
+  | 'union_dues'
+  | 'disability';
+
+/**
+ * Normalized deduction derived from an employee record (see services/deductions)
+ */
+export interface Deduction {
+  type: DeductionType;
+  code: string; // Plan name or code as given on the employee record
+  amount?: string; // Per-paycheck amount (flat deductions)
+  percent?: string; // Percent of pay (percentage deductions, e.g. retirement contributions)
+  taxTreatment: 'pre-tax' | 'post-tax';
+  startDate?: string; // YYYY-MM-DD
+  sourceField: keyof EmployeeRecord; // Employee field the deduction came from (for error reporting)
+}
+
+/**
+ * Provider deduction slot (e.g., Deduct_Code_1 + Deduct_Amt_1)
+ * Column expressions can use type, code, amount, percent, tax_treatment and start_date of the
+ * deduction placed in the slot, plus any employee field; unused slots are evaluated with a blank deduction
+ */
+export interface DeductionSlot {
+  types?: DeductionType[]; // Restricts the slot to these deduction types (any type when omitted)
+  columns: Record<string, string>; // Output column -> expression
+}
+
+/**
+ * How a provider's deduction slots are filled
+ * Deductions are placed in priority order into the first free slot that accepts their type;
+ * deductions left over when the slots run out are reported, never dropped silently
+ */
+export interface DeductionRules {
+  slots: DeductionSlot[];
+  priority: DeductionType[]; // Fill order - unlisted types go last
+  overflow: 'warn' | 'error'; // Severity of the issue raised for each leftover deduction
+}
+
+/**
+ * How money amounts are rounded
+ * - half-up: 0.005 rounds away from zero (1.005 -> 1.01)
+ * - half-even: banker's rounding, ties go to the even cent (1.005 -> 1.00, 1.015 -> 1.02)
+ */
+export type RoundingMode = 'half-up' | 'half-even';
+
+/**
+ * Money arithmetic and formatting for one provider (see services/money)
+ */
+export interface MoneySettings {
+  rounding: RoundingMode;
+  trueUpFinalPeriod: boolean; // Final pay period absorbs rounding so periods sum exactly to the annual amount
+  decimals: number; // Decimal places written to the provider file
+  thousandsSeparator?: string; // e.g. "," (none when omitted)
+  currencySymbol?: string; // e.g. "$" (none when omitted)
+  negativeStyle?: 'minus' | 'parentheses'; // Defaults to minus
+}
+
+/**
+ * Provider output file format
+ */
+export type OutputFormat = 'csv' | 'fixed-width';
+
+/**
+ * What to do when a value is longer than its fixed-width column
+ * - truncate-right: keep the leftmost characters
+ * - truncate-left: keep the rightmost characters (useful for numbers/identifiers)
+ * - blank: write an empty (padded) column instead of a partial value
+ */
+export type TruncationPolicy = 'truncate-right' | 'truncate-left' | 'blank';
+
+/**
+ * Fixed-width column specification (positions are 1-based, as in vendor import specs)
+ */
+export interface FixedWidthColumn {
+  field: string; // Output column name
+  start: number;
+  length: number;
+  justify?: 'left' | 'right'; // Defaults to left
+  padChar?: string; // Defaults to a space
+  impliedDecimals?: number; // Numeric columns: 123.45 with 2 implied decimals is written as 12345
+  truncation?: TruncationPolicy; // Defaults to truncate-right
+}
+
+/**
+ * When delimited values are wrapped in quotes
+ * - minimal: only values containing the delimiter, a quote or a line break
+ * - always: every value, including headers and blanks
+ * - non-numeric: every value that is not a plain number
+ */
+export type CsvQuotePolicy = 'minimal' | 'always' | 'non-numeric';
+
+/**
+ * Character encoding of downloaded text files
+ */
+export type TextEncoding = 'utf-8' | 'windows-1252';
+
+/**
+ * Delimited file dialect (see utils/csvWriter)
+ */
+export interface CsvDialect {
+  delimiter: string; // e.g. ",", "|", "\t", ";"
+  quote: CsvQuotePolicy;
+  lineTerminator: '\n' | '\r\n';
+  header: boolean; // Write the column header row
+  encoding: TextEncoding; // Characters windows-1252 cannot represent are written as "?"
+  bom: boolean; // UTF-8 byte order mark (ignored for windows-1252)
+}
+
+/**
+ * Provider output configuration
+ */
+export interface ProviderOutputConfig {
+  format: OutputFormat;
+  fixedWidthColumns?: FixedWidthColumn[];
+  dialect?: CsvDialect; // CSV only - defaults to comma-separated, minimal quoting, LF, UTF-8
+}
+
+/**
+ * Field in a provider file header or trailer record
+ * The expression can use batch variables (batch_id, employer_id, created_at, record_count)
+ * and control total functions (sum, hashTotal) over the file's detail records
+ */
+export interface EnvelopeField {
+  name: string;
+  expression: string;
+  length?: number; // Fixed-width output only (defaults to the value's length)
+  justify?: 'left' | 'right';
+  padChar?: string;
+}
+
+/**
+ * Header/trailer records wrapped around a provider file's detail records
+ */
+export interface ProviderEnvelope {
+  header?: EnvelopeField[];
+  trailer?: EnvelopeField[];
 }
 
 /**
  * Provider mapping configuration
+ * Fully JSON-serializable - all behavior lives in FieldMapping.transformation expressions
  */
 export interface ProviderMapping {
-  provider: 'ADP' | 'QuickBooks';
+  provider: ProviderId;
   fieldMappings: FieldMapping[];
-  transformations: Record<string, (value: any, record: EmployeeRecord) => any>;
+  crosswalks?: CrosswalkTable[];
+  deductions?: DeductionRules; // Slot columns override field mappings with the same target
+  output?: ProviderOutputConfig; // Defaults to the provider's own writer (CSV)
+  envelope?: ProviderEnvelope; // Omitted for bare files
+  money?: MoneySettings; // Defaults to half-up rounding with 2 plain decimals
+  schemaVersion?: number; // Mapping file format version, written on export and checked on import
+}
+
+/**
+ * Problem found when validating a mapping before it is saved or imported
+ * Errors block saving; warnings are shown but do not
+ */
+export interface MappingValidationIssue {
+  severity: 'error' | 'warning';
+  path: string; // Setting the issue is about (e.g., "fieldMappings[3].sourceField")
+  message: string;
+}
+
+/**
+ * How a mapping version came to be saved
+ */
+export type MappingChangeSource = 'save' | 'reset' | 'import' | 'rollback';
+
+/**
+ * Who made a mapping change and why
+ */
+export interface MappingChangeInfo {
+  author: string;
+  comment: string;
+}
+
+/**
+ * Immutable snapshot of a provider mapping, recorded every time the mapping is saved
+ */
+export interface MappingVersion extends MappingChangeInfo {
+  version: number; // 1-based, per provider
+  provider: ProviderId;
+  mapping: ProviderMapping;
+  savedAt: string; // ISO 8601 timestamp
+  source: MappingChangeSource;
+  rolledBackFrom?: number; // Version restored by a rollback
+}
+
+/**
+ * One difference between two mappings
+ * Paths name list items by their key where they have one (e.g., "fieldMappings[Employee No].transformation")
+ */
+export interface MappingDiffEntry {
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  before?: string;
+  after?: string;
+}
+
+/**
+ * One provider column in a mapping preview: source value -> transformation -> output value
+ */
+export interface MappingPreviewRow {
+  column: string;
+  sourceField: string; // Blank for computed columns
+  sourceValue: string;
+  transformation: string; // Expression applied (blank when the source value is copied as is)
+  condition?: string; // Conditional branch that set the value, as "<number>: <condition>" (absent when the else branch applied)
+  output: string;
+  problems: { severity: 'error' | 'warning'; message: string }[];
+}
+
+/**
+ * Result of running an unsaved mapping against one employee
+ */
+export interface MappingPreview {
+  rows: MappingPreviewRow[];
+  problems: { severity: 'error' | 'warning'; message: string }[]; // Problems not tied to a column (e.g., deductions without a slot)
+}
+
+/**
+ * Identity of one processing run, stamped into provider file envelopes
+ */
+export interface BatchInfo {
+  batchId: string;
+  employerId: string;
+  createdAt: string; // ISO 8601 timestamp
+}
+
+/**
+ * Company and ODFI (originating bank) settings for NACHA ACH files
+ */
+export interface NachaSettings {
+  immediateDestination: string; // 9-digit routing number of the bank receiving the file
+  immediateDestinationName: string; // Up to 23 characters
+  immediateOrigin: string; // Up to 10 characters (usually "1" + company EIN)
+  immediateOriginName: string; // Up to 23 characters
+  companyName: string; // Up to 16 characters
+  companyIdentification: string; // Up to 10 characters (usually "1" + company EIN)
+  companyEntryDescription: string; // Up to 10 characters (e.g., "PRENOTE")
+  originatingDfiId: string; // First 8 digits of the ODFI routing number
+  fileIdModifier: string; // A-Z or 0-9, changed when more than one file is sent per day
+}
+
+/**
+ * Routing rule sending matching employees to one or more providers
+ */
+export interface RoutingRule {
+  name: string;
+  when: string; // Expression over employee fields and company_id (blank matches every employee)
+  providers: ProviderId[];
+}
+
+/**
+ * Decides which provider(s) each employee is sent to (see services/routing)
+ */
+export interface RoutingConfig {
+  enabled: boolean; // When off, every employee is sent to every enabled provider
+  mode: 'first-match' | 'all-matches'; // Use the first matching rule, or the union of all matching rules
+  rules: RoutingRule[];
+  unrouted: 'warn' | 'error'; // Severity reported for employees no rule sends to an enabled provider
+}
+
+/**
+ * How provider files are split and named in the downloadable archive (see services/outputBundle)
+ * Template tokens: {provider}, {provider_id}, {employer_id}, {upload_id}, {processing_date},
+ * {file_name}, {company_id}, {sequence}, {batch_id}
+ */
+export interface OutputBundleSettings {
+  splitByCompany: boolean; // One file per company per provider instead of one file per provider
+  fileNameTemplate: string; // File name without extension (the output format supplies it)
+}
+
+/**
+ * Employer-level settings shared by all providers
+ */
+export interface EmployerSettings {
+  employerId: string;
+  nacha: NachaSettings;
+  exportDialect: CsvDialect; // Standard export and error report files
+  routing: RoutingConfig;
+  bundle: OutputBundleSettings;
+  sequenceChecks: 'block' | 'warn'; // record_sequence gaps, duplicates, resets and out-of-order rows: reject the upload, or warn and continue
 }
 
 /**
@@ -343,8 +676,12 @@ export interface ProcessingProgress {
   errors: ProcessingError[];
   warnings: ProcessingWarning[];
   logs: ProcessingLog[];
+  rowsPerSecond: number; // Throughput of the run (paused time excluded)
+  etaSeconds: number | null; // Estimated time left (null until throughput is measurable)
   isComplete: boolean;
   isProcessing: boolean;
+  isPaused: boolean;
+  isCancelled: boolean;
 }
 
 /**
@@ -1,17 +1,55 @@
 /**
  * CSV Writer Utility
- * Client-side CSV generation and download functionality
+ * Client-side delimited file generation (configurable dialects) and download functionality
  */
 
+import type { CsvDialect, TextEncoding } from '../types';
+
+/**
+ * Comma-separated, minimal quoting, LF line endings, UTF-8 without BOM
+ */
+export const DEFAULT_CSV_DIALECT: CsvDialect = {
+  delimiter: ',',
+  quote: 'minimal',
+  lineTerminator: '\n',
+  header: true,
+  encoding: 'utf-8',
+  bom: false
+};
+
+/**
+ * Escapes a value for a dialect (quotes are doubled inside quoted values)
+ */
+function escapeCSVValue(value: any, dialect: CsvDialect): string {
+  const stringValue = value === null || value === undefined ? '' : String(value);
+  const needsQuotes = dialect.quote === 'always'
+    || (dialect.quote === 'non-numeric' && !/^-?\d+(\.\d+)?$/.test(stringValue))
+    || stringValue.includes(dialect.delimiter)
+    || /["\r\n]/.test(stringValue);
+  return needsQuotes ? `"${stringValue.replace(/"/g, '""')}"` : stringValue;
+}
+
+/**
+ * Converts a single list of values to a delimited line (used for header/trailer records)
+ * @param values Values in column order
+ * @param dialect Delimited file dialect
+ * @returns Line without a line terminator
+ */
+export function toCSVRow(values: string[], dialect: CsvDialect = DEFAULT_CSV_DIALECT): string {
+  return values.map(value => escapeCSVValue(value, dialect)).join(dialect.delimiter);
+}
+
 /**
- * Converts an array of objects to CSV format
+ * Converts an array of objects to delimited text
  * @param data Array of objects to convert to CSV
  * @param headers Optional array of header names (uses object keys if not provided)
+ * @param dialect Delimited file dialect (defaults to plain CSV)
  * @returns CSV string
  */
 export function arrayToCSV<T extends Record<string, any>>(
   data: T[],
-  headers?: string[]
+  headers?: string[],
+  dialect: CsvDialect = DEFAULT_CSV_DIALECT
 ): string {
   // Use provided headers or extract from first object (if data exists)
   const csvHeaders = headers || (data.length > 0 ? Object.keys(data[0]) : []);
@@ -21,41 +59,73 @@ export function arrayToCSV<T extends Record<string, any>>(
     return '';
   }
   
-  // Escape CSV values (handle commas, quotes, newlines)
-  const escapeCSVValue = (value: any): string => {
-    if (value === null || value === undefined) {
-      return '';
-    }
-    const stringValue = String(value);
-    // If value contains comma, quote, or newline, wrap in quotes and escape internal quotes
-    if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
-      return `"${stringValue.replace(/"/g, '""')}"`;
-    }
-    return stringValue;
-  };
-
   // Build CSV rows
   const rows: string[] = [];
   
   // Header row
-  rows.push(csvHeaders.map(escapeCSVValue).join(','));
+  if (dialect.header) {
+    rows.push(toCSVRow(csvHeaders, dialect));
+  }
   
   // Data rows
   for (const row of data) {
-    const values = csvHeaders.map(header => escapeCSVValue(row[header]));
-    rows.push(values.join(','));
+    rows.push(toCSVRow(csvHeaders.map(header => row[header]), dialect));
+  }
+
+  return rows.join(dialect.lineTerminator);
+}
+
+/**
+ * Windows-1252 bytes for the characters it places in 0x80-0x9F (everything else maps like Latin-1)
+ */
+const WINDOWS_1252_EXTRAS: Record<string, number> = {
+  '\u20ac': 0x80, '\u201a': 0x82, '\u0192': 0x83, '\u201e': 0x84, '\u2026': 0x85, '\u2020': 0x86,
+  '\u2021': 0x87, '\u02c6': 0x88, '\u2030': 0x89, '\u0160': 0x8a, '\u2039': 0x8b, '\u0152': 0x8c,
+  '\u017d': 0x8e, '\u2018': 0x91, '\u2019': 0x92, '\u201c': 0x93, '\u201d': 0x94, '\u2022': 0x95,
+  '\u2013': 0x96, '\u2014': 0x97, '\u02dc': 0x98, '\u2122': 0x99, '\u0161': 0x9a, '\u203a': 0x9b,
+  '\u0153': 0x9c, '\u017e': 0x9e, '\u0178': 0x9f
+};
+
+/**
+ * Encodes text for download
+ * @param content Text content
+ * @param encoding Target encoding (characters windows-1252 cannot represent become "?")
+ * @param bom Prefix UTF-8 content with a byte order mark
+ * @returns Encoded bytes
+ */
+export function encodeText(content: string, encoding: TextEncoding, bom = false): Uint8Array<ArrayBuffer> {
+  if (encoding === 'utf-8') {
+    const bytes = new TextEncoder().encode(content);
+    if (!bom) {
+      return bytes;
+    }
+    const withBom = new Uint8Array(bytes.length + 3);
+    withBom.set([0xef, 0xbb, 0xbf]);
+    withBom.set(bytes, 3);
+    return withBom;
   }
 
-  return rows.join('\n');
+  const characters = Array.from(content);
+  const bytes = new Uint8Array(characters.length);
+  characters.forEach((character, index) => {
+    const code = character.codePointAt(0) ?? 0x3f;
+    if (code < 0x80 || (code >= 0xa0 && code <= 0xff)) {
+      bytes[index] = code;
+    } else {
+      bytes[index] = WINDOWS_1252_EXTRAS[character] ?? 0x3f;
+    }
+  });
+  return bytes;
 }
 
 /**
  * Downloads a CSV string as a file
  * @param csvContent CSV string content
  * @param filename Name of the file to download
+ * @param dialect Dialect whose encoding and BOM setting are applied (defaults to UTF-8)
  */
-export function downloadCSV(csvContent: string, filename: string): void {
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+export function downloadCSV(csvContent: string, filename: string, dialect: CsvDialect = DEFAULT_CSV_DIALECT): void {
+  const blob = new Blob([encodeText(csvContent, dialect.encoding, dialect.bom)], { type: `text/csv;charset=${dialect.encoding};` });
   const link = document.createElement('a');
   const url = URL.createObjectURL(blob);
   
@@ -71,18 +141,41 @@ export function downloadCSV(csvContent: string, filename: string): void {
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Downloads plain text as a file, exactly as given (fixed-width and NACHA files)
+ * @param content Text content (line endings are kept as they are)
+ * @param filename Name of the file to download
+ */
+export function downloadText(content: string, filename: string): void {
+  const blob = new Blob([content], { type: 'text/plain;charset=utf-8;' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Converts data array to CSV and triggers download
  * @param data Array of objects to convert
  * @param filename Name of the file to download
  * @param headers Optional array of header names
+ * @param dialect Delimited file dialect (defaults to plain CSV)
  */
 export function exportToCSV<T extends Record<string, any>>(
   data: T[],
   filename: string,
-  headers?: string[]
+  headers?: string[],
+  dialect: CsvDialect = DEFAULT_CSV_DIALECT
 ): void {
-  const csvContent = arrayToCSV(data, headers);
-  downloadCSV(csvContent, filename);
+  const csvContent = arrayToCSV(data, headers, dialect);
+  downloadCSV(csvContent, filename, dialect);
 }
 
@@ -0,0 +1,180 @@
+/**
+ * Fixed-Width Writer Utility
+ * Renders records as fixed-width positional lines driven by column specifications
+ */
+
+import type { FixedWidthColumn, ProviderRecord } from '../types';
+import { parseDecimal, roundDecimal } from '../services/money';
+
+/**
+ * Warning raised when a value had to be altered to fit its column
+ */
+export interface FixedWidthWarning {
+  row: number; // 1-based record number within the file
+  field: string;
+  originalValue: string;
+  writtenValue: string;
+  message: string;
+}
+
+/**
+ * Most implied decimals a column can declare
+ */
+const MAX_IMPLIED_DECIMALS = 6;
+
+/**
+ * Sorts columns by start position and checks that none overlap or declare invalid implied decimals
+ * @param columns Column specifications
+ * @returns Columns in position order
+ */
+export function validateFixedWidthLayout(columns: FixedWidthColumn[]): FixedWidthColumn[] {
+  const sorted = [...columns].sort((a, b) => a.start - b.start);
+  for (let i = 0; i < sorted.length; i++) {
+    const column = sorted[i];
+    if (!Number.isInteger(column.start) || column.start < 1) {
+      throw new Error(`Fixed-width column '${column.field}' must start at position 1 or later`);
+    }
+    if (!Number.isInteger(column.length) || column.length < 1) {
+      throw new Error(`Fixed-width column '${column.field}' must have a positive length`);
+    }
+    if (
+      column.impliedDecimals !== undefined &&
+      (!Number.isInteger(column.impliedDecimals) || column.impliedDecimals < 0 || column.impliedDecimals > MAX_IMPLIED_DECIMALS)
+    ) {
+      throw new Error(`Fixed-width column '${column.field}' implied decimals must be a whole number from 0 to ${MAX_IMPLIED_DECIMALS}`);
+    }
+    const previous = sorted[i - 1];
+    if (previous && previous.start + previous.length > column.start) {
+      throw new Error(`Fixed-width columns '${previous.field}' and '${column.field}' overlap`);
+    }
+  }
+  return sorted;
+}
+
+/**
+ * Total record length for a layout
+ */
+export function getRecordLength(columns: FixedWidthColumn[]): number {
+  return columns.reduce((max, column) => Math.max(max, column.start + column.length - 1), 0);
+}
+
+/**
+ * Builds a simple left-to-right layout for a list of columns (used as a starting point in the editor)
+ * @param fields Output column names
+ * @param length Width for every column
+ */
+export function createDefaultLayout(fields: string[], length = 30): FixedWidthColumn[] {
+  return fields.map((field, index) => ({
+    field,
+    start: index * length + 1,
+    length
+  }));
+}
+
+/**
+ * Applies implied-decimal formatting to a numeric value (e.g., 123.45 -> "12345")
+ */
+function applyImpliedDecimals(value: string, decimals: number): string | null {
+  if (value.trim() === '') {
+    return '';
+  }
+  const parsed = parseDecimal(value);
+  if (!parsed) {
+    return null;
+  }
+  return roundDecimal(parsed, decimals, 'half-up').units.toString();
+}
+
+/**
+ * Formats one record as a fixed-width line
+ * @param record Provider record
+ * @param columns Column specifications
+ * @param rowNumber 1-based record number (used for warnings)
+ * @param warnings Collector for truncation/format warnings
+ * @returns Fixed-width line
+ */
+export function formatFixedWidthRecord(
+  record: ProviderRecord,
+  columns: FixedWidthColumn[],
+  rowNumber: number,
+  warnings: FixedWidthWarning[]
+): string {
+  const layout = validateFixedWidthLayout(columns);
+  let line = '';
+
+  for (const column of layout) {
+    // Fill any gap before this column with spaces
+    line = line.padEnd(column.start - 1, ' ');
+
+    const originalValue = record[column.field] ?? '';
+    const padChar = (column.padChar || ' ').charAt(0);
+    let value = originalValue;
+
+    if (column.impliedDecimals !== undefined) {
+      const formatted = applyImpliedDecimals(originalValue, column.impliedDecimals);
+      if (formatted === null) {
+        warnings.push({
+          row: rowNumber,
+          field: column.field,
+          originalValue,
+          writtenValue: '',
+          message: `Value '${originalValue}' in '${column.field}' is not numeric and was left blank`
+        });
+        value = '';
+      } else {
+        value = formatted;
+      }
+    }
+
+    if (value.length > column.length) {
+      const policy = column.truncation || 'truncate-right';
+      const written = policy === 'blank'
+        ? ''
+        : policy === 'truncate-left'
+          ? value.slice(value.length - column.length)
+          : value.slice(0, column.length);
+      warnings.push({
+        row: rowNumber,
+        field: column.field,
+        originalValue,
+        writtenValue: written,
+        message: policy === 'blank'
+          ? `Value '${originalValue}' exceeds ${column.length} characters for '${column.field}' and was left blank`
+          : `Value '${originalValue}' truncated to '${written}' to fit ${column.length} characters for '${column.field}'`
+      });
+      value = written;
+    }
+
+    // Negative numbers keep their sign in front of zero padding
+    const isSignedNumber = column.justify === 'right' && padChar === '0' && value.startsWith('-');
+    const padded = column.justify === 'right'
+      ? isSignedNumber
+        ? `-${value.slice(1).padStart(column.length - 1, padChar)}`
+        : value.padStart(column.length, padChar)
+      : value.padEnd(column.length, padChar);
+
+    line += padded;
+  }
+
+  return line;
+}
+
+/**
+ * Converts records to fixed-width file content
+ * @param records Provider records
+ * @param columns Column specifications
+ * @param lineTerminator Line terminator (defaults to CRLF, the common vendor convention)
+ * @returns File content and any truncation warnings
+ */
+export function arrayToFixedWidth(
+  records: ProviderRecord[],
+  columns: FixedWidthColumn[],
+  lineTerminator = '\r\n'
+): { content: string; warnings: FixedWidthWarning[] } {
+  const warnings: FixedWidthWarning[] = [];
+  const lines = records.map((record, index) => formatFixedWidthRecord(record, columns, index + 1, warnings));
+  return {
+    content: lines.length > 0 ? lines.join(lineTerminator) + lineTerminator : '',
+    warnings
+  };
+}
@@ -4,14 +4,23 @@
  */
 
 import { exportToCSV } from './csvWriter';
+import { createControlRecords, toControlRow } from '../services/controlRecords';
 import type { DETRecord } from '../types';
 
 /**
- * Generates messy employee data with intentionally problematic formatting
+ * Adds the HDR (first) and FTR (last) control records the upload requires around sample DET records
+ */
+function frameWithControlRecords(records: Partial<DETRecord>[], headers: string[], fileName: string): Record<string, string>[] {
+  const { header, trailer } = createControlRecords(records.length, 'EMP001', fileName);
+  return [toControlRow(header, headers), ...(records as Record<string, string>[]), toControlRow(trailer, headers)];
+}
+
+/**
+ * Messy sample employees with intentionally problematic formatting
  * Includes: combined fields, missing fields, inconsistent formats
  */
-export function generateMessyEmployeeData(): void {
-  const messyData: Partial<DETRecord>[] = [
+export function getMessyEmployeeData(): Partial<DETRecord>[] {
+  return [
     // Row 1: Combined full name in one field, missing address components
     {
       record_type: 'DET',
@@ -135,6 +144,7 @@ export function generateMessyEmployeeData(): void {
       employment_type: 'Part-time',
       employee_status: 'Active',
       pay_rate_type: 'Hourly',
+      hourly_rate: '31.25',
       hours_per_week: '20',
       fed_status: 'Single',
       fed_allowances: '2',
@@ -230,6 +240,13 @@ export function generateMessyEmployeeData(): void {
       // Missing required direct deposit fields
     }
   ];
+}
+
+/**
+ * Generates messy employee data with intentionally problematic formatting
+ */
+export function generateMessyEmployeeData(): void {
+  const messyData = getMessyEmployeeData();
 
   // Use all standard headers but data will be messy
   const headers = [
@@ -240,7 +257,8 @@ export function generateMessyEmployeeData(): void {
     'hire_date', 'original_hire_date', 'rehire_date', 'termination_date',
     'job_title', 'department', 'manager_email', 'employee_email', 'employee_phone',
     'flsa_status', 'annual_salary', 'pay_frequency', 'employment_type',
-    'employee_status', 'pay_rate_type', 'hours_per_week',
+    'employee_status', 'pay_rate_type', 'hourly_rate', 'hours_per_week',
+    'contractor_tin', 'contractor_tin_type', 'contractor_business_name', 'contractor_payment_method',
     'fed_status', 'fed_allowances', 'fed_extra_wh_per_paycheck',
     'state_code', 'state_extra_wh_per_paycheck', 'local_tax_code_1',
     'i9_status', 'e_verify_status',
@@ -256,15 +274,15 @@ export function generateMessyEmployeeData(): void {
     'gender', 'ethnicity', 'disability_status', 'veteran_status'
   ];
 
-  exportToCSV(messyData as DETRecord[], 'messy_employee_data_sample.csv', headers);
+  exportToCSV(frameWithControlRecords(messyData, headers, 'messy_employee_data_sample.csv'), 'messy_employee_data_sample.csv', headers);
 }
 
 /**
- * Generates clean, properly formatted standard employee data
+ * Clean, properly formatted standard sample employees
  * All fields separated correctly, consistent formatting
  */
-export function generateStandardEmployeeData(): void {
-  const standardData: Partial<DETRecord>[] = [
+export function getStandardEmployeeData(): Partial<DETRecord>[] {
+  return [
     {
       record_type: 'DET',
       record_sequence: '1',
@@ -415,6 +433,7 @@ export function generateStandardEmployeeData(): void {
       employment_type: 'Part-time',
       employee_status: 'Active',
       pay_rate_type: 'Hourly',
+      hourly_rate: '31.25',
       hours_per_week: '20',
       fed_status: 'Single',
       fed_allowances: '2',
@@ -435,8 +454,43 @@ export function generateStandardEmployeeData(): void {
       ethnicity: 'Black',
       disability_status: 'No',
       veteran_status: 'No'
+    },
+    // Contractor: 1099 vendor fields instead of W-4 and FLSA data
+    {
+      record_type: 'DET',
+      record_sequence: '4',
+      company_id: 'COMP002',
+      employee_id: '1004',
+      first_name: 'Maria',
+      last_name: 'Garcia',
+      dob: '1985-03-12',
+      ssn: 'XXX-XX-3456',
+      home_street: '12 Harbor Way',
+      home_city: 'Savannah',
+      home_state: 'GA',
+      home_zip: '31401',
+      hire_date: '2025-11-05',
+      job_title: 'Brand Design Consultant',
+      employee_email: 'maria@garciadesign.com',
+      employee_phone: '555-0104',
+      employment_type: 'Contractor',
+      employee_status: 'Active',
+      contractor_tin: '12-3456789',
+      contractor_tin_type: 'EIN',
+      contractor_business_name: 'Garcia Design LLC',
+      contractor_payment_method: 'ACH',
+      dd1_routing_number: '555555555',
+      dd1_account_number: '666666666',
+      dd1_account_type: 'Checking'
     }
   ];
+}
+
+/**
+ * Generates clean, properly formatted standard employee data
+ */
+export function generateStandardEmployeeData(): void {
+  const standardData = getStandardEmployeeData();
 
   // Use all standard headers
   const headers = [
@@ -447,7 +501,8 @@ export function generateStandardEmployeeData(): void {
     'hire_date', 'original_hire_date', 'rehire_date', 'termination_date',
     'job_title', 'department', 'manager_email', 'employee_email', 'employee_phone',
     'flsa_status', 'annual_salary', 'pay_frequency', 'employment_type',
-    'employee_status', 'pay_rate_type', 'hours_per_week',
+    'employee_status', 'pay_rate_type', 'hourly_rate', 'hours_per_week',
+    'contractor_tin', 'contractor_tin_type', 'contractor_business_name', 'contractor_payment_method',
     'fed_status', 'fed_allowances', 'fed_extra_wh_per_paycheck',
     'state_code', 'state_extra_wh_per_paycheck', 'local_tax_code_1',
     'i9_status', 'e_verify_status',
@@ -463,6 +518,6 @@ export function generateStandardEmployeeData(): void {
     'gender', 'ethnicity', 'disability_status', 'veteran_status'
   ];
 
-  exportToCSV(standardData as DETRecord[], 'standard_employee_data_sample.csv', headers);
+  exportToCSV(frameWithControlRecords(standardData, headers, 'standard_employee_data_sample.csv'), 'standard_employee_data_sample.csv', headers);
 }
 
@@ -38,7 +38,12 @@ const EMPLOYEE_UPLOAD_HEADERS = [
   'employment_type',
   'employee_status',
   'pay_rate_type',
+  'hourly_rate',
   'hours_per_week',
+  'contractor_tin',
+  'contractor_tin_type',
+  'contractor_business_name',
+  'contractor_payment_method',
   'fed_status',
   'fed_allowances',
   'fed_extra_wh_per_paycheck',
@@ -248,8 +253,8 @@ export function generateFormatDocumentation(): void {
       'Field Name': 'annual_salary',
       'Accepted Format': 'Numeric string (numbers only, no commas or currency symbols)',
       'Example': '120000',
-      'Required': 'Yes',
-      'Description': 'Annual salary amount as numeric string (e.g., 120000 for $120,000)'
+      'Required': 'Yes (Salary workers)',
+      'Description': 'Annual salary amount as numeric string (e.g., 120000 for $120,000). Optional for Hourly workers'
     },
     {
       'Field Name': 'pay_frequency',
@@ -277,14 +282,49 @@ export function generateFormatDocumentation(): void {
       'Accepted Format': 'Salary or Hourly',
       'Example': 'Salary',
       'Required': 'No',
-      'Description': 'How pay is calculated - Salary (fixed) or Hourly (time-based) (optional)'
+      'Description': 'How pay is calculated - Salary (fixed) or Hourly (time-based) (optional, defaults to Salary). Hourly workers must be Non-Exempt'
+    },
+    {
+      'Field Name': 'hourly_rate',
+      'Accepted Format': 'Decimal (e.g., 22.50)',
+      'Example': '22.50',
+      'Required': 'Yes (Hourly workers)',
+      'Description': 'Rate per hour for Hourly workers - sent to providers as the pay rate'
     },
     {
       'Field Name': 'hours_per_week',
-      'Accepted Format': 'Numeric string (e.g., 40, 20, 30)',
+      'Accepted Format': 'Numeric string between 0 and 168 (e.g., 40, 20, 30)',
       'Example': '40',
+      'Required': 'Yes (Hourly and Non-Exempt workers)',
+      'Description': 'Standard hours per week - converted to standard hours per pay period for providers'
+    },
+    {
+      'Field Name': 'contractor_tin',
+      'Accepted Format': 'XXX-XX-XXXX (SSN) or XX-XXXXXXX (EIN)',
+      'Example': '12-3456789',
+      'Required': 'Yes (Contractors)',
+      'Description': 'Taxpayer identification number reported on the 1099 - contractors are sent to the vendor setup file, not to W-2 payroll providers'
+    },
+    {
+      'Field Name': 'contractor_tin_type',
+      'Accepted Format': 'SSN or EIN',
+      'Example': 'EIN',
+      'Required': 'Yes (Contractors)',
+      'Description': 'Whether contractor_tin is a social security number or an employer identification number'
+    },
+    {
+      'Field Name': 'contractor_business_name',
+      'Accepted Format': 'Any string',
+      'Example': 'Smith Consulting LLC',
       'Required': 'No',
-      'Description': 'Standard hours per week (optional, important for part-time employees)'
+      'Description': 'Legal business name of the contractor (leave blank for individuals paid under their own name)'
+    },
+    {
+      'Field Name': 'contractor_payment_method',
+      'Accepted Format': 'ACH or Check',
+      'Example': 'ACH',
+      'Required': 'Yes (Contractors)',
+      'Description': 'How the contractor is paid - ACH uses the dd1 bank account fields, checks are mailed to the home address'
     },
     {
       'Field Name': 'fed_status',
@@ -530,13 +570,13 @@ export function generateFieldSpecification(): void {
   const specifications: FieldSpecification[] = [
     // HDR (Header) Record Fields
     { fieldName: 'record_type', fieldOptions: 'HDR', required: 'Yes', notes: 'Record type identifier - must be "HDR" for header record' },
-    { fieldName: 'format_version', fieldOptions: 'Version string (e.g., 1.0, 2.0)', required: 'Yes', notes: 'File format version identifier for scalability' },
+    { fieldName: 'format_version', fieldOptions: '1.0', required: 'Yes', notes: 'File format version identifier - files with an unsupported version are rejected' },
     { fieldName: 'upload_id', fieldOptions: 'Unique identifier (UUID or timestamp-based)', required: 'Yes', notes: 'Unique identifier for this upload/batch' },
     { fieldName: 'file_timestamp', fieldOptions: 'ISO 8601 format (e.g., 2025-11-15T14:30:00Z)', required: 'Yes', notes: 'Timestamp when file was created/uploaded' },
     { fieldName: 'file_name', fieldOptions: 'S3 bucket filename', required: 'Yes', notes: 'S3 bucket filename for traceability' },
     { fieldName: 'directory_path', fieldOptions: 'S3 directory path (e.g., payroll/2025/11)', required: 'Yes', notes: 'S3 directory/path where file is stored' },
     { fieldName: 'employer_id', fieldOptions: 'Umbrella employer identifier', required: 'Yes', notes: 'Umbrella employer identifier (for entire file)' },
-    { fieldName: 'total_records', fieldOptions: 'Numeric string', required: 'Yes', notes: 'Total number of detail (DET) records expected in file' },
+    { fieldName: 'total_records', fieldOptions: 'Numeric string', required: 'Yes', notes: 'Total number of detail (DET) records in file - must match the DET record count or the file is rejected' },
     { fieldName: 'processing_date', fieldOptions: 'YYYY-MM-DD format', required: 'Yes', notes: 'Date file should be processed' },
     
     // DET (Detail) Record Fields - Record Tracking
@@ -557,7 +597,7 @@ export function generateFieldSpecification(): void {
     { fieldName: 'hire_date', fieldOptions: 'YYYY-MM-DD format', required: 'Yes', notes: 'Employee hire date in ISO format' },
     { fieldName: 'job_title', fieldOptions: 'Any string', required: 'Yes', notes: 'Employee job title' },
     { fieldName: 'flsa_status', fieldOptions: 'Exempt, Non-Exempt', required: 'Yes', notes: 'FLSA classification determines overtime eligibility' },
-    { fieldName: 'annual_salary', fieldOptions: 'Numeric string (e.g., 120000)', required: 'Yes', notes: 'Annual salary amount (will be converted to per-paycheck rate)' },
+    { fieldName: 'annual_salary', fieldOptions: 'Numeric string (e.g., 120000)', required: 'Yes', notes: 'Annual salary amount (will be converted to per-paycheck rate). Only required when pay_rate_type is Salary' },
     { fieldName: 'pay_frequency', fieldOptions: 'Weekly, Bi-weekly, Semi-monthly, Monthly', required: 'Yes', notes: 'Determines how salary is divided for per-paycheck calculations' },
     { fieldName: 'fed_status', fieldOptions: 'Single, Married, Married Filing Separately, Head of Household', required: 'Yes', notes: 'Federal tax filing status' },
     { fieldName: 'fed_allowances', fieldOptions: 'Numeric string (0-99)', required: 'Yes', notes: 'Federal tax withholding allowances' },
@@ -586,8 +626,13 @@ export function generateFieldSpecification(): void {
     { fieldName: 'employee_phone', fieldOptions: 'Phone number format', required: 'No', notes: 'Employee phone number (optional)' },
     { fieldName: 'employment_type', fieldOptions: 'Full-time, Part-time, Contractor, Seasonal, Temporary', required: 'No', notes: 'Employment type (affects benefits eligibility and tax treatment)' },
     { fieldName: 'employee_status', fieldOptions: 'Active, Inactive, Leave of Absence, Terminated', required: 'No', notes: 'Current employment status (critical for employee data processing)' },
-    { fieldName: 'pay_rate_type', fieldOptions: 'Salary, Hourly', required: 'No', notes: 'How pay is calculated (Salary = fixed, Hourly = time-based)' },
-    { fieldName: 'hours_per_week', fieldOptions: 'Numeric string (e.g., 40, 20)', required: 'No', notes: 'Standard hours per week (important for part-time employees and benefits eligibility)' },
+    { fieldName: 'pay_rate_type', fieldOptions: 'Salary, Hourly', required: 'No', notes: 'How pay is calculated (Salary = fixed, Hourly = time-based). Defaults to Salary; Hourly workers must be Non-Exempt' },
+    { fieldName: 'hourly_rate', fieldOptions: 'Decimal (e.g., 22.50)', required: 'No', notes: 'Rate per hour. Required when pay_rate_type is Hourly' },
+    { fieldName: 'hours_per_week', fieldOptions: 'Numeric string (e.g., 40, 20)', required: 'No', notes: 'Standard hours per week. Required for Hourly and Non-Exempt workers (drives standard hours per pay period)' },
+    { fieldName: 'contractor_tin', fieldOptions: 'XXX-XX-XXXX (SSN) or XX-XXXXXXX (EIN)', required: 'No', notes: 'Required for Contractors. 1099 taxpayer identification number' },
+    { fieldName: 'contractor_tin_type', fieldOptions: 'SSN, EIN', required: 'No', notes: 'Required for Contractors. Type of contractor_tin' },
+    { fieldName: 'contractor_business_name', fieldOptions: 'Any string', required: 'No', notes: 'Contractor legal business name (blank for individuals)' },
+    { fieldName: 'contractor_payment_method', fieldOptions: 'ACH, Check', required: 'No', notes: 'Required for Contractors. ACH pays to the dd1 account; checks go to the home address' },
     { fieldName: 'local_tax_code_1', fieldOptions: 'Any string (e.g., ATL_CITY_TAX)', required: 'No', notes: 'Local tax code (if applicable, optional)' },
     { fieldName: 'dd2_routing_number', fieldOptions: '9-digit number', required: 'No', notes: 'Bank routing number for secondary direct deposit (optional)' },
     { fieldName: 'dd2_account_number', fieldOptions: 'Any string', required: 'No', notes: 'Bank account number for secondary direct deposit (optional)' },
@@ -611,9 +656,9 @@ export function generateFieldSpecification(): void {
     { fieldName: 'veteran_status', fieldOptions: 'Yes, No, Prefer Not to Say', required: 'No', notes: 'EEO-1 reporting field for veteran status (optional)' },
     
     // FTR (Footer/Trailer) Record Fields
-    { fieldName: 'record_type', fieldOptions: 'FTR', required: 'No', notes: 'Record type identifier - must be "FTR" for footer/trailer record (optional)' },
-    { fieldName: 'total_employees_processed', fieldOptions: 'Numeric string', required: 'No', notes: 'Total number of employees successfully processed (optional)' },
-    { fieldName: 'total_employees_skipped', fieldOptions: 'Numeric string', required: 'No', notes: 'Total number of employees skipped (optional)' },
+    { fieldName: 'record_type', fieldOptions: 'FTR', required: 'Yes', notes: 'Record type identifier - must be "FTR" for footer/trailer record (last row; a missing trailer means the file is truncated)' },
+    { fieldName: 'total_employees_processed', fieldOptions: 'Numeric string', required: 'No', notes: 'Total number of employees successfully processed (optional; processed + skipped must equal the DET record count)' },
+    { fieldName: 'total_employees_skipped', fieldOptions: 'Numeric string', required: 'No', notes: 'Total number of employees skipped (optional; processed + skipped must equal the DET record count)' },
     { fieldName: 'total_errors', fieldOptions: 'Numeric string', required: 'No', notes: 'Total number of errors encountered (optional)' }
   ];
 
@@ -0,0 +1,327 @@
+/**
+ * XLSX Reader Utility
+ * Reads worksheets from Excel workbooks locally (SpreadsheetML in a ZIP package)
+ */
+
+import { openZip } from './zipReader';
+import type { ZipArchive } from './zipReader';
+import { columnLetter } from './xlsxWriter';
+
+/**
+ * What a cell holds, as Excel stored it
+ */
+export type WorksheetCellType = 'text' | 'number' | 'date' | 'boolean' | 'error';
+
+/**
+ * One non-empty cell
+ */
+export interface WorksheetCell {
+  reference: string; // Cell reference (e.g., "D5")
+  type: WorksheetCellType;
+  value: string; // Text as entered; numbers as stored (e.g., "1E-3"); dates as YYYY-MM-DD or YYYY-MM-DDTHH:MM:SS; booleans TRUE/FALSE; errors like #N/A
+  fixedFormat?: FixedNumberFormat; // Set when the cell's number format is a plain fixed format such as "0.00" or "00000"
+  percentFormat?: boolean; // Set when the cell's number format shows a percentage (0.6 is shown as 60%)
+}
+
+/**
+ * Plain fixed number format: the digits Excel shows at least before and exactly after the decimal point
+ */
+export interface FixedNumberFormat {
+  integerDigits: number; // e.g., 5 for "00000" (ZIP codes kept with leading zeros)
+  decimals: number; // e.g., 2 for "#,##0.00"
+}
+
+/**
+ * One sheet row, with cells indexed by column (0 = A); empty cells are undefined
+ */
+export interface WorksheetRow {
+  row: number; // Sheet row number
+  cells: (WorksheetCell | undefined)[];
+}
+
+/**
+ * Contents of one worksheet
+ */
+export interface WorksheetContent {
+  name: string;
+  date1904: boolean; // Workbook counts date serials from 1904 (older Mac workbooks)
+  rows: WorksheetRow[]; // Rows that have at least one cell, in sheet order
+}
+
+/**
+ * Worksheet listed in the workbook
+ */
+interface SheetEntry {
+  name: string;
+  path: string; // Part path inside the package
+  hidden: boolean;
+}
+
+// Built-in number formats that display dates or times
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+
+// Built-in percentage formats ("0%", "0.00%")
+const BUILT_IN_PERCENT_FORMATS = new Set([9, 10]);
+
+// Built-in fixed number formats ("0", "0.00", "#,##0", "#,##0.00")
+const BUILT_IN_FIXED_FORMATS: Record<number, FixedNumberFormat> = {
+  1: { integerDigits: 1, decimals: 0 },
+  2: { integerDigits: 1, decimals: 2 },
+  3: { integerDigits: 1, decimals: 0 },
+  4: { integerDigits: 1, decimals: 2 }
+};
+
+/**
+ * Reads a part of the package as text
+ */
+async function readText(zip: ZipArchive, path: string): Promise<string | null> {
+  const data = await zip.read(path);
+  return data ? new TextDecoder().decode(data) : null;
+}
+
+/**
+ * Decodes XML entities and the _xHHHH_ escapes Excel uses for control characters
+ */
+function decodeXml(value: string): string {
+  return value
+    .replace(/_x([0-9a-fA-F]{4})_/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+      if (entity.startsWith('#x')) {
+        return String.fromCodePoint(parseInt(entity.slice(2), 16));
+      }
+      if (entity.startsWith('#')) {
+        return String.fromCodePoint(parseInt(entity.slice(1), 10));
+      }
+      return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[entity] || '';
+    });
+}
+
+/**
+ * Reads the attributes of an XML start tag (namespace prefixes are kept, e.g., "r:id")
+ */
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = decodeXml(match[2]);
+  }
+  return attributes;
+}
+
+/**
+ * Text of a shared or inline string (all runs joined, phonetic guides left out)
+ */
+function readStringItem(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  return Array.from(withoutPhonetics.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+}
+
+/**
+ * 0-based column index of a cell reference (A1 -> 0, AA7 -> 26)
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * First section of a format code without quoted text, escaped characters and [color]/[condition] sections
+ */
+function formatCodePattern(code: string): string {
+  return code.replace(/"[^"]*"/g, '').replace(/\\./g, '').replace(/\[[^\]]*\]/g, '').split(';')[0];
+}
+
+/**
+ * Whether a custom number format code displays a date or time
+ */
+function isDateFormatCode(code: string): boolean {
+  return /[dmyhs]/i.test(formatCodePattern(code));
+}
+
+/**
+ * Whether a custom number format code displays a percentage
+ */
+function isPercentFormatCode(code: string): boolean {
+  return formatCodePattern(code).includes('%');
+}
+
+/**
+ * Reads a plain fixed format code such as "0.00", "#,##0.000" or "00000" (undefined for other formats)
+ */
+function readFixedFormat(code: string): FixedNumberFormat | undefined {
+  const match = code.split(';')[0].match(/^[#,]*(0+)(?:\.(0+))?$/);
+  return match ? { integerDigits: match[1].length, decimals: (match[2] || '').length } : undefined;
+}
+
+/**
+ * Converts an Excel date serial to YYYY-MM-DD (with THH:MM:SS when the serial has a time part)
+ * @param serial Days since the workbook's epoch
+ * @param date1904 Whether the workbook uses the 1904 date system
+ * @returns ISO date text, or null for serials that are not valid dates
+ */
+export function excelSerialToIsoDate(serial: number, date1904 = false): string | null {
+  if (!isFinite(serial) || serial < 0 || serial >= 2958466 || (!date1904 && Math.floor(serial) === 60)) {
+    return null; // Negative, past 9999-12-31, or the 1900-02-29 that Excel treats as real but never existed
+  }
+  // Excel's 1900 system counts 1900 as a leap year, so serials after February 1900 are one day ahead
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, serial < 60 ? 31 : 30);
+  const milliseconds = Math.round(serial * 86400) * 1000;
+  const iso = new Date(epoch + milliseconds).toISOString();
+  return milliseconds % 86400000 === 0 ? iso.slice(0, 10) : iso.slice(0, 19);
+}
+
+/**
+ * Reads the worksheets listed in the workbook, with their package paths
+ */
+async function readSheetEntries(zip: ZipArchive): Promise<{ sheets: SheetEntry[]; date1904: boolean }> {
+  const workbook = await readText(zip, 'xl/workbook.xml');
+  const relationships = await readText(zip, 'xl/_rels/workbook.xml.rels');
+  if (!workbook || !relationships) {
+    throw new Error('Not an Excel workbook (xl/workbook.xml is missing)');
+  }
+
+  const targets = new Map<string, string>();
+  for (const match of relationships.matchAll(/<Relationship\b[^>]*>/g)) {
+    const attributes = readAttributes(match[0]);
+    // Targets are relative to xl/ unless they start with a slash
+    targets.set(attributes.Id, attributes.Target.startsWith('/') ? attributes.Target.slice(1) : `xl/${attributes.Target}`);
+  }
+
+  const sheets = Array.from(workbook.matchAll(/<sheet\b[^>]*>/g), match => {
+    const attributes = readAttributes(match[0]);
+    return {
+      name: attributes.name,
+      path: targets.get(attributes['r:id']) || '',
+      hidden: attributes.state === 'hidden' || attributes.state === 'veryHidden'
+    };
+  }).filter(sheet => sheet.path !== '');
+
+  const workbookProperties = workbook.match(/<workbookPr\b[^>]*>/);
+  const date1904 = workbookProperties ? ['1', 'true'].includes(readAttributes(workbookProperties[0]).date1904) : false;
+  return { sheets, date1904 };
+}
+
+/**
+ * Reads the number format of every cell style: whether it shows a date or a percentage, and its fixed format
+ */
+async function readCellFormats(zip: ZipArchive): Promise<{ isDate: boolean; isPercent: boolean; fixedFormat?: FixedNumberFormat }[]> {
+  const styles = await readText(zip, 'xl/styles.xml');
+  if (!styles) {
+    return [];
+  }
+  const customFormats = new Map<number, string>();
+  for (const match of styles.matchAll(/<numFmt\b[^>]*>/g)) {
+    const attributes = readAttributes(match[0]);
+    customFormats.set(Number(attributes.numFmtId), attributes.formatCode || '');
+  }
+  const cellXfs = styles.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/);
+  if (!cellXfs) {
+    return [];
+  }
+  return Array.from(cellXfs[1].matchAll(/<xf\b[^>]*>/g), match => {
+    const formatId = Number(readAttributes(match[0]).numFmtId || 0);
+    const code = customFormats.get(formatId);
+    return code === undefined
+      ? { isDate: BUILT_IN_DATE_FORMATS.has(formatId), isPercent: BUILT_IN_PERCENT_FORMATS.has(formatId), fixedFormat: BUILT_IN_FIXED_FORMATS[formatId] }
+      : { isDate: isDateFormatCode(code), isPercent: isPercentFormatCode(code), fixedFormat: readFixedFormat(code) };
+  });
+}
+
+/**
+ * Lists the visible worksheets of a workbook, in tab order
+ * @param workbook Workbook file bytes
+ * @returns Sheet names
+ */
+export async function listWorksheets(workbook: Uint8Array): Promise<string[]> {
+  const { sheets } = await readSheetEntries(openZip(workbook));
+  return sheets.filter(sheet => !sheet.hidden).map(sheet => sheet.name);
+}
+
+/**
+ * Reads one worksheet of a workbook
+ * @param workbook Workbook file bytes
+ * @param sheetName Sheet to read (defaults to the first visible sheet)
+ * @returns Sheet rows with typed cells
+ */
+export async function readWorksheet(workbook: Uint8Array, sheetName?: string): Promise<WorksheetContent> {
+  const zip = openZip(workbook);
+  const { sheets, date1904 } = await readSheetEntries(zip);
+  const sheet = sheetName === undefined
+    ? sheets.find(entry => !entry.hidden)
+    : sheets.find(entry => entry.name === sheetName);
+  if (!sheet) {
+    throw new Error(sheetName === undefined ? 'The workbook has no visible worksheets' : `Worksheet '${sheetName}' not found`);
+  }
+
+  const xml = await readText(zip, sheet.path);
+  if (xml === null) {
+    throw new Error(`Worksheet '${sheet.name}' is missing from the workbook`);
+  }
+  const sharedStringsXml = await readText(zip, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? Array.from(sharedStringsXml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g), match => readStringItem(match[1]))
+    : [];
+  const cellFormats = await readCellFormats(zip);
+
+  const rows: WorksheetRow[] = [];
+  let nextRow = 1;
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(readAttributes(rowMatch[1]).r) || nextRow;
+    nextRow = rowNumber + 1;
+    const cells: (WorksheetCell | undefined)[] = [];
+    let nextColumn = 0;
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = readAttributes(cellMatch[1]);
+      const column = attributes.r ? columnIndex(attributes.r) : nextColumn;
+      nextColumn = column + 1;
+      const reference = attributes.r || `${columnLetter(column)}${rowNumber}`;
+      const inner = cellMatch[2] || '';
+      const rawValue = inner.match(/<v\b[^>]*>([\s\S]*?)<\/v>/)?.[1];
+      const format = cellFormats[Number(attributes.s || 0)];
+
+      let cell: WorksheetCell | undefined;
+      switch (attributes.t) {
+        case 's':
+          cell = rawValue === undefined ? undefined : { reference, type: 'text', value: sharedStrings[Number(rawValue)] ?? '' };
+          break;
+        case 'inlineStr':
+          cell = { reference, type: 'text', value: readStringItem(inner) };
+          break;
+        case 'str':
+          cell = rawValue === undefined ? undefined : { reference, type: 'text', value: decodeXml(rawValue) };
+          break;
+        case 'b':
+          cell = rawValue === undefined ? undefined : { reference, type: 'boolean', value: rawValue.trim() === '1' ? 'TRUE' : 'FALSE' };
+          break;
+        case 'e':
+          cell = rawValue === undefined ? undefined : { reference, type: 'error', value: decodeXml(rawValue) };
+          break;
+        case 'd':
+          cell = rawValue === undefined ? undefined : { reference, type: 'date', value: rawValue.trim().replace(/(\.\d+)?Z?$/, '').replace(/T00:00:00$/, '') };
+          break;
+        default: {
+          if (rawValue === undefined || rawValue.trim() === '') {
+            break;
+          }
+          const date = format?.isDate ? excelSerialToIsoDate(Number(rawValue), date1904) : null;
+          cell = date
+            ? { reference, type: 'date', value: date }
+            : { reference, type: 'number', value: rawValue.trim(), fixedFormat: format?.fixedFormat, percentFormat: format?.isPercent || undefined };
+        }
+      }
+      if (cell && !(cell.type === 'text' && cell.value === '')) {
+        cells[column] = cell;
+      }
+    }
+
+    if (cells.length > 0) {
+      rows.push({ row: rowNumber, cells });
+    }
+  }
+
+  return { name: sheet.name, date1904, rows };
+}
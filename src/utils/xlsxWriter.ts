@@ -0,0 +1,244 @@
+/**
+ * XLSX Writer Utility
+ * Builds Excel workbooks locally (SpreadsheetML in a ZIP package) and downloads them
+ */
+
+import { createZip } from './zipWriter';
+
+/**
+ * One worksheet of a workbook
+ */
+export interface WorksheetData {
+  name: string; // Sheet tab name (invalid characters are replaced, long names are shortened)
+  headers: string[];
+  rows: object[]; // Records keyed by header
+  textColumns?: string[]; // Columns always written as text (identifier columns are detected automatically)
+}
+
+/**
+ * Column names that hold identifiers (routing/account numbers, ZIPs, SSNs, employee numbers, codes)
+ * Excel would drop their leading zeros if they were written as numbers
+ */
+const IDENTIFIER_COLUMN_PATTERN = /routing|account|acct|zip|ssn|employee|phone|code|\bid\b|_id\b|#|\bno\b|number|sequence/i;
+
+/**
+ * Whether a column should be written as text
+ */
+export function isIdentifierColumn(name: string): boolean {
+  return IDENTIFIER_COLUMN_PATTERN.test(name);
+}
+
+/**
+ * Whether a character may appear in XML (control characters other than tab, LF and CR may not)
+ */
+function isXmlCharacter(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+/**
+ * Escapes text for XML, dropping characters XML cannot contain
+ */
+function escapeXml(value: string): string {
+  return Array.from(value)
+    .filter(isXmlCharacter)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Spreadsheet column letters for a 0-based index (0 -> A, 26 -> AA)
+ */
+export function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Whether a value can be stored as a number without changing what the user sees
+ * (no leading zeros, no more than 15 significant digits)
+ */
+function isSafeNumber(value: string): boolean {
+  return /^-?(0|[1-9]\d{0,14})(\.\d+)?$/.test(value) && value.replace(/\D/g, '').length <= 15;
+}
+
+/**
+ * Makes sheet names valid and unique (max 31 characters, no []:*?/\)
+ */
+function sheetNames(sheets: WorksheetData[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+// Cell styles defined in styles.xml: 0 = default, 1 = bold header, 2 = text ("@"), 3 = two decimals ("0.00")
+const STYLE_HEADER = 1;
+const STYLE_TEXT = 2;
+const STYLE_CENTS = 3;
+
+/**
+ * Text of a record's value for a column (blank for null/undefined)
+ */
+function cellText(row: object, header: string): string {
+  const value = (row as Record<string, unknown>)[header];
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * Renders one cell
+ */
+function cellXml(reference: string, value: string, style: number, asText: boolean): string {
+  if (value === '') {
+    return style ? `<c r="${reference}" s="${style}"/>` : '';
+  }
+  if (!asText && isSafeNumber(value)) {
+    // Keep amounts such as 12.50 showing both decimals
+    const numberStyle = /\.\d{2}$/.test(value) ? STYLE_CENTS : style;
+    return `<c r="${reference}"${numberStyle ? ` s="${numberStyle}"` : ''}><v>${value}</v></c>`;
+  }
+  return `<c r="${reference}"${style ? ` s="${style}"` : ''} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+/**
+ * Renders a worksheet with a frozen, bold header row
+ */
+function worksheetXml(sheet: WorksheetData): string {
+  const textColumns = new Set(sheet.textColumns || []);
+  const isText = sheet.headers.map(header => textColumns.has(header) || isIdentifierColumn(header));
+
+  const widths = sheet.headers.map((header, index) => {
+    const longest = sheet.rows.reduce((max, row) => Math.max(max, cellText(row, header).length), header.length);
+    return `<col min="${index + 1}" max="${index + 1}" width="${Math.min(Math.max(longest + 2, 8), 60)}" customWidth="1"/>`;
+  });
+
+  const headerCells = sheet.headers.map((header, index) => cellXml(`${columnLetter(index)}1`, header, STYLE_HEADER, true));
+  const rows = [`<row r="1">${headerCells.join('')}</row>`];
+  sheet.rows.forEach((row, rowIndex) => {
+    const rowNumber = rowIndex + 2;
+    const cells = sheet.headers.map((header, index) => {
+      return cellXml(`${columnLetter(index)}${rowNumber}`, cellText(row, header), isText[index] ? STYLE_TEXT : 0, isText[index]);
+    });
+    rows.push(`<row r="${rowNumber}">${cells.join('')}</row>`);
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + (widths.length > 0 ? `<cols>${widths.join('')}</cols>` : '')
+    + `<sheetData>${rows.join('')}</sheetData>`
+    + '</worksheet>';
+}
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="4">'
+  + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="49" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1" applyNumberFormat="1"/>'
+  + '<xf numFmtId="49" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="2" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '</cellXfs>'
+  + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+  + '</styleSheet>';
+
+/**
+ * Creates an .xlsx workbook
+ * @param sheets Worksheets in tab order (at least one)
+ * @returns Workbook file bytes
+ */
+export function createWorkbook(sheets: WorksheetData[]): Uint8Array<ArrayBuffer> {
+  if (sheets.length === 0) {
+    throw new Error('A workbook needs at least one sheet');
+  }
+  const names = sheetNames(sheets);
+  const encoder = new TextEncoder();
+  const xml = (content: string) => encoder.encode(content);
+
+  const contentTypes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + names.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+    + '</Types>';
+
+  const rootRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+    + '</Relationships>';
+
+  const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>`
+    + '</workbook>';
+
+  const workbookRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + names.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+    + `<Relationship Id="rId${names.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+    + '</Relationships>';
+
+  return createZip([
+    { name: '[Content_Types].xml', data: xml(contentTypes) },
+    { name: '_rels/.rels', data: xml(rootRels) },
+    { name: 'xl/workbook.xml', data: xml(workbook) },
+    { name: 'xl/_rels/workbook.xml.rels', data: xml(workbookRels) },
+    { name: 'xl/styles.xml', data: xml(STYLES_XML) },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: xml(worksheetXml(sheet)) }))
+  ]);
+}
+
+/**
+ * Downloads workbook bytes as an .xlsx file
+ * @param workbook Workbook bytes from createWorkbook
+ * @param filename Name of the file to download
+ */
+export function downloadXLSX(workbook: Uint8Array<ArrayBuffer>, filename: string): void {
+  const blob = new Blob([workbook], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Converts data array to a single-sheet workbook and triggers download (the .xlsx counterpart of exportToCSV)
+ * @param data Array of objects to convert
+ * @param filename Name of the file to download
+ * @param headers Optional array of header names (uses object keys if not provided)
+ * @param sheetName Sheet tab name
+ */
+export function exportToXLSX<T extends object>(
+  data: T[],
+  filename: string,
+  headers?: string[],
+  sheetName = 'Sheet1'
+): void {
+  const sheetHeaders = headers || (data.length > 0 ? Object.keys(data[0]) : []);
+  downloadXLSX(createWorkbook([{ name: sheetName, headers: sheetHeaders, rows: data }]), filename);
+}
@@ -0,0 +1,102 @@
+/**
+ * ZIP Reader Utility
+ * Reads entries from ZIP archives in memory (stored and deflated) - enough for XLSX packages
+ */
+
+/**
+ * Opened archive: entry names plus on-demand extraction
+ */
+export interface ZipArchive {
+  names: string[]; // Entry paths, in central directory order
+  read: (name: string) => Promise<Uint8Array | null>; // Entry bytes (null when the archive has no such entry)
+}
+
+/**
+ * Location of one entry's data
+ */
+interface ZipEntryLocation {
+  method: number; // 0 = stored, 8 = deflated
+  compressedSize: number;
+  headerOffset: number; // Offset of the local file header
+}
+
+/**
+ * Finds the end of central directory record (it sits at the end, before an optional comment)
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+  for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      return offset;
+    }
+  }
+  throw new Error('Not a ZIP archive (end of central directory not found)');
+}
+
+/**
+ * Inflates raw deflate data
+ */
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Opens a ZIP archive
+ * ZIP64 archives and encrypted entries are not supported
+ * @param archive Archive bytes
+ * @returns Entry names and a reader for entry data
+ */
+export function openZip(archive: Uint8Array): ZipArchive {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntryLocation>();
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('Corrupt ZIP archive (bad central directory entry)');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(archive.subarray(offset + 46, offset + 46 + nameLength));
+    if (flags & 0x1) {
+      throw new Error(`Encrypted ZIP entries are not supported (${name})`);
+    }
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      headerOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = async (name: string): Promise<Uint8Array | null> => {
+    const entry = entries.get(name);
+    if (!entry) {
+      return null;
+    }
+    if (view.getUint32(entry.headerOffset, true) !== 0x04034b50) {
+      throw new Error(`Corrupt ZIP archive (bad local header for ${name})`);
+    }
+    // The local header's name and extra lengths can differ from the central directory's
+    const start = entry.headerOffset + 30 + view.getUint16(entry.headerOffset + 26, true) + view.getUint16(entry.headerOffset + 28, true);
+    const data = archive.subarray(start, start + entry.compressedSize);
+    switch (entry.method) {
+      case 0:
+        return data;
+      case 8:
+        return inflate(data);
+      default:
+        throw new Error(`Unsupported ZIP compression method ${entry.method} (${name})`);
+    }
+  };
+
+  return { names: Array.from(entries.keys()), read };
+}
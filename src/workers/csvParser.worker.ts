@@ -0,0 +1,39 @@
+/**
+ * CSV Parser Worker
+ * Streams an uploaded file in chunks off the main thread, posting parsed rows and byte progress back as it goes
+ */
+
+import Papa from 'papaparse';
+import { CSV_CHUNK_SIZE, CSV_PARSE_OPTIONS, createRowIngestor } from '../services/csvProcessor';
+import type { CsvWorkerMessage, CsvWorkerRequest } from '../services/csvProcessor';
+
+// The app's TypeScript lib is DOM, not WebWorker: describe just the worker scope used here
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<CsvWorkerRequest>) => void) | null;
+  postMessage: (message: CsvWorkerMessage) => void;
+};
+
+scope.onmessage = (event) => {
+  const { file } = event.data;
+  const ingestor = createRowIngestor();
+  let bytesRead = 0;
+  let fields: string[] | undefined;
+
+  Papa.parse<Record<string, string>>(file, {
+    ...CSV_PARSE_OPTIONS,
+    chunkSize: CSV_CHUNK_SIZE,
+    chunk: (results) => {
+      results.data.forEach(row => ingestor.addRow(row));
+      fields = results.meta.fields ?? fields;
+      bytesRead = Math.min(file.size, bytesRead + CSV_CHUNK_SIZE);
+      scope.postMessage({ type: 'rows', ...ingestor.takeRows() });
+      scope.postMessage({ type: 'progress', bytesRead, totalBytes: file.size });
+    },
+    complete: () => {
+      scope.postMessage({ type: 'complete', summary: ingestor.finish(fields) });
+    },
+    error: (error: Error) => {
+      scope.postMessage({ type: 'error', message: error.message });
+    }
+  });
+};
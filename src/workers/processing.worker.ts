@@ -0,0 +1,43 @@
+/**
+ * Processing Worker
+ * Runs employee processing off the main thread, posting progress back and honouring pause/resume requests
+ */
+
+import { createProcessingControl, runProcessing } from '../controllers/processController';
+import type { ProcessingWorkerMessage, ProcessingWorkerRequest } from '../controllers/processingJobController';
+
+// The app's TypeScript lib is DOM, not WebWorker: describe just the worker scope used here
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ProcessingWorkerRequest>) => void) | null;
+  postMessage: (message: ProcessingWorkerMessage) => void;
+};
+
+const control = createProcessingControl();
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'start':
+      runProcessing(request.employees, request.context, {
+        ...request.options,
+        control,
+        onProgress: (progress) => scope.postMessage({ type: 'progress', progress })
+      })
+        .then((result) => {
+          // Cancelled jobs are terminated from the main thread, so a result is always present here
+          if (result) {
+            scope.postMessage({ type: 'complete', result });
+          }
+        })
+        .catch((error) => {
+          scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+        });
+      break;
+    case 'pause':
+      control.pause();
+      break;
+    case 'resume':
+      control.resume();
+      break;
+  }
+};